@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// Runs the bundled CLI entry. Published packages include it; in a clone run `npm run build-lib` first.
+import { runCli } from '../dist/cli.es.js';
+
+process.exitCode = await runCli(process.argv.slice(2));
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { CLI_USAGE, CliIO, parseCliArguments, parseFlowDocument, runCli } from '../runCli';
+
+const document = {
+  nodes: [
+    { id: 'container', data: { label: 'Container' }, position: { x: 0, y: 0 } },
+    { id: 'a', parentId: 'container', data: { label: 'A' }, position: { x: 0, y: 0 } },
+    { id: 'b', parentId: 'container', data: { label: 'B' }, position: { x: 0, y: 0 } },
+  ],
+  edges: [{ id: 'a-b', source: 'a', target: 'b' }],
+  viewport: { x: 10, y: 20, zoom: 1.5 },
+};
+
+const createIO = (files: Record<string, string> = {}, stdin = '') => {
+  const output = { stdout: '', stderr: '', files: { ...files } };
+  const io: CliIO = {
+    readFile: async path => {
+      if (!(path in output.files)) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+      return output.files[path];
+    },
+    writeFile: async (path, content) => {
+      output.files[path] = content;
+    },
+    readStdin: async () => stdin,
+    stdout: text => {
+      output.stdout += text;
+    },
+    stderr: text => {
+      output.stderr += text;
+    },
+  };
+  return { io, output };
+};
+
+describe('runCli', () => {
+  describe('parseCliArguments', () => {
+    it('should map flags onto layout options', () => {
+      const options = parseCliArguments([
+        'graph.json', '-d', 'right', '--node-spacing', '20', '--padding', '30', '--padding-vertical', '10',
+        '--include-hidden', '--no-parent-key', 'root',
+      ]);
+
+      expect(options).toMatchObject({
+        input: 'graph.json',
+        format: 'json',
+        layout: {
+          direction: 'RIGHT',
+          spacing: { node: 20 },
+          parentResizingOptions: { padding: { horizontal: 30, vertical: 10 } },
+          includeHidden: true,
+          noParentKey: 'root',
+        },
+      });
+    });
+
+    it('should pick the format from the output extension', () => {
+      expect(parseCliArguments(['-o', 'preview.svg'])!.format).toBe('svg');
+      expect(parseCliArguments(['-o', 'preview.svg', '-f', 'json'])!.format).toBe('json');
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => parseCliArguments(['--direction', 'diagonal'])).toThrow('--direction');
+      expect(() => parseCliArguments(['--layer-spacing', 'wide'])).toThrow('--layer-spacing');
+      expect(() => parseCliArguments(['--unknown'])).toThrow();
+      expect(() => parseCliArguments(['--algorithm', 'spring'])).toThrow('--algorithm expects one of layered, dagre');
+    });
+
+    it('should fill the missing padding axis with the documented default', () => {
+      expect(parseCliArguments(['--padding-vertical', '10'])!.layout.parentResizingOptions)
+        .toEqual({ padding: { horizontal: 80, vertical: 10 } });
+      expect(CLI_USAGE).toContain('Container padding left and right (default: 80)');
+    });
+  });
+
+  describe('parseFlowDocument', () => {
+    it('should require a node list and default the edges', () => {
+      expect(parseFlowDocument('{"nodes": []}')).toEqual({ nodes: [], edges: [] });
+      expect(() => parseFlowDocument('{"edges": []}')).toThrow('"nodes" array');
+      expect(() => parseFlowDocument('{')).toThrow('not valid JSON');
+    });
+  });
+
+  it('should lay out the input file and keep the other document fields', async () => {
+    const { io, output } = createIO({ 'graph.json': JSON.stringify(document) });
+
+    const exitCode = await runCli(['graph.json', '-o', 'out.json'], io);
+    const result = JSON.parse(output.files['out.json']);
+
+    expect(exitCode).toBe(0);
+    expect(result.viewport).toEqual(document.viewport);
+    expect(result.nodes.find((node: { id: string }) => node.id === 'b').position.y)
+      .toBeGreaterThan(result.nodes.find((node: { id: string }) => node.id === 'a').position.y);
+    expect(result.nodes[0].style.width).toBeGreaterThan(0);
+  });
+
+  it('should read from stdin and write an SVG preview to stdout', async () => {
+    const { io, output } = createIO({}, JSON.stringify(document));
+
+    expect(await runCli(['--format', 'svg'], io)).toBe(0);
+    expect(output.stdout.startsWith('<svg')).toBe(true);
+    expect(output.stdout).toContain('>Container</text>');
+  });
+
+  it('should report errors on stderr with a non-zero exit code', async () => {
+    const { io, output } = createIO();
+
+    expect(await runCli(['missing.json'], io)).toBe(1);
+    expect(output.stderr).toContain('ENOENT');
+
+    expect(await runCli(['graph.json', '-a', 'spring'], io)).toBe(1);
+    expect(output.stderr).toContain('--algorithm expects one of');
+
+    expect(await runCli(['--help'], io)).toBe(0);
+    expect(output.stdout).toContain('Usage: react-flow-layout');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { Edge, Node } from '@xyflow/react';
+import { renderSvgPreview } from '../svgPreview';
+
+describe('svgPreview', () => {
+  describe('renderSvgPreview', () => {
+    const nodes: Node[] = [
+      { id: 'container', data: { label: 'Group' }, position: { x: 100, y: 100 }, style: { width: 300, height: 200 } },
+      { id: 'a', parentId: 'container', data: { label: 'A & B' }, position: { x: 20, y: 30 }, style: { width: 100, height: 40 } },
+      { id: 'hidden', data: {}, position: { x: 0, y: 0 }, hidden: true },
+    ];
+
+    it('should draw nodes at their absolute positions and escape labels', () => {
+      const svg = renderSvgPreview(nodes, []);
+
+      expect(svg).toContain('<rect x="100" y="100" width="300" height="200"');
+      expect(svg).toContain('<rect x="120" y="130" width="100" height="40"');
+      expect(svg).toContain('A &amp; B');
+      expect(svg).not.toContain('data-id="hidden"');
+      expect(svg.indexOf('data-id="container"')).toBeLessThan(svg.indexOf('data-id="a"'));
+    });
+
+    it('should draw edges from handle to handle through their waypoints', () => {
+      const edges: Edge[] = [{
+        id: 'e',
+        source: 'container',
+        target: 'a',
+        label: 'uses',
+        data: { waypoints: [{ x: 50, y: 0 }], waypointsParentId: 'container' },
+      }];
+
+      const svg = renderSvgPreview(nodes, edges);
+
+      expect(svg).toContain('d="M250,300L150,100L170,130"');
+      expect(svg).toContain('>uses</text>');
+    });
+
+    it('should fit the view box around the drawing with a margin', () => {
+      expect(renderSvgPreview(nodes, [], { margin: 10 })).toContain('viewBox="90 90 320 220"');
+    });
+  });
+});
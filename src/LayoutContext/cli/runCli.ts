@@ -0,0 +1,240 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { Edge, Node } from '@xyflow/react';
+import type { LayoutDirection } from '../context/LayoutContext';
+import { layoutGraph, LayoutGraphOptions } from '../core/HeadlessLayout';
+import { engines } from '../engines';
+import { DEFAULT_PARENT_RESIZING_OPTIONS } from '../utils/layoutProviderUtils';
+import { renderSvgPreview } from './svgPreview';
+
+export type CliOutputFormat = 'json' | 'svg';
+
+export interface CliOptions {
+  input?: string; // Read from stdin when missing or '-'
+  output?: string; // Write to stdout when missing
+  format: CliOutputFormat;
+  layout: LayoutGraphOptions;
+}
+
+// File system and console access, replaceable in tests
+export interface CliIO {
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  readStdin: () => Promise<string>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+// A React Flow document: `{ nodes, edges }` or the output of `toObject()`, which also holds the viewport
+export interface FlowDocument {
+  nodes: Node[];
+  edges: Edge[];
+  [key: string]: unknown;
+}
+
+const DIRECTIONS: LayoutDirection[] = ['DOWN', 'RIGHT', 'UP', 'LEFT'];
+// 'layered' is the default name of the Dagre engine
+const ALGORITHMS = ['layered', ...Object.keys(engines)];
+const DEFAULT_PADDING = DEFAULT_PARENT_RESIZING_OPTIONS.padding;
+
+const formatChoices = (choices: string[]) => `${choices.slice(0, -1).join(', ')} or ${choices[choices.length - 1]}`;
+
+export const CLI_USAGE = `Usage: react-flow-layout [input.json] [options]
+
+Lays out a React Flow JSON document ({ nodes, edges } or toObject() output).
+Reads from stdin when no input file is given and writes to stdout when no output file is given.
+
+Options:
+  -o, --output <file>             Output file; .svg writes an SVG preview
+  -f, --format <json|svg>         Output format (default: from the output extension, else json)
+  -d, --direction <direction>     DOWN, RIGHT, UP or LEFT (default: DOWN)
+  -a, --algorithm <name>          Layout engine: ${formatChoices(ALGORITHMS)} (default: layered)
+      --node-spacing <px>         Space between nodes of a rank (default: 50)
+      --layer-spacing <px>        Space between ranks (default: 50)
+      --padding <px>              Container padding on every side
+      --padding-horizontal <px>   Container padding left and right (default: ${DEFAULT_PADDING.horizontal})
+      --padding-vertical <px>     Container padding top and bottom (default: ${DEFAULT_PADDING.vertical})
+      --node-width <px>           Width of nodes without a size (default: 172)
+      --node-height <px>          Height of nodes without a size (default: 36)
+      --include-hidden            Lay out hidden nodes too
+      --no-parent-key <key>       Key for nodes without a parent (default: no-parent)
+      --stable-layout             Keep the current order of nodes
+      --auto-grid-layout          Pack containers without internal edges in a grid
+      --orthogonal-routing        Route edges with right angles around nodes
+  -h, --help                      Show this help
+`;
+
+const parseNumber = (name: string, value: string | undefined): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < 0) {
+    throw new Error(`--${name} expects a non-negative number, got "${value}"`);
+  }
+  return number;
+};
+
+/**
+ * Turns command line arguments into layout options.
+ * Returns null when help was requested; throws on unknown flags and invalid values.
+ */
+export const parseCliArguments = (args: string[]): CliOptions | null => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      direction: { type: 'string', short: 'd' },
+      algorithm: { type: 'string', short: 'a' },
+      'node-spacing': { type: 'string' },
+      'layer-spacing': { type: 'string' },
+      padding: { type: 'string' },
+      'padding-horizontal': { type: 'string' },
+      'padding-vertical': { type: 'string' },
+      'node-width': { type: 'string' },
+      'node-height': { type: 'string' },
+      'include-hidden': { type: 'boolean' },
+      'no-parent-key': { type: 'string' },
+      'stable-layout': { type: 'boolean' },
+      'auto-grid-layout': { type: 'boolean' },
+      'orthogonal-routing': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    return null;
+  }
+  if (positionals.length > 1) {
+    throw new Error(`Expected a single input file, got ${positionals.join(', ')}`);
+  }
+
+  const direction = values.direction?.toUpperCase();
+  if (direction !== undefined && !DIRECTIONS.includes(direction as LayoutDirection)) {
+    throw new Error(`--direction expects one of ${DIRECTIONS.join(', ')}, got "${values.direction}"`);
+  }
+
+  if (values.algorithm !== undefined && !ALGORITHMS.includes(values.algorithm)) {
+    throw new Error(`--algorithm expects one of ${ALGORITHMS.join(', ')}, got "${values.algorithm}"`);
+  }
+
+  const format = values.format ?? (values.output?.toLowerCase().endsWith('.svg') ? 'svg' : 'json');
+  if (format !== 'json' && format !== 'svg') {
+    throw new Error(`--format expects json or svg, got "${format}"`);
+  }
+
+  const padding = parseNumber('padding', values.padding);
+  const horizontalPadding = parseNumber('padding-horizontal', values['padding-horizontal']) ?? padding;
+  const verticalPadding = parseNumber('padding-vertical', values['padding-vertical']) ?? padding;
+
+  return {
+    input: positionals[0] === '-' ? undefined : positionals[0],
+    output: values.output,
+    format,
+    layout: {
+      direction: direction as LayoutDirection | undefined,
+      algorithm: values.algorithm,
+      spacing: {
+        node: parseNumber('node-spacing', values['node-spacing']),
+        layer: parseNumber('layer-spacing', values['layer-spacing']),
+      },
+      nodeDimensions: {
+        width: parseNumber('node-width', values['node-width']),
+        height: parseNumber('node-height', values['node-height']),
+      },
+      ...(horizontalPadding !== undefined || verticalPadding !== undefined ? {
+        parentResizingOptions: {
+          padding: {
+            horizontal: horizontalPadding ?? DEFAULT_PADDING.horizontal,
+            vertical: verticalPadding ?? DEFAULT_PADDING.vertical,
+          },
+        },
+      } : {}),
+      includeHidden: values['include-hidden'] ?? false,
+      noParentKey: values['no-parent-key'],
+      stableLayout: values['stable-layout'] ?? false,
+      autoGridLayout: values['auto-grid-layout'] ?? false,
+      ...(values['orthogonal-routing'] ? { orthogonalRouting: {} } : {}),
+    },
+  };
+};
+
+/**
+ * Parses a React Flow document and checks it has a node list; edges are optional
+ */
+export const parseFlowDocument = (text: string): FlowDocument => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Input is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!document || typeof document !== 'object' || !Array.isArray((document as FlowDocument).nodes)) {
+    throw new Error('Input must be a React Flow document with a "nodes" array');
+  }
+  const { edges } = document as FlowDocument;
+  if (edges !== undefined && !Array.isArray(edges)) {
+    throw new Error('"edges" must be an array');
+  }
+  return { ...(document as FlowDocument), edges: edges ?? [] };
+};
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const nodeIO: CliIO = {
+  readFile: path => readFile(path, 'utf8'),
+  writeFile: (path, content) => writeFile(path, content, 'utf8'),
+  readStdin,
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+/**
+ * Runs the command line tool and resolves with the exit code: 0 on success, 1 on invalid input or options
+ */
+export const runCli = async (args: string[], io: CliIO = nodeIO): Promise<number> => {
+  let options: CliOptions | null;
+  try {
+    options = parseCliArguments(args);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${CLI_USAGE}`);
+    return 1;
+  }
+  if (!options) {
+    io.stdout(CLI_USAGE);
+    return 0;
+  }
+
+  try {
+    const text = options.input ? await io.readFile(options.input) : await io.readStdin();
+    const document = parseFlowDocument(text);
+    const { nodes, edges } = await layoutGraph(document.nodes, document.edges, options.layout);
+
+    const output = options.format === 'svg'
+      ? renderSvgPreview(nodes, edges, {
+          nodeWidth: options.layout.nodeDimensions?.width,
+          nodeHeight: options.layout.nodeDimensions?.height,
+          includeHidden: options.layout.includeHidden,
+        })
+      : `${JSON.stringify({ ...document, nodes, edges }, null, 2)}\n`;
+
+    if (options.output) {
+      await io.writeFile(options.output, output);
+    } else {
+      io.stdout(output);
+    }
+    return 0;
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n`);
+    return 1;
+  }
+};
@@ -0,0 +1,158 @@
+import type { Edge, Node, Position, XYPosition } from '@xyflow/react';
+import { getAbsoluteLabelPosition, getAbsoluteWaypoints, getRoutedEdgePath, RoutedEdgeCurve } from '../utils/edgeRouting';
+
+export interface SvgPreviewOptions {
+  nodeWidth?: number; // Size of nodes without an explicit or measured size
+  nodeHeight?: number;
+  margin?: number; // Space around the drawing
+  includeHidden?: boolean;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getLabel = (label: unknown): string | undefined =>
+  typeof label === 'string' || typeof label === 'number' ? String(label) : undefined;
+
+/**
+ * Center of the side a handle sits on
+ */
+const getHandlePoint = (box: Box, position: Position): XYPosition => {
+  switch (position) {
+    case 'top': return { x: box.x + box.width / 2, y: box.y };
+    case 'left': return { x: box.x, y: box.y + box.height / 2 };
+    case 'right': return { x: box.x + box.width, y: box.y + box.height / 2 };
+    case 'bottom':
+    default: return { x: box.x + box.width / 2, y: box.y + box.height };
+  }
+};
+
+/**
+ * Renders laid out nodes and edges as a standalone SVG document, to preview layouts without a browser.
+ * Containers are drawn first with their label in the top-left corner, then the edges along their
+ * routed waypoints, then the leaf nodes on top.
+ */
+export const renderSvgPreview = (nodes: Node[], edges: Edge[], options: SvgPreviewOptions = {}): string => {
+  const { nodeWidth = 172, nodeHeight = 36, margin = 20, includeHidden = false } = options;
+  const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+  const visibleNodes = includeHidden ? nodes : nodes.filter(node => !node.hidden);
+  const parentIds = new Set(visibleNodes.map(node => node.parentId).filter(Boolean));
+
+  const boxes = new Map<string, Box>();
+  const getBox = (node: Node, visited: Set<string> = new Set()): Box => {
+    const cached = boxes.get(node.id);
+    if (cached) {
+      return cached;
+    }
+    visited.add(node.id);
+    const parent = node.parentId ? nodeIdWithNode.get(node.parentId) : undefined;
+    const offset = parent && !visited.has(parent.id) ? getBox(parent, visited) : { x: 0, y: 0 };
+    const box = {
+      x: offset.x + node.position.x,
+      y: offset.y + node.position.y,
+      width: Number(node.style?.width) || node.width || node.measured?.width || nodeWidth,
+      height: Number(node.style?.height) || node.height || node.measured?.height || nodeHeight,
+    };
+    boxes.set(node.id, box);
+    return box;
+  };
+  visibleNodes.forEach(node => getBox(node));
+
+  const visibleIds = new Set(visibleNodes.map(node => node.id));
+  const edgePaths = edges
+    .filter(edge => (includeHidden || !edge.hidden) && visibleIds.has(edge.source) && visibleIds.has(edge.target))
+    .map(edge => {
+      const source = nodeIdWithNode.get(edge.source)!;
+      const target = nodeIdWithNode.get(edge.target)!;
+      const points = [
+        getHandlePoint(boxes.get(source.id)!, source.sourcePosition ?? 'bottom' as Position),
+        ...getAbsoluteWaypoints(edge, nodeIdWithNode),
+        getHandlePoint(boxes.get(target.id)!, target.targetPosition ?? 'top' as Position),
+      ];
+      const [path, labelX, labelY] = getRoutedEdgePath(
+        points.map(point => ({ x: round(point.x), y: round(point.y) })),
+        edge.data?.curve as RoutedEdgeCurve | undefined,
+        typeof edge.data?.cornerRadius === 'number' ? edge.data.cornerRadius : 0
+      );
+      const labelPosition = getAbsoluteLabelPosition(edge, nodeIdWithNode);
+      return { edge, path, points, labelX: labelPosition?.x ?? labelX, labelY: labelPosition?.y ?? labelY };
+    });
+
+  // Bounds of every box and route, so nothing is cut off
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const extend = (x: number, y: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+  boxes.forEach(box => {
+    extend(box.x, box.y);
+    extend(box.x + box.width, box.y + box.height);
+  });
+  edgePaths.forEach(({ points }) => points.forEach(point => extend(point.x, point.y)));
+  if (minX === Infinity) {
+    minX = minY = maxX = maxY = 0;
+  }
+  const viewBox = [minX - margin, minY - margin, maxX - minX + margin * 2, maxY - minY + margin * 2].map(round);
+
+  const renderNode = (node: Node) => {
+    const box = boxes.get(node.id)!;
+    const isContainer = parentIds.has(node.id);
+    const label = getLabel(node.data?.label) ?? node.id;
+    const text = isContainer
+      ? `<text x="${round(box.x + 8)}" y="${round(box.y + 16)}" font-size="12" fill="#555">${escapeXml(label)}</text>`
+      : `<text x="${round(box.x + box.width / 2)}" y="${round(box.y + box.height / 2)}" font-size="12" text-anchor="middle" dominant-baseline="middle" fill="#222">${escapeXml(label)}</text>`;
+    return `  <g data-id="${escapeXml(node.id)}">`
+      + `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="${isContainer ? 6 : 3}" `
+      + `fill="${isContainer ? '#f4f6fa' : '#ffffff'}" stroke="${isContainer ? '#9aa5b8' : '#1a192b'}" stroke-width="1"/>`
+      + `${text}</g>`;
+  };
+
+  // Outer containers before the ones nested in them
+  const getDepth = (node: Node) => {
+    let depth = 0;
+    let current = node.parentId ? nodeIdWithNode.get(node.parentId) : undefined;
+    while (current && depth < nodes.length) {
+      depth++;
+      current = current.parentId ? nodeIdWithNode.get(current.parentId) : undefined;
+    }
+    return depth;
+  };
+  const containers = visibleNodes
+    .filter(node => parentIds.has(node.id))
+    .sort((a, b) => getDepth(a) - getDepth(b));
+  const leaves = visibleNodes.filter(node => !parentIds.has(node.id));
+
+  const renderedEdges = edgePaths.map(({ edge, path, labelX, labelY }) => {
+    const label = getLabel(edge.label);
+    return `  <g data-id="${escapeXml(edge.id)}"><path d="${path}" fill="none" stroke="#b1b1b7" stroke-width="1.5" marker-end="url(#arrow)"/>`
+      + (label ? `<text x="${round(labelX)}" y="${round(labelY)}" font-size="11" text-anchor="middle" fill="#555">${escapeXml(label)}</text>` : '')
+      + '</g>';
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${viewBox[2]}" height="${viewBox[3]}" viewBox="${viewBox.join(' ')}" font-family="sans-serif">`,
+    '  <defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0L10,5L0,10z" fill="#b1b1b7"/></marker></defs>',
+    ...containers.map(renderNode),
+    ...renderedEdges,
+    ...leaves.map(renderNode),
+    '</svg>',
+    '',
+  ].join('\n');
+};
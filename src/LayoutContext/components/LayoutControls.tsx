@@ -7,12 +7,14 @@ import DirectionControls from './controls/DirectionControls';
 import SpacingControls from './controls/SpacingControls';
 import AutoLayoutToggle from './controls/AutoLayoutToggle';
 import ApplyLayoutButton from './controls/ApplyLayoutButton';
+import HistoryControls from './controls/HistoryControls';
 
 interface LayoutControlsProps {
     showDirectionControls?: boolean;
     showSpacingControls?: boolean;
     showAutoLayoutToggle?: boolean;
     showApplyLayoutButton?: boolean; // New prop for the apply layout button
+    showHistoryControls?: boolean; // Undo and redo buttons for the layout history
     standalone?: boolean; // Whether to render as standalone controls or integrable buttons
     position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'; // For standalone mode only
 }
@@ -26,6 +28,7 @@ const LayoutControls: React.FC<LayoutControlsProps> = ({
     showSpacingControls = true,
     showAutoLayoutToggle = true,
     showApplyLayoutButton = true, // Enable by default
+    showHistoryControls = false,
     standalone = false,
     position = 'top-right'
 }) => {
@@ -46,6 +49,12 @@ const LayoutControls: React.FC<LayoutControlsProps> = ({
                     />
                 )}
 
+                {showHistoryControls && (
+                    <HistoryControls
+                        compact={true}
+                    />
+                )}
+
                 {showDirectionControls && (
                     <DirectionControls
                         compact={true}
@@ -76,6 +85,12 @@ const LayoutControls: React.FC<LayoutControlsProps> = ({
                 />
             )}
 
+            {showHistoryControls && (
+                <HistoryControls
+                    compact={true}
+                />
+            )}
+
             {showDirectionControls && (
                 <DirectionControls
                     compact={true}
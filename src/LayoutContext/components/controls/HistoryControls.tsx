@@ -0,0 +1,59 @@
+import React from "react";
+import { ControlButton } from "@xyflow/react";
+import { useLayoutContext } from "../../context/LayoutContext";
+
+interface HistoryControlsProps {
+  compact?: boolean; // Option for icon-only mode
+}
+
+const HistoryControls: React.FC<HistoryControlsProps> = ({
+  compact = false
+}) => {
+  const {
+    layoutInProgress,
+    canUndo,
+    canRedo,
+    undoLayout,
+    redoLayout,
+  } = useLayoutContext();
+
+  const undoDisabled = layoutInProgress || !canUndo;
+  const redoDisabled = layoutInProgress || !canRedo;
+
+  return (
+    <>
+      <ControlButton
+        onClick={() => undoLayout()}
+        title="Undo layout"
+        disabled={undoDisabled}
+        style={{ color: undoDisabled ? "#999" : "#000" }}
+      >
+        <svg viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" strokeWidth="2" fill="none">
+          {/* Arrow curving back to the left */}
+          <path d="M9 14L4 9l5-5" />
+          <path d="M4 9h10a6 6 0 0 1 0 12h-3" />
+        </svg>
+        {!compact && (
+          <span style={{ marginLeft: '4px' }}>Undo</span>
+        )}
+      </ControlButton>
+      <ControlButton
+        onClick={() => redoLayout()}
+        title="Redo layout"
+        disabled={redoDisabled}
+        style={{ color: redoDisabled ? "#999" : "#000" }}
+      >
+        <svg viewBox="0 0 24 24" width="16" height="16" stroke="currentColor" strokeWidth="2" fill="none">
+          {/* Arrow curving forward to the right */}
+          <path d="M15 14l5-5-5-5" />
+          <path d="M20 9H10a6 6 0 0 0 0 12h3" />
+        </svg>
+        {!compact && (
+          <span style={{ marginLeft: '4px' }}>Redo</span>
+        )}
+      </ControlButton>
+    </>
+  );
+};
+
+export default HistoryControls;
@@ -0,0 +1,72 @@
+import React from "react";
+import { BaseEdge, Edge, EdgeProps, useInternalNode, XYPosition } from "@xyflow/react";
+import { getRoutedEdgePath, RoutedEdgeCurve } from "../../utils/edgeRouting";
+
+export type RoutedEdgeData = {
+  waypoints?: XYPosition[]; // Written by the layout, relative to waypointsParentId
+  waypointsParentId?: string;
+  labelPosition?: XYPosition; // Label center the layout reserved space for, relative to waypointsParentId
+  curve?: RoutedEdgeCurve; // 'polyline' (default) or 'smooth'
+  cornerRadius?: number; // Rounds the corners of a polyline, set by the orthogonal router
+};
+
+export type RoutedEdgeType = Edge<RoutedEdgeData, 'routed'>;
+
+/**
+ * Edge that follows the route the layout wrote into its data.
+ * The ends are drawn from the live handle positions, so the edge stays attached while nodes are dragged,
+ * and the waypoints move along with the container they belong to.
+ * Without waypoints it is a straight line.
+ * The label goes where the layout reserved space for it, or halfway along the route.
+ */
+const RoutedEdge: React.FC<EdgeProps<RoutedEdgeType>> = ({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  data,
+  style,
+  markerStart,
+  markerEnd,
+  label,
+  labelStyle,
+  labelShowBg,
+  labelBgStyle,
+  labelBgPadding,
+  labelBgBorderRadius,
+  interactionWidth,
+}) => {
+  const parent = useInternalNode(data?.waypointsParentId ?? '');
+  const offset = data?.waypointsParentId && parent ? parent.internals.positionAbsolute : { x: 0, y: 0 };
+
+  const points = [
+    { x: sourceX, y: sourceY },
+    ...(data?.waypoints || []).map(point => ({ x: point.x + offset.x, y: point.y + offset.y })),
+    { x: targetX, y: targetY },
+  ];
+  const [path, midpointX, midpointY] = getRoutedEdgePath(points, data?.curve, data?.cornerRadius);
+  const labelX = data?.labelPosition ? data.labelPosition.x + offset.x : midpointX;
+  const labelY = data?.labelPosition ? data.labelPosition.y + offset.y : midpointY;
+
+  return (
+    <BaseEdge
+      id={id}
+      path={path}
+      style={style}
+      markerStart={markerStart}
+      markerEnd={markerEnd}
+      label={label}
+      labelX={labelX}
+      labelY={labelY}
+      labelStyle={labelStyle}
+      labelShowBg={labelShowBg}
+      labelBgStyle={labelBgStyle}
+      labelBgPadding={labelBgPadding}
+      labelBgBorderRadius={labelBgBorderRadius}
+      interactionWidth={interactionWidth}
+    />
+  );
+};
+
+export default RoutedEdge;
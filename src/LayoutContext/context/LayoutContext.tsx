@@ -1,17 +1,56 @@
 import { createContext, useContext } from 'react';
 import { Edge, Node } from '@xyflow/react';
+import type { Direction } from '../core/HierarchicalLayoutOrganizer';
+import type { EdgeRoute } from '../utils/edgeRouting';
 
 // Layout types we support
 export type LayoutDirection = "DOWN" | "RIGHT" | "LEFT" | "UP";
-export type LayoutAlgorithm = "layered" | "mrtree";
+// Any other name selects a layout engine registered under that name
+export type LayoutAlgorithm = "layered" | "mrtree" | (string & {});
+
+// Alignment of nodes within their rank (Dagre naming: Up/Down, Left/Right)
+export type LayoutAlignment = 'UL' | 'UR' | 'DL' | 'DR';
+
+// Where layout calculations run: on the main thread or in a Web Worker
+export type LayoutExecution = 'main' | 'worker';
+
+// Options handed to a layout engine when it lays out the children of a single container
+export interface LayoutEngineOptions {
+  direction: Direction;
+  margin: number;
+  nodeSpacing: number;
+  layerSpacing: number;
+  nodeWidth: number;
+  nodeHeight: number;
+  includeHidden: boolean;
+  stable?: boolean; // Keep the previous arrangement by using current positions as hints; engines may ignore it
+  alignment?: LayoutAlignment; // Set by containers overriding it through data.layoutAlignment; engines may ignore it
+}
+
+// Input for engines that lay out a whole nested hierarchy in one pass
+export interface HierarchyLayoutInput {
+  rootId: string; // Container whose descendants are laid out (noParentKey for the whole graph)
+  nodeParentIdMapWithChildIdSet: Map<string, Set<string>>;
+  nodeIdWithNode: Map<string, Node>;
+  edges: Edge[];
+  noParentKey: string;
+  parentResizingOptions?: ParentResizingOptions; // Container padding, header band, minimum and collapsed sizes
+}
 
 // Define the layout engine interface
 export interface LayoutEngine {
   calculate: (
     nodes: Node[], 
     edges: Edge[], 
-    options: Record<string, any>
+    options: LayoutEngineOptions
   ) => Promise<{nodes: Node[], edges: Edge[], width?: number, height?: number}>;
+  // Optional: when present, full layouts hand the whole hierarchy to the engine instead of
+  // calling calculate once per container. Returns every repositioned or resized node and
+  // optionally the routes of the edges it laid out.
+  calculateHierarchy?: (
+    input: HierarchyLayoutInput,
+    options: LayoutEngineOptions
+  ) => Promise<{nodes: Node[], edgeRoutes?: EdgeRoute[]}>;
 }
 
 // Parent resizing options
@@ -24,6 +63,7 @@ export interface ParentResizingOptions {
   respectHeaderHeight: boolean;
   minWidth?: number;
   minHeight?: number;
+  collapsedSize?: { width: number; height: number }; // Size of containers collapsed to their header
 }
 
 // Define the context state
@@ -33,6 +73,7 @@ export interface LayoutContextState {
   algorithm: LayoutAlgorithm;
   autoLayout: boolean;
   layoutInProgress: boolean;
+  layoutError: Error | null; // Error of the last failed layout, cleared when a layout completes
   padding: number;
   nodeSpacing: number;
   layerSpacing: number;
@@ -74,6 +115,17 @@ export interface LayoutContextState {
   applyLayout: (nodes?: Node[], edges?: Edge[]) => Promise<{nodes: Node[], edges: Edge[]}> | undefined;
   clearLayoutCache: () => void;
   
+  // Layout history: every committed layout and the manual moves between layouts
+  undoLayout: () => Promise<void>;
+  redoLayout: () => Promise<void>;
+  canUndo: boolean;
+  canRedo: boolean;
+  
+  // Collapsible containers: a collapsed container is laid out as a leaf of its collapsed size
+  collapseContainer: (containerId: string) => Promise<void>;
+  expandContainer: (containerId: string) => Promise<void>;
+  toggleContainer: (containerId: string) => Promise<void>;
+  
   // Layout engine registration
   registerLayoutEngine: (name: string, engine: LayoutEngine) => void;
 }
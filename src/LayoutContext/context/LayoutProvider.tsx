@@ -1,10 +1,11 @@
-import { ReactNode, useCallback, useEffect } from 'react';
+import { ReactNode, useCallback, useEffect, useMemo } from 'react';
 import { Edge, Node, useOnSelectionChange, useNodes, useEdges } from '@xyflow/react';
 import LayoutContext, {
     LayoutAlgorithm,
     LayoutContextState,
     LayoutDirection,
     LayoutEngine,
+    LayoutExecution,
     ParentResizingOptions,
     useLayoutContext
 } from './LayoutContext';
@@ -12,6 +13,13 @@ import { useLayoutState } from '../hooks/useLayoutState';
 import { useNodeMaps } from '../hooks/useNodeMaps';
 import { useLayoutOperations } from '../hooks/useLayoutOperations';
 import { useLayoutCalculation } from '../hooks/useLayoutCalculation';
+import { useLayoutHistory } from '../hooks/useLayoutHistory';
+import { useContainerCollapse } from '../hooks/useContainerCollapse';
+import { DEFAULT_LAYOUT_ANIMATION_OPTIONS, LayoutAnimationOptions } from '../utils/layoutAnimation';
+import { DEFAULT_ORTHOGONAL_ROUTING_OPTIONS, OrthogonalRoutingOptions } from '../core/OrthogonalRouter';
+import { DEFAULT_LAYOUT_HISTORY_LIMIT } from '../utils/layoutHistory';
+import type { LayoutDiff } from '../utils/layoutDiff';
+import type { LayoutViewportPolicy } from '../utils/layoutViewport';
 
 interface LayoutProviderProps {
     children: ReactNode;
@@ -36,6 +44,19 @@ interface LayoutProviderProps {
     nodeIdWithNode?: Map<string, Node>;
     noParentKey?: string;
     disableAutoLayoutEffect?: boolean;
+    layoutExecution?: LayoutExecution;
+    createLayoutWorker?: () => Worker;
+    layoutAnimation?: Partial<LayoutAnimationOptions>;
+    incrementalLayout?: boolean;
+    stableLayout?: boolean;
+    autoGridLayout?: boolean;
+    orthogonalRouting?: Partial<OrthogonalRoutingOptions>;
+    layoutHistoryLimit?: number;
+    viewportPolicy?: LayoutViewportPolicy;
+    onLayoutStart?: () => void;
+    onLayoutComplete?: (result: { nodes: Node[]; edges: Edge[] }, diff: LayoutDiff) => void;
+    onLayoutError?: (error: Error) => void;
+    onLayoutCancel?: () => void; // Called instead of onLayoutComplete or onLayoutError when a newer layout supersedes a started one
 }
 
 export function LayoutProvider({
@@ -55,6 +76,19 @@ export function LayoutProvider({
     nodeIdWithNode: externalNodeIdWithNode,
     noParentKey = 'no-parent',
     disableAutoLayoutEffect = false,
+    layoutExecution = 'main',
+    createLayoutWorker,
+    layoutAnimation: layoutAnimationOptions,
+    incrementalLayout = false,
+    stableLayout = false,
+    autoGridLayout = false,
+    orthogonalRouting: orthogonalRoutingOptions,
+    layoutHistoryLimit = DEFAULT_LAYOUT_HISTORY_LIMIT,
+    viewportPolicy = 'none',
+    onLayoutStart,
+    onLayoutComplete,
+    onLayoutError,
+    onLayoutCancel,
 }: LayoutProviderProps) {
     const nodes = useNodes();
     const edges = useEdges();
@@ -103,8 +137,23 @@ export function LayoutProvider({
         onChange,
     });
 
+    // Passing a routing options object enables orthogonal routing unless it sets enabled: false
+    const routingRequested = Boolean(orthogonalRoutingOptions);
+    const {
+        enabled: routingEnabled,
+        cornerRadius,
+        edgeSeparation,
+        nodeClearance,
+    } = orthogonalRoutingOptions || {};
+    const orthogonalRouting = useMemo<OrthogonalRoutingOptions>(() => ({
+        enabled: routingEnabled ?? routingRequested,
+        cornerRadius: cornerRadius ?? DEFAULT_ORTHOGONAL_ROUTING_OPTIONS.cornerRadius,
+        edgeSeparation: edgeSeparation ?? DEFAULT_ORTHOGONAL_ROUTING_OPTIONS.edgeSeparation,
+        nodeClearance: nodeClearance ?? DEFAULT_ORTHOGONAL_ROUTING_OPTIONS.nodeClearance,
+    }), [routingRequested, routingEnabled, cornerRadius, edgeSeparation, nodeClearance]);
+
     // Use layout calculation hook
-    const { calculateLayout } = useLayoutCalculation(
+    const { calculateLayout, clearLayoutCache } = useLayoutCalculation(
         layoutEngines,
         direction,
         algorithm,
@@ -116,20 +165,60 @@ export function LayoutProvider({
         nodeWidth,
         nodeHeight,
         layoutHidden,
-        noParentKey
+        noParentKey,
+        layoutExecution,
+        createLayoutWorker,
+        incrementalLayout,
+        stableLayout,
+        autoGridLayout,
+        orthogonalRouting
     );
 
-    const { applyLayout } = useLayoutOperations({
+    // Passing an animation options object enables animation unless it sets enabled: false
+    const animationRequested = Boolean(layoutAnimationOptions);
+    const {
+        enabled: animationEnabled,
+        duration: animationDuration,
+        easing: animationEasing,
+        interruptible: animationInterruptible,
+    } = layoutAnimationOptions || {};
+    const layoutAnimation = useMemo<LayoutAnimationOptions>(() => ({
+        enabled: animationEnabled ?? animationRequested,
+        duration: animationDuration ?? DEFAULT_LAYOUT_ANIMATION_OPTIONS.duration,
+        easing: animationEasing ?? DEFAULT_LAYOUT_ANIMATION_OPTIONS.easing,
+        interruptible: animationInterruptible ?? DEFAULT_LAYOUT_ANIMATION_OPTIONS.interruptible,
+    }), [animationRequested, animationEnabled, animationDuration, animationEasing, animationInterruptible]);
+
+    const layoutHistory = useLayoutHistory({
+        nodes,
+        limit: layoutHistoryLimit
+    });
+
+    const { applyLayout, undoLayout, redoLayout, layoutError } = useLayoutOperations({
         nodes,
         edges,
         selectedNodes,
-        layoutHidden,
         calculateLayout,
         updateNodes,
         updateEdges,
         setLayoutInProgress,
         setNodeSpacing,
-        setLayerSpacing
+        setLayerSpacing,
+        layoutAnimation,
+        layoutHistory,
+        viewportPolicy,
+        onLayoutStart,
+        onLayoutComplete,
+        onLayoutError,
+        onLayoutCancel
+    });
+
+    const { collapseContainer, expandContainer, toggleContainer } = useContainerCollapse({
+        nodes,
+        edges,
+        nodeIdWithNode,
+        parentResizingOptions,
+        applyLayout
     });
 
     // Register a new layout engine
@@ -163,6 +252,7 @@ export function LayoutProvider({
         algorithm,
         autoLayout,
         layoutInProgress,
+        layoutError,
         padding,
         nodeSpacing,
         layerSpacing,
@@ -190,7 +280,14 @@ export function LayoutProvider({
         setParentResizingOptions,
         setLayoutEngineOptions,
         applyLayout,
-        clearLayoutCache: () => { },
+        clearLayoutCache,
+        undoLayout,
+        redoLayout,
+        canUndo: layoutHistory.canUndo,
+        canRedo: layoutHistory.canRedo,
+        collapseContainer,
+        expandContainer,
+        toggleContainer,
         registerLayoutEngine,
     };
 
@@ -1,11 +1,43 @@
 import { Edge, Node } from "@xyflow/react";
 import dagre from '@dagrejs/dagre';
 import { Direction } from "./HierarchicalLayoutOrganizer";
+import type { LayoutAlignment } from "../context/LayoutContext";
 import { convertDirectionToLayout, getSourcePosition, getTargetPosition } from "../utils/layoutProviderUtils";
+import { alignToPreviousPositions } from "../utils/layoutStability";
 
 const DEFAULT_NODE_WIDTH = 172;
 const DEFAULT_NODE_HEIGHT = 36;
 
+export interface EdgeLabelSize {
+  width: number;
+  height: number;
+}
+
+export interface DagreSettings {
+  measureEdgeLabel?: (edge: Edge) => EdgeLabelSize | undefined; // Label size of edges without data.labelSize, e.g. measured from the DOM
+  defaultLabelSize?: EdgeLabelSize; // Used for edges with a `label` that is neither sized nor measured (default 100x24)
+  labelPosition?: 'l' | 'c' | 'r'; // Where the label sits relative to the edge (default 'c', on the edge)
+  labelOffset?: number; // Distance between the edge and a label placed left or right of it (default 10)
+}
+
+const DEFAULT_LABEL_SIZE: EdgeLabelSize = { width: 100, height: 24 };
+
+/**
+ * Space to reserve for an edge's label: `data.labelSize`, then the measuring callback,
+ * then the default size for edges with a `label`. Undefined for edges without a label.
+ */
+export const getEdgeLabelSize = (edge: Edge, settings: DagreSettings = {}): EdgeLabelSize | undefined => {
+  const labelSize = edge.data?.labelSize as EdgeLabelSize | undefined;
+  if (labelSize && labelSize.width > 0 && labelSize.height > 0) {
+    return labelSize;
+  }
+  const measured = settings.measureEdgeLabel?.(edge);
+  if (measured) {
+    return measured;
+  }
+  return edge.label ? settings.defaultLabelSize ?? DEFAULT_LABEL_SIZE : undefined;
+};
+
 export interface LayoutResult {
   nodes: Node[];
   edges: Edge[];
@@ -13,6 +45,112 @@ export interface LayoutResult {
   height: number;
 }
 
+/**
+ * Converts a node's layouted center point into the React Flow position
+ * matching its `data.positionType` anchor (top-left by default)
+ */
+export const resolveNodePosition = (
+  node: Node,
+  cx: number,
+  cy: number,
+  w: number,
+  h: number
+): { x: number; y: number } => {
+  switch (node.data?.positionType) {
+    case 'center':
+      return { x: cx, y: cy };
+    case 'topRight':
+      return { x: cx + w / 2, y: cy - h / 2 };
+    case 'bottomLeft':
+      return { x: cx - w / 2, y: cy + h / 2 };
+    case 'bottomRight':
+      return { x: cx + w / 2, y: cy + h / 2 };
+    case 'topLeft':
+    default:
+      return { x: cx - w / 2, y: cy - h / 2 };
+  }
+};
+
+/**
+ * Inverse of resolveNodePosition: the center point of a node from its React Flow position
+ */
+export const getPositionCenter = (node: Node, w: number, h: number): { x: number; y: number } => {
+  const { x, y } = node.position;
+  switch (node.data?.positionType) {
+    case 'center':
+      return { x, y };
+    case 'topRight':
+      return { x: x - w / 2, y: y + h / 2 };
+    case 'bottomLeft':
+      return { x: x + w / 2, y: y - h / 2 };
+    case 'bottomRight':
+      return { x: x - w / 2, y: y - h / 2 };
+    case 'topLeft':
+    default:
+      return { x: x + w / 2, y: y + h / 2 };
+  }
+};
+
+/**
+ * Creates a Dagre ordering step that keeps nodes within each rank in the order of their
+ * previous coordinate along the rank (x for TB/BT, y for LR/RL).
+ * Dagre's own crossing minimization still runs first: nodes without a hint keep their place
+ * next to the node they were ordered after, and it breaks ties between equal hints.
+ * Edge dummy nodes take the average hint of the edge's endpoints.
+ */
+const createStableOrder = (hints: Map<string, number>) =>
+  (graph: dagre.graphlib.Graph, defaultOrder: (graph: dagre.graphlib.Graph, opts: dagre.configUnion) => void) => {
+    defaultOrder(graph, {});
+
+    // Internal layout graph node, including the rank/order bookkeeping Dagre adds
+    const layoutNode = (nodeId: string) =>
+      graph.node(nodeId) as unknown as { rank?: number; order: number; edgeObj?: dagre.Edge };
+
+    const getHint = (nodeId: string): number | undefined => {
+      if (hints.has(nodeId)) {
+        return hints.get(nodeId);
+      }
+      const { edgeObj } = layoutNode(nodeId);
+      const endpointHints = edgeObj
+        ? [hints.get(edgeObj.v), hints.get(edgeObj.w)].filter((hint): hint is number => hint !== undefined)
+        : [];
+      return endpointHints.length
+        ? endpointHints.reduce((sum, hint) => sum + hint, 0) / endpointHints.length
+        : undefined;
+    };
+
+    const layers = new Map<number, string[]>();
+    graph.nodes().forEach(nodeId => {
+      const { rank } = layoutNode(nodeId);
+      if (rank === undefined) {
+        return;
+      }
+      if (!layers.has(rank)) {
+        layers.set(rank, []);
+      }
+      layers.get(rank)!.push(nodeId);
+    });
+
+    layers.forEach(layer => {
+      layer.sort((a, b) => layoutNode(a).order - layoutNode(b).order);
+
+      let previousHint = Number.NEGATIVE_INFINITY;
+      const keyed = layer.map((nodeId, index) => {
+        const hint = getHint(nodeId);
+        if (hint !== undefined) {
+          previousHint = hint;
+        }
+        return { nodeId, key: hint ?? previousHint, index };
+      });
+
+      keyed
+        .sort((a, b) => a.key - b.key || a.index - b.index)
+        .forEach(({ nodeId }, order) => {
+          layoutNode(nodeId).order = order;
+        });
+    });
+  };
+
 export const calculateLayoutWithDagre = async (
   nodes: Node[],
   edges: Edge[],
@@ -22,9 +160,13 @@ export const calculateLayoutWithDagre = async (
   layerSpacing: number = 50,
   defaultNodeWidth: number = DEFAULT_NODE_WIDTH,
   defaultNodeHeight: number = DEFAULT_NODE_HEIGHT,
-  includeHidden: boolean = false
+  includeHidden: boolean = false,
+  stable: boolean = false, // Keep the previous arrangement: order ranks by current positions and stay close to them
+  alignment?: LayoutAlignment,
+  settings: DagreSettings = {}
 ): Promise<LayoutResult> => {
-  const dagreGraph = new dagre.graphlib.Graph().setDefaultEdgeLabel(() => ({}));
+  // A multigraph keeps parallel edges apart, each with its own route and label
+  const dagreGraph = new dagre.graphlib.Graph({ multigraph: true }).setDefaultEdgeLabel(() => ({}));
 
   dagreGraph.setGraph({
     rankdir: direction,
@@ -35,6 +177,7 @@ export const calculateLayoutWithDagre = async (
     edgesep: Math.max(20, nodeSpacing / 4),
     //When we have siblings, we want their top edges to be aligned
     ranker: 'tight-tree',
+    ...(alignment ? { align: alignment } : {}),
   });
 
   // filter hidden
@@ -85,11 +228,34 @@ export const calculateLayoutWithDagre = async (
         edgeOptions = { constraint: true, minlen: 2 }; // Or minlen: 1
     }
   
-    dagreGraph.setEdge(edge.source, edge.target, edgeOptions);
+    // Labels become part of the layout, so Dagre keeps nodes and other edges clear of them
+    const labelSize = getEdgeLabelSize(edge, settings);
+    if (labelSize) {
+      edgeOptions = {
+        ...edgeOptions,
+        width: labelSize.width,
+        height: labelSize.height,
+        labelpos: settings.labelPosition ?? 'c',
+        labeloffset: settings.labelOffset ?? 10,
+      };
+    }
+
+    dagreGraph.setEdge(edge.source, edge.target, edgeOptions, edge.id);
   });
   
+  // collect ordering hints from the current positions along the rank axis
+  const orderHints = new Map<string, number>();
+  if (stable) {
+    const alongX = direction === 'TB' || direction === 'BT';
+    nodesToLayout.forEach(node => {
+      const { width, height } = dagreGraph.node(node.id);
+      const center = getPositionCenter(node, width, height);
+      orderHints.set(node.id, alongX ? center.x : center.y);
+    });
+  }
+
   // run layout
-  dagre.layout(dagreGraph);
+  dagre.layout(dagreGraph, stable ? { customOrder: createStableOrder(orderHints) } : undefined);
 
   const graphWidth = dagreGraph.graph().width || 0;
   const graphHeight = dagreGraph.graph().height || 0;
@@ -107,26 +273,42 @@ export const calculateLayoutWithDagre = async (
       targetPosition,
       selected: false,
     };
-    const cx = dgNode.x, cy = dgNode.y;
-    switch (node.data?.positionType) {
-      case 'center':
-        base.position = { x: cx, y: cy }; break;
-      case 'topRight':
-        base.position = { x: cx + w / 2, y: cy - h / 2 }; break;
-      case 'bottomLeft':
-        base.position = { x: cx - w / 2, y: cy + h / 2 }; break;
-      case 'bottomRight':
-        base.position = { x: cx + w / 2, y: cy + h / 2 }; break;
-      case 'topLeft':
-      default:
-        base.position = { x: cx - w / 2, y: cy - h / 2 };
-    }
+    base.position = resolveNodePosition(node, dgNode.x, dgNode.y, w, h);
     return base as Node;
   });
 
+  // Stable layouts shift the whole result, so the edge routes have to follow
+  const layoutedPosition = { ...newNodes[0].position };
+  if (stable) {
+    alignToPreviousPositions(nodesToLayout, newNodes);
+  }
+  const offsetX = newNodes[0].position.x - layoutedPosition.x;
+  const offsetY = newNodes[0].position.y - layoutedPosition.y;
+
+  // write the routed edge points (same coordinate space as the node positions) into edge.data.points
+  // and the center of a reserved label into edge.data.labelPoint
+  const newEdges = edges.map(edge => {
+    const dgEdge = dagreGraph.hasEdge(edge.source, edge.target, edge.id)
+      ? dagreGraph.edge({ v: edge.source, w: edge.target, name: edge.id })
+      : undefined;
+    const points = dgEdge?.points;
+    if (!points || points.length === 0) {
+      return edge;
+    }
+    const hasLabel = Boolean(dgEdge.width && dgEdge.height) && typeof dgEdge.x === 'number';
+    return {
+      ...edge,
+      data: {
+        ...edge.data,
+        points: points.map(point => ({ x: point.x + offsetX, y: point.y + offsetY })),
+        ...(hasLabel ? { labelPoint: { x: dgEdge.x + offsetX, y: dgEdge.y + offsetY } } : {}),
+      },
+    };
+  });
+
   return {
     nodes: newNodes,
-    edges,
+    edges: newEdges,
     width: graphWidth,
     height: graphHeight,
   };
@@ -0,0 +1,315 @@
+import { Edge, Node } from "@xyflow/react";
+import ELK from 'elkjs/lib/elk.bundled.js';
+import type { ElkExtendedEdge, ElkNode, LayoutOptions } from 'elkjs/lib/elk-api';
+import { Direction, fixParentNodeDimensions } from "./HierarchicalLayoutOrganizer";
+import { LayoutResult, resolveNodePosition } from "./Dagre";
+import type { HierarchyLayoutInput, LayoutEngineOptions } from "../context/LayoutContext";
+import { convertDirectionToLayout, getSourcePosition, getTargetPosition } from "../utils/layoutProviderUtils";
+import { findLCAWithChildren } from "../utils/treeUtils";
+import { getCollapsedEndpoint, getCollapsedSize, isCollapsedContainer } from "../utils/containerCollapse";
+import type { EdgeRoute } from "../utils/edgeRouting";
+
+export type ElkHierarchyHandling = 'SEPARATE_CHILDREN' | 'INCLUDE_CHILDREN';
+
+export interface ElkSettings {
+  algorithm?: string; // ELK algorithm id, e.g. 'layered' or 'mrtree'
+  hierarchyHandling?: ElkHierarchyHandling;
+  layoutOptions?: LayoutOptions; // Raw ELK options merged over the generated ones
+}
+
+let elkInstance: InstanceType<typeof ELK> | null = null;
+
+// ELK spins up its (fake) worker on construction, so share a single lazily created instance
+const getElk = () => {
+  if (!elkInstance) {
+    elkInstance = new ELK();
+  }
+  return elkInstance;
+};
+
+// Space between a container's border and its children on each side
+type ElkPadding = { top: number; right: number; bottom: number; left: number };
+
+const uniformPadding = (margin: number): ElkPadding => ({ top: margin, right: margin, bottom: margin, left: margin });
+
+const ELK_DIRECTIONS: Record<Direction, string> = {
+  TB: 'DOWN',
+  LR: 'RIGHT',
+  BT: 'UP',
+  RL: 'LEFT',
+};
+
+const createLayoutOptions = (
+  direction: Direction,
+  padding: ElkPadding,
+  nodeSpacing: number,
+  layerSpacing: number,
+  settings: ElkSettings
+): LayoutOptions => ({
+  'elk.algorithm': settings.algorithm || 'layered',
+  'elk.direction': ELK_DIRECTIONS[direction] || 'DOWN',
+  'elk.padding': `[top=${padding.top},left=${padding.left},bottom=${padding.bottom},right=${padding.right}]`,
+  'elk.spacing.nodeNode': String(nodeSpacing),
+  'elk.layered.spacing.nodeNodeBetweenLayers': String(layerSpacing),
+  'elk.hierarchyHandling': settings.hierarchyHandling || 'SEPARATE_CHILDREN',
+  ...settings.layoutOptions,
+});
+
+const toElkEdge = (edge: Edge): ElkExtendedEdge => ({
+  id: edge.id,
+  sources: [edge.source],
+  targets: [edge.target],
+});
+
+const toLayoutedNode = (node: Node, elkNode: ElkNode, direction: Direction): Node => {
+  const width = elkNode.width || 0;
+  const height = elkNode.height || 0;
+  const layoutDirection = convertDirectionToLayout(direction);
+
+  return {
+    ...node,
+    sourcePosition: getSourcePosition(layoutDirection),
+    targetPosition: getTargetPosition(layoutDirection),
+    selected: false,
+    position: resolveNodePosition(
+      node,
+      (elkNode.x || 0) + width / 2,
+      (elkNode.y || 0) + height / 2,
+      width,
+      height
+    ),
+  };
+};
+
+/**
+ * Writes the route ELK computed for an edge into edge.data.points
+ */
+const withElkEdgePoints = (edge: Edge, elkEdge?: ElkExtendedEdge): Edge => {
+  const section = elkEdge?.sections?.[0];
+  if (!section) {
+    return edge;
+  }
+  return {
+    ...edge,
+    data: {
+      ...edge.data,
+      points: [section.startPoint, ...(section.bendPoints || []), section.endPoint].map(({ x, y }) => ({ x, y })),
+    },
+  };
+};
+
+/**
+ * Lays out the children of a single container with ELK, mirroring calculateLayoutWithDagre.
+ * Edges whose endpoints are not part of the given nodes are ignored.
+ */
+export const calculateLayoutWithElk = async (
+  nodes: Node[],
+  edges: Edge[],
+  options: LayoutEngineOptions,
+  settings: ElkSettings = {}
+): Promise<LayoutResult> => {
+  const { direction, margin, nodeSpacing, layerSpacing, nodeWidth, nodeHeight, includeHidden } = options;
+
+  const nodesToLayout = includeHidden
+    ? nodes
+    : nodes.filter(n => !n.hidden);
+  if (nodesToLayout.length === 0) {
+    return { nodes: [], edges: [], width: 0, height: 0 };
+  }
+
+  const nodeIds = new Set(nodesToLayout.map(node => node.id));
+  const graph: ElkNode = {
+    id: '__elk_root__',
+    layoutOptions: createLayoutOptions(direction, uniformPadding(margin), nodeSpacing, layerSpacing, {
+      ...settings,
+      hierarchyHandling: 'SEPARATE_CHILDREN',
+    }),
+    children: nodesToLayout.map(node => ({
+      id: node.id,
+      width: Number(node.style?.width) || nodeWidth,
+      height: Number(node.style?.height) || nodeHeight,
+    })),
+    edges: edges
+      .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target) && edge.source !== edge.target)
+      .map(toElkEdge),
+  };
+
+  const layouted = await getElk().layout(graph);
+  const elkNodeById = new Map((layouted.children || []).map(child => [child.id, child]));
+  const elkEdgeById = new Map((layouted.edges || []).map(edge => [edge.id, edge]));
+
+  return {
+    nodes: nodesToLayout.map(node => toLayoutedNode(node, elkNodeById.get(node.id)!, direction)),
+    edges: edges.map(edge => withElkEdgePoints(edge, elkEdgeById.get(edge.id))),
+    width: layouted.width || 0,
+    height: layouted.height || 0,
+  };
+};
+
+/**
+ * Lays out a whole nested hierarchy with ELK in a single pass (hierarchyHandling INCLUDE_CHILDREN).
+ * Positions come back relative to each node's parent, matching React Flow's parentId convention,
+ * and containers are resized with fixParentNodeDimensions. The node map is updated in place.
+ * With parentResizingOptions, containers get its padding, header band and minimum size, and collapsed
+ * containers are laid out as leaves of the collapsed size. The bend points ELK routed are returned as
+ * edge routes relative to the container holding each edge.
+ */
+export const calculateHierarchyWithElk = async (
+  input: HierarchyLayoutInput,
+  options: LayoutEngineOptions,
+  settings: ElkSettings = {}
+): Promise<{ nodes: Node[]; edgeRoutes: EdgeRoute[] }> => {
+  const { rootId, nodeParentIdMapWithChildIdSet, nodeIdWithNode, edges, noParentKey, parentResizingOptions } = input;
+  const { direction, margin, nodeSpacing, layerSpacing, nodeWidth, nodeHeight, includeHidden } = options;
+  const hierarchySettings: ElkSettings = { ...settings, hierarchyHandling: 'INCLUDE_CHILDREN' };
+
+  const elkNodeById = new Map<string, ElkNode>();
+  const directionById = new Map<string, Direction>();
+
+  const getContainerPadding = (node?: Node): ElkPadding => {
+    if (!parentResizingOptions) {
+      return uniformPadding(margin);
+    }
+    const { horizontal, vertical } = parentResizingOptions.padding;
+    const headerHeight = node && parentResizingOptions.respectHeaderHeight ? Number(node.data?.headerHeight) || 0 : 0;
+    return { top: vertical + headerHeight, right: horizontal, bottom: vertical, left: horizontal };
+  };
+
+  const buildElkNode = (nodeId: string, parentDirection: Direction, visited: Set<string>): ElkNode | null => {
+    const node = nodeIdWithNode.get(nodeId);
+    if (!node || visited.has(nodeId) || (!includeHidden && node.hidden)) {
+      return null;
+    }
+    visited.add(nodeId);
+
+    const childIds = nodeParentIdMapWithChildIdSet.get(nodeId);
+    const elkNode: ElkNode = { id: nodeId };
+    directionById.set(nodeId, parentDirection);
+
+    if (isCollapsedContainer(node)) {
+      // Hidden descendants keep their positions
+      const { width, height } = getCollapsedSize(parentResizingOptions);
+      elkNode.width = width;
+      elkNode.height = height;
+      elkNodeById.set(nodeId, elkNode);
+      return elkNode;
+    }
+
+    if (childIds && childIds.size > 0) {
+      const containerDirection = (node.data?.layoutDirection as Direction) || parentDirection;
+      elkNode.layoutOptions = {
+        ...createLayoutOptions(containerDirection, getContainerPadding(node), nodeSpacing, layerSpacing, hierarchySettings),
+        ...minimumSizeOptions,
+      };
+      elkNode.children = [...childIds]
+        .map(childId => buildElkNode(childId, containerDirection, visited))
+        .filter((child): child is ElkNode => child !== null);
+    }
+
+    if (!elkNode.children || elkNode.children.length === 0) {
+      delete elkNode.children;
+      elkNode.width = Number(node.style?.width) || nodeWidth;
+      elkNode.height = Number(node.style?.height) || nodeHeight;
+    }
+
+    elkNodeById.set(nodeId, elkNode);
+    return elkNode;
+  };
+
+  const rootNode = nodeIdWithNode.get(rootId);
+  const rootDirection = (rootNode?.data?.layoutDirection as Direction) || direction;
+
+  // Layered lays out the whole hierarchy in the root direction, ignoring the direction of nested containers,
+  // and transposes vertical hierarchies internally but not the minimum size of nested containers.
+  // Children are centered in the space a minimum size adds, as in per-container layouts.
+  const minWidth = parentResizingOptions?.minWidth || 0;
+  const minHeight = parentResizingOptions?.minHeight || 0;
+  const isVertical = rootDirection === 'TB' || rootDirection === 'BT';
+  const minimumSizeOptions: LayoutOptions = minWidth || minHeight
+    ? {
+      'elk.nodeSize.constraints': 'MINIMUM_SIZE',
+      'elk.nodeSize.minimum': isVertical ? `(${minHeight},${minWidth})` : `(${minWidth},${minHeight})`,
+      'elk.contentAlignment': 'V_CENTER H_CENTER',
+    }
+    : {};
+  const visited = new Set<string>([rootId]);
+  const graph: ElkNode = {
+    id: rootId,
+    layoutOptions: createLayoutOptions(rootDirection, getContainerPadding(rootNode), nodeSpacing, layerSpacing, hierarchySettings),
+    children: [...(nodeParentIdMapWithChildIdSet.get(rootId) || [])]
+      .map(childId => buildElkNode(childId, rootDirection, visited))
+      .filter((child): child is ElkNode => child !== null),
+    edges: [],
+  };
+
+  if (graph.children!.length === 0) {
+    return { nodes: [], edgeRoutes: [] };
+  }
+
+  // ELK expects every edge to live in the container that holds both of its endpoints.
+  // Edges into a collapsed container attach to the container; only edges between their own endpoints are routed.
+  const routedEdgeContainers = new Map<string, string>();
+  edges.forEach(edge => {
+    const source = getCollapsedEndpoint(edge.source, nodeIdWithNode);
+    const target = getCollapsedEndpoint(edge.target, nodeIdWithNode);
+    if (!elkNodeById.has(source) || !elkNodeById.has(target)) {
+      return;
+    }
+    const { lca, sourceChild, targetChild } = findLCAWithChildren(source, target, nodeIdWithNode, noParentKey);
+    if (!lca || !sourceChild || !targetChild || sourceChild === targetChild || lca === source || lca === target) {
+      return;
+    }
+    const container = lca === rootId ? graph : elkNodeById.get(lca);
+    if (!container) {
+      return;
+    }
+    container.edges = [...(container.edges || []), toElkEdge({ ...edge, source, target })];
+    if (source === edge.source && target === edge.target) {
+      routedEdgeContainers.set(edge.id, lca);
+    }
+  });
+
+  const layouted = await getElk().layout(graph);
+  const updatedNodes: Node[] = [];
+  const edgeRoutes: EdgeRoute[] = [];
+
+  const collectRoutes = (elkNode: ElkNode) => {
+    (elkNode.edges || []).forEach(elkEdge => {
+      const containerId = routedEdgeContainers.get(elkEdge.id);
+      if (containerId === undefined) {
+        return;
+      }
+      edgeRoutes.push({
+        edgeId: elkEdge.id,
+        parentId: containerId === noParentKey ? undefined : containerId,
+        waypoints: (elkEdge.sections?.[0]?.bendPoints || []).map(({ x, y }) => ({ x, y })),
+      });
+    });
+  };
+
+  const collect = (elkNode: ElkNode) => {
+    collectRoutes(elkNode);
+    (elkNode.children || []).forEach(child => {
+      const node = nodeIdWithNode.get(child.id);
+      if (!node) {
+        return;
+      }
+      let updatedNode = toLayoutedNode(node, child, directionById.get(child.id) || direction);
+      if ((child.children && child.children.length > 0) || isCollapsedContainer(node)) {
+        updatedNode = fixParentNodeDimensions(updatedNode, child.width || 0, child.height || 0);
+        collect(child);
+      }
+      nodeIdWithNode.set(updatedNode.id, updatedNode);
+      updatedNodes.push(updatedNode);
+    });
+  };
+
+  collect(layouted);
+
+  if (rootNode && layouted.width && layouted.height) {
+    fixParentNodeDimensions(rootNode, layouted.width, layouted.height);
+    updatedNodes.push(rootNode);
+  }
+
+  return { nodes: updatedNodes, edgeRoutes };
+};
@@ -0,0 +1,202 @@
+import { Edge, Node } from "@xyflow/react";
+import { getPositionCenter, LayoutResult, resolveNodePosition } from "./Dagre";
+import type { LayoutEngineOptions } from "../context/LayoutContext";
+import { convertDirectionToLayout, getSourcePosition, getTargetPosition } from "../utils/layoutProviderUtils";
+
+export interface ForceSettings {
+  seed?: number; // Seed of the random starting layout; the same seed and input always give the same layout (default 1)
+  iterations?: number; // Number of simulation steps (default 300)
+  initialTemperature?: number; // Largest distance a node may move in the first step; scaled to the graph when omitted
+  cooling?: number; // Factor the temperature is multiplied by after every step (default 0.97)
+  edgeLength?: number; // Preferred distance between connected node centers; from node sizes and layerSpacing when omitted
+  gravity?: number; // Pull towards the center that keeps unconnected parts together (default 0.3)
+  useExistingPositions?: boolean; // Start from the current positions instead of a random layout; implied by stable layouts
+}
+
+interface Body {
+  id: string;
+  x: number; // Center
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Small seeded generator (mulberry32), so layouts do not depend on Math.random
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Pushes overlapping nodes apart along the axis they overlap least on, until every pair is at least
+ * `spacing` apart or maxPasses is reached.
+ */
+const resolveCollisions = (bodies: Body[], spacing: number, maxPasses: number, random: () => number) => {
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let overlapping = false;
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        const a = bodies[i];
+        const b = bodies[j];
+        const overlapX = (a.w + b.w) / 2 + spacing - Math.abs(a.x - b.x);
+        const overlapY = (a.h + b.h) / 2 + spacing - Math.abs(a.y - b.y);
+        if (overlapX <= 0 || overlapY <= 0) {
+          continue;
+        }
+        overlapping = true;
+        if (overlapX < overlapY) {
+          const sign = a.x === b.x ? (random() < 0.5 ? -1 : 1) : Math.sign(b.x - a.x);
+          a.x -= (sign * overlapX) / 2;
+          b.x += (sign * overlapX) / 2;
+        } else {
+          const sign = a.y === b.y ? (random() < 0.5 ? -1 : 1) : Math.sign(b.y - a.y);
+          a.y -= (sign * overlapY) / 2;
+          b.y += (sign * overlapY) / 2;
+        }
+      }
+    }
+    if (!overlapping) {
+      return;
+    }
+  }
+};
+
+/**
+ * Force-directed layout (Fruchterman–Reingold) for graphs without a flow direction. Connected nodes
+ * attract, all nodes repel each other, and a weak gravity keeps unconnected parts close. The distance a
+ * node may move per step starts at the initial temperature and cools down every step. After every step
+ * nodes that overlap, measured with their real sizes plus nodeSpacing, are pushed apart.
+ * The result only depends on the input and the seed.
+ */
+export const calculateLayoutWithForce = async (
+  nodes: Node[],
+  edges: Edge[],
+  options: LayoutEngineOptions,
+  settings: ForceSettings = {}
+): Promise<LayoutResult> => {
+  const { direction, margin, nodeSpacing, layerSpacing, nodeWidth, nodeHeight, includeHidden, stable } = options;
+  const {
+    seed = 1,
+    iterations = 300,
+    cooling = 0.97,
+    gravity = 0.3,
+    useExistingPositions = Boolean(stable),
+  } = settings;
+
+  const nodesToLayout = includeHidden ? nodes : nodes.filter(node => !node.hidden);
+  if (nodesToLayout.length === 0) {
+    return { nodes: [], edges: [], width: 0, height: 0 };
+  }
+
+  const random = createRandom(seed);
+  const bodies: Body[] = nodesToLayout.map(node => {
+    const w = Number(node.style?.width) || nodeWidth;
+    const h = Number(node.style?.height) || nodeHeight;
+    return { id: node.id, ...getPositionCenter(node, w, h), w, h };
+  });
+  const bodyById = new Map(bodies.map(body => [body.id, body]));
+  const indexOf = new Map(bodies.map((body, index) => [body.id, index]));
+  const links = edges
+    .filter(edge => edge.source !== edge.target && indexOf.has(edge.source) && indexOf.has(edge.target))
+    .map(edge => [indexOf.get(edge.source)!, indexOf.get(edge.target)!]);
+
+  const averageExtent = bodies.reduce((sum, body) => sum + Math.hypot(body.w, body.h), 0) / bodies.length;
+  const edgeLength = settings.edgeLength ?? averageExtent / 2 + layerSpacing;
+
+  if (!useExistingPositions) {
+    // Random start in a square that fits every node at the preferred edge length
+    const side = edgeLength * Math.ceil(Math.sqrt(bodies.length));
+    bodies.forEach(body => {
+      body.x = random() * side;
+      body.y = random() * side;
+    });
+  }
+
+  let temperature = settings.initialTemperature ?? (useExistingPositions ? edgeLength / 2 : edgeLength * Math.sqrt(bodies.length) / 2);
+  const displacement = bodies.map(() => ({ x: 0, y: 0 }));
+
+  for (let step = 0; step < iterations && temperature > 0.01; step++) {
+    displacement.forEach(d => { d.x = 0; d.y = 0; });
+
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        let dx = bodies[i].x - bodies[j].x;
+        let dy = bodies[i].y - bodies[j].y;
+        if (dx === 0 && dy === 0) {
+          dx = random() - 0.5;
+          dy = random() - 0.5;
+        }
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (edgeLength * edgeLength) / distance;
+        displacement[i].x += (dx / distance) * force;
+        displacement[i].y += (dy / distance) * force;
+        displacement[j].x -= (dx / distance) * force;
+        displacement[j].y -= (dy / distance) * force;
+      }
+    }
+
+    links.forEach(([s, t]) => {
+      const dx = bodies[s].x - bodies[t].x;
+      const dy = bodies[s].y - bodies[t].y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / edgeLength;
+      displacement[s].x -= (dx / distance) * force;
+      displacement[s].y -= (dy / distance) * force;
+      displacement[t].x += (dx / distance) * force;
+      displacement[t].y += (dy / distance) * force;
+    });
+
+    const centerX = bodies.reduce((sum, body) => sum + body.x, 0) / bodies.length;
+    const centerY = bodies.reduce((sum, body) => sum + body.y, 0) / bodies.length;
+    bodies.forEach((body, index) => {
+      const d = displacement[index];
+      d.x -= (body.x - centerX) * gravity;
+      d.y -= (body.y - centerY) * gravity;
+      const length = Math.hypot(d.x, d.y);
+      if (length > 0) {
+        const move = Math.min(length, temperature);
+        body.x += (d.x / length) * move;
+        body.y += (d.y / length) * move;
+      }
+    });
+
+    resolveCollisions(bodies, nodeSpacing, 1, random);
+    temperature *= cooling;
+  }
+
+  // The simulation may end with nodes still touching, so separate them for good
+  resolveCollisions(bodies, nodeSpacing, 100, random);
+
+  const minX = Math.min(...bodies.map(body => body.x - body.w / 2));
+  const minY = Math.min(...bodies.map(body => body.y - body.h / 2));
+  const maxX = Math.max(...bodies.map(body => body.x + body.w / 2));
+  const maxY = Math.max(...bodies.map(body => body.y + body.h / 2));
+
+  const layoutDirection = convertDirectionToLayout(direction);
+  const sourcePosition = getSourcePosition(layoutDirection);
+  const targetPosition = getTargetPosition(layoutDirection);
+
+  const newNodes = nodesToLayout.map((node): Node => {
+    const { x, y, w, h } = bodyById.get(node.id)!;
+    return {
+      ...node,
+      sourcePosition,
+      targetPosition,
+      selected: false,
+      position: resolveNodePosition(node, x - minX + margin, y - minY + margin, w, h),
+    };
+  });
+
+  return {
+    nodes: newNodes,
+    edges,
+    width: maxX - minX + margin * 2,
+    height: maxY - minY + margin * 2,
+  };
+};
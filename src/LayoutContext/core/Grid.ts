@@ -0,0 +1,139 @@
+import { Edge, Node } from "@xyflow/react";
+import { LayoutResult, resolveNodePosition } from "./Dagre";
+import type { LayoutEngineOptions } from "../context/LayoutContext";
+import { convertDirectionToLayout, getSourcePosition, getTargetPosition } from "../utils/layoutProviderUtils";
+
+export interface GridSettings {
+  columns?: number; // Fixed number of columns (rows for LR/RL); chosen from aspectRatio when omitted
+  aspectRatio?: number; // Target width / height of the packed grid, defaults to 1
+  sortBy?: string | ((a: Node, b: Node) => number); // 'id', a data field name or a comparator; input order when omitted
+}
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''), undefined, { numeric: true });
+};
+
+const sortNodes = (nodes: Node[], sortBy: GridSettings['sortBy']): Node[] => {
+  if (!sortBy) {
+    return nodes;
+  }
+  if (typeof sortBy === 'function') {
+    return [...nodes].sort(sortBy);
+  }
+  return [...nodes].sort((a, b) => sortBy === 'id'
+    ? compareValues(a.id, b.id)
+    : compareValues(a.data?.[sortBy], b.data?.[sortBy]));
+};
+
+interface GridTrack {
+  sizes: number[]; // Width of each column or height of each row
+  total: number;
+}
+
+const measureTracks = (sizes: number[], trackCount: number, trackOf: (index: number) => number, spacing: number): GridTrack => {
+  const trackSizes = new Array(trackCount).fill(0);
+  sizes.forEach((size, index) => {
+    const track = trackOf(index);
+    trackSizes[track] = Math.max(trackSizes[track], size);
+  });
+  return {
+    sizes: trackSizes,
+    total: trackSizes.reduce((sum, size) => sum + size, 0) + spacing * Math.max(0, trackCount - 1),
+  };
+};
+
+/**
+ * Packs nodes into a grid of columns and rows. Each column is as wide as its widest node and each row
+ * as tall as its tallest node. Rows are filled first for TB/BT, columns first for LR/RL.
+ * Edges are ignored, which makes this a good fit for containers whose children are not connected.
+ */
+export const calculateLayoutWithGrid = async (
+  nodes: Node[],
+  edges: Edge[],
+  options: LayoutEngineOptions,
+  settings: GridSettings = {}
+): Promise<LayoutResult> => {
+  const { direction, margin, nodeSpacing, layerSpacing, nodeWidth, nodeHeight, includeHidden } = options;
+
+  const nodesToLayout = sortNodes(includeHidden ? nodes : nodes.filter(node => !node.hidden), settings.sortBy);
+  if (nodesToLayout.length === 0) {
+    return { nodes: [], edges: [], width: 0, height: 0 };
+  }
+
+  const widths = nodesToLayout.map(node => Number(node.style?.width) || nodeWidth);
+  const heights = nodesToLayout.map(node => Number(node.style?.height) || nodeHeight);
+  const fillRowsFirst = direction === 'TB' || direction === 'BT';
+  const count = nodesToLayout.length;
+
+  const createGrid = (lineLength: number) => {
+    const lineCount = Math.ceil(count / lineLength);
+    const columnCount = fillRowsFirst ? lineLength : lineCount;
+    const rowCount = fillRowsFirst ? lineCount : lineLength;
+    const columnOf = (index: number) => fillRowsFirst ? index % lineLength : Math.floor(index / lineLength);
+    const rowOf = (index: number) => fillRowsFirst ? Math.floor(index / lineLength) : index % lineLength;
+    return {
+      columnOf,
+      rowOf,
+      columns: measureTracks(widths, columnCount, columnOf, nodeSpacing),
+      rows: measureTracks(heights, rowCount, rowOf, layerSpacing),
+    };
+  };
+
+  let grid;
+  if (settings.columns && settings.columns > 0) {
+    grid = createGrid(Math.min(settings.columns, count));
+  } else {
+    // Pick the number of items per line whose packed grid comes closest to the target aspect ratio
+    const aspectRatio = settings.aspectRatio && settings.aspectRatio > 0 ? settings.aspectRatio : 1;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (let lineLength = 1; lineLength <= count; lineLength++) {
+      const candidate = createGrid(lineLength);
+      const distance = Math.abs(Math.log((candidate.columns.total / candidate.rows.total) / aspectRatio));
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        grid = candidate;
+      }
+    }
+  }
+  grid = grid!;
+
+  const offsets = (track: GridTrack, spacing: number) => {
+    const result: number[] = [];
+    let offset = margin;
+    track.sizes.forEach(size => {
+      result.push(offset);
+      offset += size + spacing;
+    });
+    return result;
+  };
+  const columnOffsets = offsets(grid.columns, nodeSpacing);
+  const rowOffsets = offsets(grid.rows, layerSpacing);
+
+  const layoutDirection = convertDirectionToLayout(direction);
+  const sourcePosition = getSourcePosition(layoutDirection);
+  const targetPosition = getTargetPosition(layoutDirection);
+
+  const newNodes = nodesToLayout.map((node, index): Node => {
+    const w = widths[index];
+    const h = heights[index];
+    const x = columnOffsets[grid.columnOf(index)];
+    const y = rowOffsets[grid.rowOf(index)];
+    return {
+      ...node,
+      sourcePosition,
+      targetPosition,
+      selected: false,
+      position: resolveNodePosition(node, x + w / 2, y + h / 2, w, h),
+    };
+  });
+
+  return {
+    nodes: newNodes,
+    edges,
+    width: grid.columns.total + margin * 2,
+    height: grid.rows.total + margin * 2,
+  };
+};
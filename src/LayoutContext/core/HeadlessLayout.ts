@@ -0,0 +1,104 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { LayoutAlgorithm, LayoutDirection, LayoutEngine, ParentResizingOptions } from '../context/LayoutContext';
+import { engines } from '../engines';
+import { convertDirection, DEFAULT_PARENT_RESIZING_OPTIONS } from '../utils/layoutProviderUtils';
+import { buildNodeMaps } from '../utils/treeUtils';
+import { runLayoutPipeline } from './LayoutPipeline';
+import { DEFAULT_ORTHOGONAL_ROUTING_OPTIONS, OrthogonalRoutingOptions } from './OrthogonalRouter';
+
+/**
+ * Options of layoutGraph. They mirror the LayoutProvider props and share their defaults.
+ */
+export interface LayoutGraphOptions {
+  direction?: LayoutDirection;
+  algorithm?: LayoutAlgorithm;
+  spacing?: {
+    node?: number;
+    layer?: number;
+  };
+  nodeDimensions?: {
+    width?: number;
+    height?: number;
+  };
+  parentResizingOptions?: Partial<ParentResizingOptions>;
+  includeHidden?: boolean;
+  layoutEngines?: Record<string, LayoutEngine>; // Added to the built-in engines
+  noParentKey?: string;
+  stableLayout?: boolean;
+  autoGridLayout?: boolean;
+  orthogonalRouting?: Partial<OrthogonalRoutingOptions>; // Passing an object enables routing unless it sets enabled: false
+  selectedNodeIds?: string[]; // Only lay out the containers of these nodes and their ancestors
+  signal?: AbortSignal;
+}
+
+// The organizer writes positions and container sizes into the node objects it is given
+const cloneNode = (node: Node): Node => ({
+  ...node,
+  position: { ...node.position },
+  ...(node.style ? { style: { ...node.style } } : {}),
+});
+
+/**
+ * Lays out a graph without React: builds the node maps, runs the same pipeline as the LayoutProvider
+ * and resolves with the laid out nodes and edges. The given nodes and edges are not modified.
+ * Rejects when no engine is registered under the algorithm name.
+ * Works in Node.js, workers and any other environment without a DOM.
+ */
+export const layoutGraph = async (
+  nodes: Node[],
+  edges: Edge[],
+  options: LayoutGraphOptions = {}
+): Promise<{ nodes: Node[]; edges: Edge[] }> => {
+  const {
+    direction = 'DOWN',
+    algorithm = 'layered',
+    spacing = {},
+    nodeDimensions = {},
+    includeHidden = false,
+    noParentKey = 'no-parent',
+    stableLayout = false,
+    autoGridLayout = false,
+    orthogonalRouting,
+    selectedNodeIds,
+    signal,
+  } = options;
+
+  const layoutEngines: Record<string, LayoutEngine> = { ...engines, ...options.layoutEngines };
+  // 'layered' names the Dagre engine unless an engine is registered under it
+  const engine = layoutEngines[algorithm] || (algorithm === 'layered' ? layoutEngines.dagre : undefined);
+  if (!engine) {
+    throw new Error(`Layout engine "${algorithm}" not found`);
+  }
+
+  const clonedNodes = nodes.map(cloneNode);
+  const { nodeIdWithNode, nodeParentIdMapWithChildIdSet } = buildNodeMaps(clonedNodes, noParentKey);
+  const selectedNodes = selectedNodeIds
+    ?.map(id => nodeIdWithNode.get(id))
+    .filter((node): node is Node => Boolean(node));
+
+  return runLayoutPipeline(
+    clonedNodes,
+    edges,
+    nodeParentIdMapWithChildIdSet,
+    nodeIdWithNode,
+    {
+      direction: convertDirection(direction),
+      engine,
+      layoutEngines,
+      parentResizingOptions: { ...DEFAULT_PARENT_RESIZING_OPTIONS, ...options.parentResizingOptions },
+      nodeSpacing: spacing.node ?? 50,
+      layerSpacing: spacing.layer ?? 50,
+      nodeWidth: nodeDimensions.width ?? 172,
+      nodeHeight: nodeDimensions.height ?? 36,
+      layoutHidden: includeHidden,
+      noParentKey,
+      stableLayout,
+      autoGridLayout,
+      orthogonalRouting: orthogonalRouting
+        ? { ...DEFAULT_ORTHOGONAL_ROUTING_OPTIONS, enabled: true, ...orthogonalRouting }
+        : undefined,
+    },
+    selectedNodes,
+    signal
+  );
+};
@@ -1,15 +1,23 @@
 import { Edge, Node } from "@xyflow/react";
-import { calculateLayoutWithDagre } from "./Dagre";
+import { GridEngine } from "../engines/GridEngine";
+import type { LayoutAlignment, LayoutEngine } from "../context/LayoutContext";
+import type { LayoutPipelineOptions } from "./LayoutPipeline";
 import { TreeNode } from "../utils/treeUtils";
+import { alignToPreviousPositions } from "../utils/layoutStability";
 import { createGlobalTemporaryEdgesMap } from "../utils/temporaryEdgeMapCreator";
+import { applyEdgeRoutes, createEdgeRoutes, EdgeRoute } from "../utils/edgeRouting";
 import { findLCAWithChildren, getFirstChildUnderAncestor } from "../utils/treeUtils";
+import { getCollapsedEndpoint, getCollapsedSize, isCollapsedContainer } from "../utils/containerCollapse";
+import { extendRoutesIntoContainers } from "./OrthogonalRouter";
+import {
+    CachedContainerLayout,
+    createContainerSignature,
+    prepareLayoutCache,
+    storeContainerLayout
+} from "./LayoutCache";
 
 export type Direction = 'TB' | 'LR' | 'RL' | 'BT';
 
-
-
-const MARGIN = 10;
-
 type BridgeAlignmentHint = {
     anchorContainerId: string;
     bridgeContainerId: string;
@@ -17,6 +25,21 @@ type BridgeAlignmentHint = {
     targetNodeId: string;
 };
 
+// Space between a container's border and its children
+export interface ContainerPadding {
+    horizontal: number;
+    vertical: number;
+}
+
+// Layout options a container applies to its children, after per-container overrides
+export interface ContainerLayoutOptions {
+    padding: ContainerPadding;
+    nodeSpacing: number;
+    layerSpacing: number;
+    alignment?: LayoutAlignment;
+    engine?: string; // Name of a registered layout engine
+}
+
 const getNodeById = (nodes: Node[], nodeId: string): Node | undefined =>
     nodes.find(node => node.id === nodeId);
 
@@ -61,14 +84,127 @@ const getNodeCenter = (node: Node) => {
     };
 };
 
+const isSet = (value: unknown) => value !== undefined && value !== null;
+
+/**
+ * Reads the container options a single node overrides through its data; options it does not set are left out.
+ * layoutPadding is either one number for all sides or { horizontal, vertical } filled up from defaultPadding.
+ */
+const readContainerOverrides = (
+    data: Record<string, unknown>,
+    defaultPadding: ContainerPadding
+): Partial<ContainerLayoutOptions> => {
+    const overrides: Partial<ContainerLayoutOptions> = {};
+    if (isSet(data.layoutNodeSpacing)) {
+        overrides.nodeSpacing = Number(data.layoutNodeSpacing);
+    }
+    if (isSet(data.layoutLayerSpacing)) {
+        overrides.layerSpacing = Number(data.layoutLayerSpacing);
+    }
+    if (isSet(data.layoutPadding)) {
+        overrides.padding = typeof data.layoutPadding === 'number'
+            ? { horizontal: data.layoutPadding, vertical: data.layoutPadding }
+            : { ...defaultPadding, ...(data.layoutPadding as Partial<ContainerPadding>) };
+    }
+    if (isSet(data.layoutAlignment)) {
+        overrides.alignment = data.layoutAlignment as LayoutAlignment;
+    }
+    if (isSet(data.layoutEngine)) {
+        overrides.engine = String(data.layoutEngine);
+    }
+    return overrides;
+};
+
+/**
+ * @function resolveContainerLayoutOptions
+ * Resolves the options a container uses to lay out its children. Each option is read from the data of
+ * the container itself or, failing that, the nearest ancestor that sets it (`layoutNodeSpacing`,
+ * `layoutLayerSpacing`, `layoutPadding`, `layoutAlignment`, `layoutEngine`); otherwise the global value applies.
+ *
+ * @param parentNodeId - The container whose options are resolved
+ * @param nodeIdWithNode - A map of node ids to their nodes
+ * @param defaults - The global padding and spacing
+ * @returns The resolved container options
+ */
+export const resolveContainerLayoutOptions = (
+    parentNodeId: string,
+    nodeIdWithNode: Map<string, Node>,
+    defaults: Pick<ContainerLayoutOptions, 'padding' | 'nodeSpacing' | 'layerSpacing'>
+): ContainerLayoutOptions => {
+    let overrides: Partial<ContainerLayoutOptions> = {};
+
+    const visited = new Set<string>();
+    let current = nodeIdWithNode.get(parentNodeId);
+    while (current && !visited.has(current.id)) {
+        visited.add(current.id);
+        // Options already set by a nearer container win
+        overrides = { ...readContainerOverrides(current.data || {}, defaults.padding), ...overrides };
+        current = current.parentId ? nodeIdWithNode.get(current.parentId) : undefined;
+    }
+
+    return { ...defaults, ...overrides };
+};
+
+/**
+ * Looks up the engine a container selected by name, or the global engine when it selects none.
+ * Throws when no engine is registered under the name, which fails the layout like an engine error.
+ */
+const resolveContainerEngine = (
+    parentNodeId: string,
+    engineName: string | undefined,
+    layoutEngines: Record<string, LayoutEngine>,
+    defaultEngine: LayoutEngine
+): LayoutEngine => {
+    if (!engineName) {
+        return defaultEngine;
+    }
+    const engine = layoutEngines[engineName];
+    if (!engine) {
+        throw new Error(`Layout engine "${engineName}" selected by container "${parentNodeId}" not found`);
+    }
+    return engine;
+};
+
+const isLayoutLocked = (node: Node) => Boolean(node.data?.layoutLocked);
+
+/**
+ * Whether the layout uses per-container features calculateHierarchy cannot express: locked nodes,
+ * per-container option overrides, containers with their own direction or grid packing of unconnected containers
+ */
+const requiresPerContainerLayout = (nodeIdWithNode: Map<string, Node>, options: LayoutPipelineOptions): boolean =>
+    options.autoGridLayout || [...nodeIdWithNode.values()].some(node =>
+        isLayoutLocked(node) ||
+        (isSet(node.data?.layoutDirection) && node.data.layoutDirection !== options.direction) ||
+        Object.keys(readContainerOverrides(node.data || {}, options.parentResizingOptions.padding)).length > 0
+    );
+
+// Padding on each side of a container's children, including the header band at the top
+type ContainerInsets = { top: number; right: number; bottom: number; left: number };
+
+/**
+ * Moves the laid out nodes to start inside the padding and measures the container size.
+ * When some nodes are locked the container keeps its origin instead: nothing is shifted
+ * and the size reaches from the origin to the far edges plus the padding.
+ */
 const normalizeLayoutedNodes = (
     nodes: Node[],
-    margin: number
+    insets: ContainerInsets
 ): { nodes: Node[]; width: number; height: number } => {
     if (nodes.length === 0) {
         return { nodes, width: 0, height: 0 };
     }
 
+    if (nodes.some(isLayoutLocked)) {
+        let maxX = 0;
+        let maxY = 0;
+        nodes.forEach(node => {
+            const { width, height } = getNodeDimensions(node);
+            maxX = Math.max(maxX, node.position.x + width);
+            maxY = Math.max(maxY, node.position.y + height);
+        });
+        return { nodes, width: maxX + insets.right, height: maxY + insets.bottom };
+    }
+
     let minX = Number.POSITIVE_INFINITY;
     let minY = Number.POSITIVE_INFINITY;
     let maxX = Number.NEGATIVE_INFINITY;
@@ -82,8 +218,8 @@ const normalizeLayoutedNodes = (
         maxY = Math.max(maxY, node.position.y + height);
     });
 
-    const offsetX = margin - minX;
-    const offsetY = margin - minY;
+    const offsetX = insets.left - minX;
+    const offsetY = insets.top - minY;
 
     nodes.forEach(node => {
         node.position = {
@@ -92,8 +228,8 @@ const normalizeLayoutedNodes = (
         };
     });
 
-    const width = maxX - minX + margin * 2;
-    const height = maxY - minY + margin * 2;
+    const width = maxX - minX + insets.left + insets.right;
+    const height = maxY - minY + insets.top + insets.bottom;
 
     return { nodes, width, height };
 };
@@ -153,6 +289,111 @@ const resolveSiblingCollisions = (
     }
 };
 
+// Padding every container gets unless it or an ancestor overrides it
+const getDefaultLayoutOptions = (options: LayoutPipelineOptions) => ({
+    padding: options.parentResizingOptions.padding,
+    nodeSpacing: options.nodeSpacing,
+    layerSpacing: options.layerSpacing,
+});
+
+/**
+ * Grows a container to the minimum size and re-centers its children in the added space.
+ * Children stay where they are when one of them is locked.
+ */
+const applyMinimumContainerSize = (
+    layout: { nodes: Node[]; width: number; height: number },
+    minWidth: number = 0,
+    minHeight: number = 0
+): { width: number; height: number } => {
+    const extraWidth = Math.max(0, minWidth - layout.width);
+    const extraHeight = Math.max(0, minHeight - layout.height);
+
+    if ((extraWidth || extraHeight) && !layout.nodes.some(isLayoutLocked)) {
+        layout.nodes.forEach(node => {
+            node.position = {
+                x: node.position.x + extraWidth / 2,
+                y: node.position.y + extraHeight / 2,
+            };
+        });
+    }
+
+    return {
+        width: layout.width + extraWidth,
+        height: layout.height + extraHeight,
+    };
+};
+
+/**
+ * Puts locked nodes back where the user left them and lays the other siblings out around them.
+ * The engine result is first translated so the locked nodes' engine positions line up with their
+ * kept positions, keeping the arrangement the engine intended. Unlocked nodes are then kept inside
+ * the padding and pushed along the cross axis (x for TB/BT, y for LR/RL) until they no longer
+ * overlap a locked node or a sibling pushed before them.
+ */
+const placeAroundLockedNodes = (
+    layoutedNodes: Node[],
+    lockedPositions: Map<string, { x: number; y: number }>,
+    direction: Direction,
+    nodeSpacing: number,
+    insets: ContainerInsets
+) => {
+    const lockedNodes = layoutedNodes.filter(node => lockedPositions.has(node.id));
+    if (lockedNodes.length === 0) {
+        return;
+    }
+
+    alignToPreviousPositions(
+        lockedNodes.map(node => ({ ...node, position: lockedPositions.get(node.id)! })),
+        layoutedNodes
+    );
+    lockedNodes.forEach(node => {
+        node.position = { ...lockedPositions.get(node.id)! };
+    });
+
+    const unlockedNodes = layoutedNodes.filter(node => !lockedPositions.has(node.id));
+    if (unlockedNodes.length === 0) {
+        return;
+    }
+
+    const minX = Math.min(...unlockedNodes.map(node => node.position.x));
+    const minY = Math.min(...unlockedNodes.map(node => node.position.y));
+    unlockedNodes.forEach(node => {
+        node.position = {
+            x: node.position.x + Math.max(0, insets.left - minX),
+            y: node.position.y + Math.max(0, insets.top - minY),
+        };
+    });
+
+    const alongX = direction === 'TB' || direction === 'BT';
+    const crossStart = (node: Node) => alongX ? node.position.x : node.position.y;
+    const crossSize = (node: Node) => alongX ? getNodeDimensions(node).width : getNodeDimensions(node).height;
+    const rankStart = (node: Node) => alongX ? node.position.y : node.position.x;
+    const rankSize = (node: Node) => alongX ? getNodeDimensions(node).height : getNodeDimensions(node).width;
+
+    // Obstacles keep nodeSpacing free along the cross axis; ranks only collide when they actually overlap
+    const findCollision = (node: Node, obstacles: Node[]) => obstacles.find(obstacle =>
+        crossStart(node) < crossStart(obstacle) + crossSize(obstacle) + nodeSpacing &&
+        crossStart(obstacle) < crossStart(node) + crossSize(node) + nodeSpacing &&
+        rankStart(node) < rankStart(obstacle) + rankSize(obstacle) &&
+        rankStart(obstacle) < rankStart(node) + rankSize(node)
+    );
+
+    const placedNodes = [...lockedNodes];
+    [...unlockedNodes]
+        .sort((a, b) => crossStart(a) - crossStart(b))
+        .forEach(node => {
+            let obstacle = findCollision(node, placedNodes);
+            while (obstacle) {
+                const crossPosition = crossStart(obstacle) + crossSize(obstacle) + nodeSpacing;
+                node.position = alongX
+                    ? { x: crossPosition, y: node.position.y }
+                    : { x: node.position.x, y: crossPosition };
+                obstacle = findCollision(node, placedNodes);
+            }
+            placedNodes.push(node);
+        });
+};
+
 const findBridgeAlignmentHints = (
     parentNodeId: string,
     originalEdges: Edge[],
@@ -333,121 +574,105 @@ const applyBridgeAlignmentHints = (
  * Starts with the specified node and works upward through the parent chain.
  * 
  * @param parentNodeId - The parent node to start layout from
- * @param direction - The direction of the layout
  * @param nodeParentIdMapWithChildIdSet - A map of parent node ids to their set of child IDs
  * @param nodeIdWithNode - A map of node ids to their nodes
  * @param edges - The edges to layout
- * @param margin - The margin to use for the layout
- * @param nodeSpacing - Spacing between nodes (horizontal within same rank)
- * @param layerSpacing - Spacing between layers (vertical between ranks)
- * @param defaultNodeWidth - Default width for nodes without explicit width
- * @param defaultNodeHeight - Default height for nodes without explicit height
- * @param includeHidden - Whether to include hidden nodes in the layout
- * @param noParentKey - Key used to represent nodes without a parent
+ * @param options - Direction, engines, spacing, padding and the other layout settings
  * @returns Promise<{ updatedNodes: Node[], updatedEdges: Edge[] }>
  */
 export const organizeLayoutRecursively = async (
     parentNodeId: string,
-    direction: Direction,
     nodeParentIdMapWithChildIdSet: Map<string, Set<string>>,
     nodeIdWithNode: Map<string, Node>,
     edges: Edge[],
-    margin: number = MARGIN,
-    nodeSpacing: number = 50,
-    layerSpacing: number = 50,
-    defaultNodeWidth: number = 172,
-    defaultNodeHeight: number = 36,
-    LayoutAlgorithm = calculateLayoutWithDagre,
-    includeHidden: boolean = false,
-    noParentKey: string = 'no-parent'
+    options: LayoutPipelineOptions
 ): Promise<{ updatedNodes: Node[], updatedEdges: Edge[] }> => {
+    const { noParentKey } = options;
 
     // Create global temporary edges map once for the recursive processing
     const temporaryEdgesByParent = createGlobalTemporaryEdgesMap(edges, nodeIdWithNode, noParentKey);
 
-    const { updatedNodes: updatedChildNodes } =
+    const { updatedNodes: updatedChildNodes, edgeRoutes = [] } =
         await layoutSingleContainer(
             parentNodeId,
-            direction,
             nodeParentIdMapWithChildIdSet,
             nodeIdWithNode,
             edges,
-            margin,
-            nodeSpacing,
-            layerSpacing,
-            defaultNodeWidth,
-            defaultNodeHeight,
-            LayoutAlgorithm,
-            includeHidden,
-            temporaryEdgesByParent,
-            noParentKey
+            options,
+            temporaryEdgesByParent
         );
 
     const parentNode = nodeIdWithNode.get(parentNodeId);
     if (!parentNode) {
-        return { updatedNodes: updatedChildNodes, updatedEdges: edges };
+        return { updatedNodes: updatedChildNodes, updatedEdges: applyEdgeRoutes(edges, edgeRoutes) };
     }
 
-    const { updatedNodes: parentUpdatedNodes } = await organizeLayoutRecursively(
+    const { updatedNodes: parentUpdatedNodes, updatedEdges: parentUpdatedEdges } = await organizeLayoutRecursively(
         parentNode.parentId || noParentKey,
-        direction,
         nodeParentIdMapWithChildIdSet,
         nodeIdWithNode,
         edges,
-        margin,
-        nodeSpacing,
-        layerSpacing,
-        defaultNodeWidth,
-        defaultNodeHeight,
-        LayoutAlgorithm,
-        includeHidden,
-        noParentKey
+        options
     );
 
     return {
         updatedNodes: [...parentUpdatedNodes, ...updatedChildNodes],
-        updatedEdges: edges, // Always return original edges unchanged
+        updatedEdges: applyEdgeRoutes(parentUpdatedEdges, edgeRoutes),
     };
 }
 
 /**
  * @function layoutSingleContainer
  * Organizes the layout of a single container and its immediate child nodes.
- * By default, it uses the Dagre layout algorithm or the provided algorithm to calculate the positions of the nodes.
+ * By default, it uses the Dagre engine or the provided layout engine to calculate the positions of the nodes.
  * The function updates the dimensions of the parent node and its child nodes.
- * It also updates the edges of the layout.
+ * It also returns the routes the engine computed for the edges projected onto this container,
+ * relative to the container and adjusted to the final child positions. Routes of edges whose endpoints sit
+ * in nested containers continue through those containers down to the endpoints.
+ * Children with `data.layoutLocked` keep their position; their siblings are laid out around them.
+ * A collapsed container (`data.collapsed`) is laid out as a leaf: it takes the collapsed size and its
+ * hidden descendants, including nested containers, keep their positions.
  * 
  * @param parentNodeId - The parent node to layout
- * @param direction - The direction of the layout
  * @param nodeParentIdMapWithChildIdSet - A map of parent node ids to their set of child IDs
  * @param nodeIdWithNode - A map of node ids to their nodes
- * @param edges - The edges to layout
- * @param margin - The margin to use for the layout
- * @param nodeSpacing - Spacing between nodes
- * @param layerSpacing - Spacing between layers
- * @param defaultNodeWidth - Default width for nodes without explicit width
- * @param defaultNodeHeight - Default height for nodes without explicit height
- * @param LayoutAlgorithm - The layout algorithm to use
- * @param includeHidden - Whether to include hidden nodes in the layout
- * @returns Promise<{ updatedNodes: Node[], udpatedParentNode?: Node }>
+ * @param _originalEdges - The original edges, used to align containers bridged by an edge
+ * @param options - Direction, engines, spacing, padding and the other layout settings. With `stableLayout`
+ * the engine gets current positions as hints and root-level nodes stay close to where they were instead
+ * of being moved to the margin; with `autoGridLayout` containers without edges between their children
+ * are packed by the grid engine.
+ * @param temporaryEdgesByParent - Temporary edges projected onto each container level
+ * @returns Promise<{ updatedNodes: Node[], udpatedParentNode?: Node, edgeRoutes?: EdgeRoute[] }>
  */
 export const layoutSingleContainer = async (
     parentNodeId: string,
-    defaultDirection: Direction,
     nodeParentIdMapWithChildIdSet: Map<string, Set<string>>,
     nodeIdWithNode: Map<string, Node>,
-    _originalEdges: Edge[], // Only used for returning unaltered edges
-    margin: number = MARGIN,
-    nodeSpacing: number = 50,
-    layerSpacing: number = 50,
-    defaultNodeWidth: number = 172,
-    defaultNodeHeight: number = 36,
-    LayoutAlgorithm = calculateLayoutWithDagre,
-    includeHidden: boolean = false,
+    _originalEdges: Edge[],
+    options: LayoutPipelineOptions,
     temporaryEdgesByParent: Map<string, Edge[]> = new Map() // Global temporary edges map
-    ,
-    noParentKey: string = 'no-parent'
-): Promise<{ updatedNodes: Node[], udpatedParentNode?: Node }> => {
+): Promise<{ updatedNodes: Node[], udpatedParentNode?: Node, edgeRoutes?: EdgeRoute[] }> => {
+    const {
+        engine,
+        layoutEngines,
+        parentResizingOptions,
+        nodeWidth,
+        nodeHeight,
+        layoutHidden,
+        noParentKey,
+        stableLayout,
+        autoGridLayout,
+    } = options;
+    const parentNode = nodeIdWithNode.get(parentNodeId);
+    if (parentNode && isCollapsedContainer(parentNode)) {
+        const { width, height } = getCollapsedSize(parentResizingOptions);
+        fixParentNodeDimensions(parentNode, width, height);
+        return { updatedNodes: [], udpatedParentNode: parentNode, edgeRoutes: [] };
+    }
+    if (parentNode && getCollapsedEndpoint(parentNodeId, nodeIdWithNode) !== parentNodeId) {
+        return { updatedNodes: [] }; // Hidden inside a collapsed container
+    }
+
     // Get the set of child IDs for this parent
     const childIdSet = nodeParentIdMapWithChildIdSet.get(parentNodeId);
     if (!childIdSet || childIdSet.size === 0) {
@@ -468,40 +693,70 @@ export const layoutSingleContainer = async (
         return { updatedNodes: [] };
     }
 
-    let direction = defaultDirection;
-    const parentNode = nodeIdWithNode.get(parentNodeId);
-    
+    // Locked nodes still take part in the layout so their edges are considered, but keep their position
+    const lockedPositions = new Map(
+        nodesToLayout.filter(isLayoutLocked).map(node => [node.id, { ...node.position }])
+    );
+
+    let direction = options.direction;
+
     if (parentNode) {
         if (parentNode.data.layoutDirection) {
             direction = parentNode.data.layoutDirection as Direction;
         }
     }
 
+    // Spacing, padding, alignment and engine may be overridden by this container or its ancestors
+    const containerOptions = resolveContainerLayoutOptions(parentNodeId, nodeIdWithNode, getDefaultLayoutOptions(options));
+
     // Simply get temporary edges for this level - no edge processing needed!
     const temporaryEdgesForLevel = temporaryEdgesByParent.get(parentNodeId) || [];
 
-    const { nodes: layoutedNodes, edges: _ } =
-        await LayoutAlgorithm(
+    // Containers without edges between their children are packed in a grid, unless they select an engine themselves
+    const containerEngine = autoGridLayout && !containerOptions.engine && temporaryEdgesForLevel.length === 0
+        ? GridEngine
+        : resolveContainerEngine(parentNodeId, containerOptions.engine, layoutEngines, engine);
+
+    // Children are laid out below the container's header band
+    const headerHeight = parentNode && parentResizingOptions.respectHeaderHeight
+        ? Number(parentNode.data.headerHeight) || 0
+        : 0;
+    const insets: ContainerInsets = {
+        top: containerOptions.padding.vertical + headerHeight,
+        right: containerOptions.padding.horizontal,
+        bottom: containerOptions.padding.vertical,
+        left: containerOptions.padding.horizontal,
+    };
+
+    const { nodes: layoutedNodes, edges: layoutedEdges } =
+        await containerEngine.calculate(
             nodesToLayout,
             temporaryEdgesForLevel, // Only use temporary edges for layout
-            direction,
-            margin,
-            nodeSpacing,
-            layerSpacing,
-            defaultNodeWidth,
-            defaultNodeHeight,
-            includeHidden
+            {
+                direction,
+                margin: containerOptions.padding.horizontal,
+                nodeSpacing: containerOptions.nodeSpacing,
+                layerSpacing: containerOptions.layerSpacing,
+                nodeWidth,
+                nodeHeight,
+                includeHidden: layoutHidden,
+                stable: stableLayout,
+                alignment: containerOptions.alignment,
+            }
         );
 
     layoutedNodes.forEach(node => {
         nodeIdWithNode.set(node.id, node);
     });
 
+    // Edge routes are in the engine's coordinates and follow the children through the adjustments below
+    const enginePositions = new Map(layoutedNodes.map(node => [node.id, { ...node.position }]));
+
     const movedNodeIds = applyBridgeAlignmentHints(
         layoutedNodes,
         parentNodeId,
         direction,
-        nodeSpacing,
+        containerOptions.nodeSpacing,
         _originalEdges,
         nodeIdWithNode,
         noParentKey
@@ -510,27 +765,57 @@ export const layoutSingleContainer = async (
     resolveSiblingCollisions(
         layoutedNodes,
         direction,
-        nodeSpacing,
+        containerOptions.nodeSpacing,
         movedNodeIds
     );
 
+    placeAroundLockedNodes(layoutedNodes, lockedPositions, direction, containerOptions.nodeSpacing, insets);
+
     layoutedNodes.forEach(node => {
         nodeIdWithNode.set(node.id, node);
     });
 
-    const normalizedLayout = normalizeLayoutedNodes(layoutedNodes, margin);
+    // Root-level nodes have no container to resize, so in stable mode they keep their place
+    const normalizedLayout = stableLayout && !parentNode && !layoutedNodes.some(isLayoutLocked)
+        ? { nodes: alignToPreviousPositions(nodesToLayout, layoutedNodes), width: 0, height: 0 }
+        : normalizeLayoutedNodes(layoutedNodes, insets);
 
     normalizedLayout.nodes.forEach(node => {
         nodeIdWithNode.set(node.id, node);
     });
 
     if (parentNode && normalizedLayout.width && normalizedLayout.height) {
-        fixParentNodeDimensions(parentNode, normalizedLayout.width, normalizedLayout.height);
+        const { width, height } = applyMinimumContainerSize(
+            normalizedLayout,
+            parentResizingOptions.minWidth,
+            parentResizingOptions.minHeight
+        );
+        fixParentNodeDimensions(parentNode, width, height);
     }
 
     return {
         updatedNodes: [...normalizedLayout.nodes],
         udpatedParentNode: parentNode || undefined,
+        // The containers below are laid out already, so routes ending on their borders continue to the endpoints
+        edgeRoutes: extendRoutesIntoContainers(
+            createEdgeRoutes(
+                layoutedEdges || [],
+                enginePositions,
+                normalizedLayout.nodes,
+                parentNode ? parentNodeId : undefined
+            ),
+            layoutedEdges || [],
+            nodeIdWithNode,
+            nodeParentIdMapWithChildIdSet,
+            containerId => {
+                const { padding } = resolveContainerLayoutOptions(containerId, nodeIdWithNode, getDefaultLayoutOptions(options));
+                return Math.min(padding.horizontal, padding.vertical) / 2;
+            },
+            nodeWidth,
+            nodeHeight,
+            layoutHidden,
+            noParentKey
+        ),
     };
 }
 
@@ -553,48 +838,171 @@ export const fixParentNodeDimensions = (
     return node;
 }
 
+/**
+ * Reapplies a cached container layout: child positions, the container's own size and its edge routes
+ */
+const restoreContainerLayout = (
+    parentNodeId: string,
+    cached: CachedContainerLayout,
+    nodeIdWithNode: Map<string, Node>
+): { updatedNodes: Node[], edgeRoutes: EdgeRoute[] } => {
+    const restoredNodes: Node[] = [];
+
+    cached.children.forEach((geometry, childId) => {
+        const node = nodeIdWithNode.get(childId);
+        if (!node) {
+            return;
+        }
+        const restoredNode: Node = {
+            ...node,
+            position: { ...geometry.position },
+            sourcePosition: geometry.sourcePosition,
+            targetPosition: geometry.targetPosition,
+        };
+        nodeIdWithNode.set(childId, restoredNode);
+        restoredNodes.push(restoredNode);
+    });
+
+    const parentNode = nodeIdWithNode.get(parentNodeId);
+    if (parentNode && cached.width && cached.height) {
+        fixParentNodeDimensions(parentNode, cached.width, cached.height);
+    }
+
+    return { updatedNodes: restoredNodes, edgeRoutes: cached.edgeRoutes };
+};
+
 /**
  * @function organizeLayoutByTreeDepth
  * Processes parent nodes in order from deepest to shallowest, ensuring proper layout calculation.
  * This function traverses the parent tree and calls layoutSingleContainer for each parent,
  * starting with the deepest children and working up to the root node(s).
  * Finally processes the custom noParentKey node to handle root-level elements.
+ * If the layout engine implements calculateHierarchy, the whole hierarchy is handed to it in one pass instead,
+ * together with the parent resizing options; its edge routes are applied like those of per-container passes.
+ * Layouts with locked nodes, per-container overrides other than `layoutDirection` or autoGridLayout keep
+ * the per-container passes, and hierarchy passes always recompute without the layout cache.
+ * When a layout cache is given, containers whose inputs are unchanged since the cached run reuse their
+ * cached result; changed containers and their ancestor chain are laid out again and stored in the cache.
  * 
  * @param parentTree - The tree structure of parent nodes
- * @param direction - The direction of the layout
  * @param nodeParentIdMapWithChildIdSet - A map of parent node ids to their set of child IDs
  * @param nodeIdWithNode - A map of node ids to their nodes
  * @param edges - The edges to layout
- * @param margin - The margin to use for the layout
- * @param nodeSpacing - Spacing between nodes (horizontal within same rank)
- * @param layerSpacing - Spacing between layers (vertical between ranks)
- * @param defaultNodeWidth - Default width for nodes without explicit width
- * @param defaultNodeHeight - Default height for nodes without explicit height
- * @param LayoutAlgorithm - The layout algorithm to use
- * @param includeHidden - Whether to include hidden nodes in the layout
- * @param noParentKey - Key used to represent nodes without a parent
+ * @param options - Direction, engines, spacing, padding and the other layout settings, including the
+ * optional layout cache enabling incremental layout
  * @returns Promise<{ updatedNodes: Node[], updatedEdges: Edge[] }>
  */
 export const organizeLayoutByTreeDepth = async (
     parentTree: TreeNode[],
-    direction: Direction,
     nodeParentIdMapWithChildIdSet: Map<string, Set<string>>,
     nodeIdWithNode: Map<string, Node>,
     edges: Edge[],
-    margin: number = MARGIN,
-    nodeSpacing: number = 50,
-    layerSpacing: number = 50,
-    defaultNodeWidth: number = 172,
-    defaultNodeHeight: number = 36,
-    LayoutAlgorithm = calculateLayoutWithDagre,
-    includeHidden: boolean = false,
-    noParentKey: string = 'no-parent'
+    options: LayoutPipelineOptions
 ): Promise<{ updatedNodes: Node[], updatedEdges: Edge[] }> => {
+    const {
+        direction,
+        engine: layoutEngine,
+        parentResizingOptions,
+        nodeSpacing,
+        layerSpacing,
+        nodeWidth,
+        nodeHeight,
+        layoutHidden,
+        noParentKey,
+        stableLayout,
+        autoGridLayout,
+        layoutCache,
+    } = options;
+
+    // Engines with native compound-node support lay out the whole hierarchy in one pass
+    if (layoutEngine.calculateHierarchy && !requiresPerContainerLayout(nodeIdWithNode, options)) {
+        const { nodes: hierarchyNodes, edgeRoutes = [] } = await layoutEngine.calculateHierarchy(
+            {
+                rootId: noParentKey,
+                nodeParentIdMapWithChildIdSet,
+                nodeIdWithNode,
+                edges,
+                noParentKey,
+                parentResizingOptions,
+            },
+            {
+                direction,
+                margin: parentResizingOptions.padding.horizontal,
+                nodeSpacing,
+                layerSpacing,
+                nodeWidth,
+                nodeHeight,
+                includeHidden: layoutHidden,
+                stable: stableLayout,
+            }
+        );
+
+        return {
+            updatedNodes: hierarchyNodes,
+            updatedEdges: applyEdgeRoutes(edges, edgeRoutes),
+        };
+    }
+
     let allUpdatedNodes: Node[] = [];
+    const allEdgeRoutes: EdgeRoute[] = [];
     
     // Create global temporary edges map once at the beginning
     const temporaryEdgesByParent = createGlobalTemporaryEdgesMap(edges, nodeIdWithNode, noParentKey);
 
+    if (layoutCache) {
+        prepareLayoutCache(layoutCache, layoutEngine, options.layoutEngines, [
+            direction, nodeSpacing, layerSpacing, nodeWidth, nodeHeight, layoutHidden, noParentKey, stableLayout,
+            parentResizingOptions, autoGridLayout
+        ]);
+    }
+
+    // Containers that have to be laid out again because one of their descendant containers changed
+    const dirtyContainerIds = new Set<string>();
+
+    const layoutContainer = async (parentId: string): Promise<{ updatedNodes: Node[], edgeRoutes?: EdgeRoute[] }> => {
+        const temporaryEdgesForLevel = temporaryEdgesByParent.get(parentId) || [];
+        const signature = layoutCache
+            ? createContainerSignature(
+                parentId,
+                nodeParentIdMapWithChildIdSet,
+                nodeIdWithNode,
+                temporaryEdgesForLevel,
+                resolveContainerLayoutOptions(parentId, nodeIdWithNode, getDefaultLayoutOptions(options))
+            )
+            : null;
+        const cached = layoutCache?.containers.get(parentId);
+
+        if (signature !== null && cached?.signature === signature && !dirtyContainerIds.has(parentId)) {
+            return restoreContainerLayout(parentId, cached, nodeIdWithNode);
+        }
+
+        const result = await layoutSingleContainer(
+            parentId,
+            nodeParentIdMapWithChildIdSet,
+            nodeIdWithNode,
+            edges,
+            options,
+            temporaryEdgesByParent // Pass the global temporary edges map
+        );
+
+        if (layoutCache && signature !== null) {
+            storeContainerLayout(
+                layoutCache,
+                parentId,
+                signature,
+                result.updatedNodes,
+                result.udpatedParentNode,
+                result.edgeRoutes
+            );
+            const parentNode = nodeIdWithNode.get(parentId);
+            if (parentNode) {
+                dirtyContainerIds.add(parentNode.parentId || noParentKey);
+            }
+        }
+
+        return result;
+    };
+
     // Collect all parent IDs by depth (deepest first)
     const nodesByDepth: Map<number, string[]> = new Map();
     let maxDepth = 0;
@@ -623,55 +1031,24 @@ export const organizeLayoutByTreeDepth = async (
         const parentIds = nodesByDepth.get(depth) || [];
 
         // Process each parent at this level
-        const levelResults = await Promise.all(parentIds.map(parentId =>
-            layoutSingleContainer(
-                parentId,
-                direction,
-                nodeParentIdMapWithChildIdSet,
-                nodeIdWithNode,
-                edges, // Pass original edges (only used for returning)
-                margin,
-                nodeSpacing,
-                layerSpacing,
-                defaultNodeWidth,
-                defaultNodeHeight,
-                LayoutAlgorithm,
-                includeHidden,
-                temporaryEdgesByParent, // Pass the global temporary edges map
-                noParentKey
-            )
-        ));
+        const levelResults = await Promise.all(parentIds.map(layoutContainer));
 
-        // Collect only updated nodes (edges are always the same original edges)
-        for (const { updatedNodes } of levelResults) {
+        // Collect updated nodes and the routes of the edges projected onto each container
+        for (const { updatedNodes, edgeRoutes = [] } of levelResults) {
             allUpdatedNodes = [...updatedNodes, ...allUpdatedNodes];
+            allEdgeRoutes.push(...edgeRoutes);
         }
     }
 
     // CRITICAL: Process root level with temporary edges
-    const { updatedNodes: rootUpdatedNodes } = 
-        await layoutSingleContainer(
-            noParentKey,
-            direction,
-            nodeParentIdMapWithChildIdSet,
-            nodeIdWithNode,
-            edges, // Pass original edges (only used for returning)
-            margin,
-            nodeSpacing,
-            layerSpacing,
-            defaultNodeWidth,
-            defaultNodeHeight,
-            LayoutAlgorithm,
-            includeHidden,
-            temporaryEdgesByParent, // Process root-level temporary edges
-            noParentKey
-        );
+    const { updatedNodes: rootUpdatedNodes, edgeRoutes: rootEdgeRoutes = [] } = await layoutContainer(noParentKey);
 
     // Final merge
     allUpdatedNodes = [...rootUpdatedNodes, ...allUpdatedNodes];
+    allEdgeRoutes.push(...rootEdgeRoutes);
 
     return {
         updatedNodes: allUpdatedNodes,
-        updatedEdges: edges, // Always return original edges unchanged
+        updatedEdges: applyEdgeRoutes(edges, allEdgeRoutes),
     };
 }
@@ -0,0 +1,147 @@
+import { Edge, Node, Position } from "@xyflow/react";
+import type { LayoutEngine } from "../context/LayoutContext";
+import type { EdgeRoute } from "../utils/edgeRouting";
+
+/**
+ * Result of laying out one container: where its children went, how large it became and how
+ * the edges projected onto it were routed
+ */
+export interface CachedContainerLayout {
+    signature: string;
+    children: Map<string, {
+        position: { x: number; y: number };
+        sourcePosition?: Position;
+        targetPosition?: Position;
+    }>;
+    width?: number;
+    height?: number;
+    edgeRoutes: EdgeRoute[];
+}
+
+/**
+ * Per-container layout results from previous runs, used to skip containers whose inputs did not change.
+ * Any change of engine, engine registry or global settings invalidates every entry.
+ */
+export interface LayoutCache {
+    engine: LayoutEngine | null;
+    layoutEngines: Record<string, LayoutEngine> | null; // Engines containers can select by name
+    settingsKey: string | null;
+    containers: Map<string, CachedContainerLayout>;
+}
+
+export const createLayoutCache = (): LayoutCache => ({
+    engine: null,
+    layoutEngines: null,
+    settingsKey: null,
+    containers: new Map(),
+});
+
+export const clearLayoutCache = (cache: LayoutCache) => {
+    cache.engine = null;
+    cache.layoutEngines = null;
+    cache.settingsKey = null;
+    cache.containers.clear();
+};
+
+// Registries match when they hold the same engine objects under the same names
+const isSameRegistry = (a: Record<string, LayoutEngine> | null, b: Record<string, LayoutEngine>) =>
+    a !== null &&
+    Object.keys(a).length === Object.keys(b).length &&
+    Object.keys(b).every(name => a[name] === b[name]);
+
+/**
+ * Drops all cached containers when the engine, the engine registry or global settings differ from the cached run
+ */
+export const prepareLayoutCache = (
+    cache: LayoutCache,
+    engine: LayoutEngine,
+    layoutEngines: Record<string, LayoutEngine>,
+    settings: unknown[]
+) => {
+    const settingsKey = JSON.stringify(settings);
+    if (cache.engine !== engine || !isSameRegistry(cache.layoutEngines, layoutEngines) || cache.settingsKey !== settingsKey) {
+        clearLayoutCache(cache);
+        cache.engine = engine;
+        cache.layoutEngines = { ...layoutEngines };
+        cache.settingsKey = settingsKey;
+    }
+};
+
+// Text labels are keyed by their text, which measuring turns into the reserved label size;
+// other labels, such as React elements, only by whether there is one
+const getLabelKey = (label: Edge['label']) =>
+    typeof label === 'string' || typeof label === 'number' ? label : Boolean(label);
+
+/**
+ * Describes every input of a single container layout: its own and inherited options, whether it is
+ * collapsed, its children
+ * (order, visibility and size) and the temporary edges projected onto its level.
+ * Containers whose signature matches the cached one can reuse the cached result.
+ */
+export const createContainerSignature = (
+    parentNodeId: string,
+    nodeParentIdMapWithChildIdSet: Map<string, Set<string>>,
+    nodeIdWithNode: Map<string, Node>,
+    temporaryEdgesForLevel: Edge[],
+    containerOptions: unknown = null
+): string => {
+    const parentNode = nodeIdWithNode.get(parentNodeId);
+    const children = [...(nodeParentIdMapWithChildIdSet.get(parentNodeId) || [])].map(childId => {
+        const child = nodeIdWithNode.get(childId);
+        return child
+            ? [
+                child.id,
+                Boolean(child.hidden),
+                child.width,
+                child.height,
+                child.style?.width,
+                child.style?.height,
+                child.data?.positionType,
+                child.data?.layoutLocked ? child.position : null,
+            ]
+            : [childId];
+    });
+    const edges = temporaryEdgesForLevel.map(edge => [
+        edge.id,
+        edge.source,
+        edge.target,
+        edge.sourceHandle,
+        edge.targetHandle,
+        edge.data?.originalSource,
+        edge.data?.originalTarget,
+        edge.data?.isReciprocal,
+        edge.data?.isSyntheticBridge,
+        getLabelKey(edge.label),
+        edge.data?.labelSize,
+    ]);
+
+    return JSON.stringify([
+        parentNode?.data?.layoutDirection,
+        parentNode?.data?.headerHeight,
+        Boolean(parentNode?.data?.collapsed),
+        containerOptions,
+        children,
+        edges,
+    ]);
+};
+
+export const storeContainerLayout = (
+    cache: LayoutCache,
+    parentNodeId: string,
+    signature: string,
+    updatedNodes: Node[],
+    parentNode?: Node,
+    edgeRoutes: EdgeRoute[] = []
+) => {
+    cache.containers.set(parentNodeId, {
+        signature,
+        children: new Map(updatedNodes.map(node => [node.id, {
+            position: { ...node.position },
+            sourcePosition: node.sourcePosition,
+            targetPosition: node.targetPosition,
+        }])),
+        width: parentNode?.width,
+        height: parentNode?.height,
+        edgeRoutes,
+    });
+};
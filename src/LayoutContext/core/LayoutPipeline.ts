@@ -0,0 +1,255 @@
+import { Edge, Node } from '@xyflow/react';
+import type { LayoutEngine, ParentResizingOptions } from '../context/LayoutContext';
+import { Direction, organizeLayoutByTreeDepth, organizeLayoutRecursively } from './HierarchicalLayoutOrganizer';
+import { LayoutCache } from './LayoutCache';
+import { OrthogonalRoutingOptions, routeEdgesOrthogonally } from './OrthogonalRouter';
+import { DagreEngine } from '../engines/DagreEngine';
+import { buildNodeTree } from '../utils/treeUtils';
+import filterSelectedParentNodes from '../utils/filterSelectedParentNodes';
+import { filterVisibleNodesAndEdges } from '../utils/layoutProviderUtils';
+
+// Layout configuration object for simplification
+export interface LayoutConfig {
+  dagreDirection: Direction;
+  nodeParentIdMapWithChildIdSet: Map<string, Set<string>>;
+  nodeIdWithNode: Map<string, Node>;
+  nodes: Node[];
+  edges: Edge[];
+  margin: number;
+  nodeSpacing: number;
+  layerSpacing: number;
+  nodeWidth: number;
+  nodeHeight: number;
+  layoutHidden?: boolean;
+  noParentKey?: string;
+  layoutEngine?: LayoutEngine;
+  stableLayout?: boolean;
+  layoutEngines?: Record<string, LayoutEngine>; // Engines containers can select through data.layoutEngine
+  parentResizingOptions?: ParentResizingOptions; // Without it the margin pads every side of a container
+  autoGridLayout?: boolean; // Pack containers without edges between their children in a grid
+}
+
+/**
+ * Process selected node IDs for layout calculations (refactored to use LayoutConfig)
+ */
+export const processSelectedNodes = async (
+  selectedNodes: Node[],
+  config: LayoutConfig,
+  signal?: AbortSignal
+): Promise<{ nodes: Node[], edges: Edge[] }> => {
+  const {
+    dagreDirection,
+    nodeParentIdMapWithChildIdSet,
+    nodeIdWithNode,
+    nodes,
+    edges,
+    margin,
+    nodeSpacing,
+    layerSpacing,
+    nodeWidth,
+    nodeHeight,
+    layoutHidden = false,
+    noParentKey = 'no-parent',
+    layoutEngine = DagreEngine,
+    stableLayout = false,
+    layoutEngines = {},
+    parentResizingOptions = { enabled: true, padding: { horizontal: margin, vertical: margin }, respectHeaderHeight: false },
+    autoGridLayout = false,
+  } = config;
+  const options: LayoutPipelineOptions = {
+    direction: dagreDirection,
+    engine: layoutEngine,
+    layoutEngines,
+    parentResizingOptions,
+    nodeSpacing,
+    layerSpacing,
+    nodeWidth,
+    nodeHeight,
+    layoutHidden,
+    noParentKey,
+    stableLayout,
+    autoGridLayout,
+  };
+
+  // Filter to only include relevant parent nodes
+  const filteredParentIds = filterSelectedParentNodes(
+    selectedNodes,
+    nodeParentIdMapWithChildIdSet,
+    nodeIdWithNode,
+    noParentKey
+  );
+  if (filteredParentIds.length === 0) {
+    return { nodes, edges };
+  }
+  // Map to track updated nodes and edges (using node/edge ID as key for faster lookups)
+  const updatedNodesMap = new Map<string, Node>();
+  const updatedEdgesMap = new Map<string, Edge>();
+  
+  // Process each parent in parallel, but check for abort signal before starting
+  if (signal?.aborted) {
+    return { nodes, edges };
+  }
+
+  const results = await Promise.all(
+    filteredParentIds.map(async parentId => {
+      if (signal?.aborted) {
+        return { updatedNodes: [], updatedEdges: [] };
+      }
+      return organizeLayoutRecursively(parentId, nodeParentIdMapWithChildIdSet, nodeIdWithNode, edges, options);
+    })
+  );
+  
+  // Collect all results from parallel processing. Every result lists all edges, so only keep
+  // the ones its layout rerouted to avoid overwriting routes from the other results.
+  const originalEdges = new Set(edges);
+  results.forEach(({ updatedNodes, updatedEdges }) => {
+    updatedNodes.forEach(node => {
+      updatedNodesMap.set(node.id, node);
+    });
+    updatedEdges.forEach(edge => {
+      if (!originalEdges.has(edge)) {
+        updatedEdgesMap.set(edge.id, edge);
+      }
+    });
+  });
+
+  const updatedNodes = nodes.map(node =>
+    updatedNodesMap.has(node.id) ? updatedNodesMap.get(node.id)! : node
+  );
+  const updatedEdges = edges.map(edge =>
+    updatedEdgesMap.has(edge.id) ? updatedEdgesMap.get(edge.id)! : edge
+  );
+  return { nodes: updatedNodes, edges: updatedEdges };
+};
+
+/**
+ * Everything the layout pipeline needs besides the graph and its node maps
+ */
+export interface LayoutPipelineOptions {
+  direction: Direction;
+  engine: LayoutEngine;
+  layoutEngines: Record<string, LayoutEngine>; // Engines containers can select through data.layoutEngine
+  parentResizingOptions: ParentResizingOptions;
+  nodeSpacing: number;
+  layerSpacing: number;
+  nodeWidth: number;
+  nodeHeight: number;
+  layoutHidden: boolean;
+  noParentKey: string;
+  stableLayout: boolean;
+  autoGridLayout: boolean; // Pack containers without edges between their children in a grid
+  orthogonalRouting?: OrthogonalRoutingOptions;
+  layoutCache?: LayoutCache; // Reuses unchanged containers of full layouts
+}
+
+/**
+ * Last step of every layout: routes edges orthogonally when enabled, once every position and
+ * container size is final, and merges the laid out nodes and edges back into the full lists.
+ * Hidden nodes and edges that were not laid out are kept as they are: the result replaces the whole
+ * graph when committed, and leaving them out would delete hidden nodes such as collapsed children.
+ */
+export const finalizeLayout = (
+  nodes: Node[],
+  edges: Edge[],
+  updatedNodes: Node[],
+  updatedEdges: Edge[],
+  nodeIdWithNode: Map<string, Node>,
+  options: LayoutPipelineOptions,
+  signal?: AbortSignal
+): { nodes: Node[]; edges: Edge[] } => {
+  const { orthogonalRouting, nodeWidth, nodeHeight, layoutHidden, noParentKey } = options;
+
+  const routedEdges = orthogonalRouting?.enabled && !signal?.aborted
+    ? routeEdgesOrthogonally(updatedEdges, nodeIdWithNode, orthogonalRouting, nodeWidth, nodeHeight, layoutHidden, noParentKey)
+    : updatedEdges;
+
+  const updatedNodesById = new Map(updatedNodes.map(node => [node.id, node]));
+  const finalNodes = nodes.map(node => {
+    if (!layoutHidden && node.hidden) {
+      return node; // Keep hidden nodes as they are
+    }
+    return updatedNodesById.get(node.id) || node;
+  });
+  const routedEdgesById = new Map(routedEdges.map(edge => [edge.id, edge]));
+  const finalEdges = edges.map(edge => routedEdgesById.get(edge.id) || edge);
+
+  return { nodes: finalNodes, edges: finalEdges };
+};
+
+/**
+ * Runs the layout pipeline on the main thread: lays out the containers of the selected nodes and
+ * their ancestors, or the whole hierarchy from the deepest containers up, then finalizes the result.
+ * Has no React dependency; useLayoutCalculation and layoutGraph both run it.
+ * The node map is updated in place.
+ */
+export const runLayoutPipeline = async (
+  nodes: Node[],
+  edges: Edge[],
+  nodeParentIdMapWithChildIdSet: Map<string, Set<string>>,
+  nodeIdWithNode: Map<string, Node>,
+  options: LayoutPipelineOptions,
+  selectedNodes?: Node[],
+  signal?: AbortSignal
+): Promise<{ nodes: Node[]; edges: Edge[] }> => {
+  const { nodes: filteredNodes, edges: filteredEdges } = filterVisibleNodesAndEdges(nodes, edges, options.layoutHidden);
+
+  // The margin to use for layout
+  const margin = options.parentResizingOptions.padding.horizontal;
+
+  let updatedNodes: Node[] = [];
+  let updatedEdges: Edge[] = [];
+
+  if (selectedNodes && selectedNodes.length > 0) {
+    // Also filter selected nodes if needed
+    const filteredSelectedNodes = options.layoutHidden
+      ? selectedNodes
+      : selectedNodes.filter(node => !node.hidden);
+
+    const result = await processSelectedNodes(
+      filteredSelectedNodes,
+      {
+        dagreDirection: options.direction,
+        nodeParentIdMapWithChildIdSet,
+        nodeIdWithNode,
+        nodes: filteredNodes,
+        edges: filteredEdges,
+        margin,
+        nodeSpacing: options.nodeSpacing,
+        layerSpacing: options.layerSpacing,
+        nodeWidth: options.nodeWidth,
+        nodeHeight: options.nodeHeight,
+        layoutHidden: options.layoutHidden,
+        noParentKey: options.noParentKey,
+        layoutEngine: options.engine,
+        stableLayout: options.stableLayout,
+        layoutEngines: options.layoutEngines,
+        parentResizingOptions: options.parentResizingOptions,
+        autoGridLayout: options.autoGridLayout
+      },
+      signal
+    );
+
+    updatedNodes = result.nodes;
+    updatedEdges = result.edges;
+  } else {
+    // Check abort signal before starting tree-based layout
+    if (signal?.aborted) {
+      return { nodes, edges };
+    }
+
+    // Process the entire tree in depth order
+    const nodeTree = buildNodeTree(nodeParentIdMapWithChildIdSet, nodeIdWithNode, options.noParentKey);
+    const result = await organizeLayoutByTreeDepth(
+      nodeTree,
+      nodeParentIdMapWithChildIdSet,
+      nodeIdWithNode,
+      filteredEdges,
+      options
+    );
+
+    updatedNodes = result.updatedNodes;
+    updatedEdges = result.updatedEdges;
+  }
+
+  return finalizeLayout(nodes, edges, updatedNodes, updatedEdges, nodeIdWithNode, options, signal);
+};
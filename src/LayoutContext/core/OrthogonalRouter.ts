@@ -0,0 +1,670 @@
+import type { Edge, Node, Position, XYPosition } from "@xyflow/react";
+import { isCollapsedContainer } from "../utils/containerCollapse";
+import type { EdgeRoute } from "../utils/edgeRouting";
+import { findLCAWithChildren, getAncestorPath } from "../utils/treeUtils";
+
+/**
+ * Options of the orthogonal edge router
+ */
+export interface OrthogonalRoutingOptions {
+  enabled: boolean;
+  cornerRadius: number; // Radius of the rounded corners RoutedEdge draws at each bend
+  edgeSeparation: number; // Distance between parallel segments of different edges sharing a channel
+  nodeClearance: number; // Distance routes keep from the nodes and containers they pass
+}
+
+export const DEFAULT_ORTHOGONAL_ROUTING_OPTIONS: OrthogonalRoutingOptions = {
+  enabled: false,
+  cornerRadius: 8,
+  edgeSeparation: 8,
+  nodeClearance: 16,
+};
+
+interface Obstacle {
+  id: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Right, down, left, up
+const DIRECTIONS: XYPosition[] = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 0, y: -1 }];
+// Keyed by the handle position values; only types are imported from React Flow so the router runs headless
+const PORT_DIRECTIONS: Record<string, number> = {
+  right: 0,
+  bottom: 1,
+  left: 2,
+  top: 3,
+};
+const BEND_PENALTY = 40;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getNodeSize = (node: Node, defaultNodeWidth: number, defaultNodeHeight: number) => ({
+  width: Number(node.style?.width) || node.width || node.measured?.width || defaultNodeWidth,
+  height: Number(node.style?.height) || node.height || node.measured?.height || defaultNodeHeight,
+});
+
+/**
+ * Absolute boxes of all visible nodes, resolved through their parent chain
+ */
+const getAbsoluteBoxes = (
+  nodeIdWithNode: Map<string, Node>,
+  defaultNodeWidth: number,
+  defaultNodeHeight: number,
+  includeHidden: boolean
+): Map<string, Obstacle> => {
+  const absolutePositions = new Map<string, XYPosition>();
+  const getAbsolutePosition = (node: Node, visited: Set<string> = new Set()): XYPosition => {
+    const cached = absolutePositions.get(node.id);
+    if (cached) {
+      return cached;
+    }
+    visited.add(node.id);
+    const parent = node.parentId ? nodeIdWithNode.get(node.parentId) : undefined;
+    const parentPosition = parent && !visited.has(parent.id) ? getAbsolutePosition(parent, visited) : { x: 0, y: 0 };
+    const position = { x: parentPosition.x + node.position.x, y: parentPosition.y + node.position.y };
+    absolutePositions.set(node.id, position);
+    return position;
+  };
+
+  const boxes = new Map<string, Obstacle>();
+  nodeIdWithNode.forEach(node => {
+    if (node.hidden && !includeHidden) {
+      return;
+    }
+    const { x, y } = getAbsolutePosition(node);
+    const { width, height } = getNodeSize(node, defaultNodeWidth, defaultNodeHeight);
+    boxes.set(node.id, { id: node.id, x1: x, y1: y, x2: x + width, y2: y + height });
+  });
+  return boxes;
+};
+
+/**
+ * Center of the side a handle sits on, and the outward direction of that side
+ */
+const getPort = (box: Obstacle, position: Position): { point: XYPosition; direction: number } => {
+  const centerX = round((box.x1 + box.x2) / 2);
+  const centerY = round((box.y1 + box.y2) / 2);
+  switch (position) {
+    case 'top':
+      return { point: { x: centerX, y: round(box.y1) }, direction: PORT_DIRECTIONS[position] };
+    case 'left':
+      return { point: { x: round(box.x1), y: centerY }, direction: PORT_DIRECTIONS[position] };
+    case 'right':
+      return { point: { x: round(box.x2), y: centerY }, direction: PORT_DIRECTIONS[position] };
+    case 'bottom':
+    default:
+      return { point: { x: centerX, y: round(box.y2) }, direction: PORT_DIRECTIONS.bottom };
+  }
+};
+
+const step = (point: XYPosition, direction: number, distance: number): XYPosition => ({
+  x: round(point.x + DIRECTIONS[direction].x * distance),
+  y: round(point.y + DIRECTIONS[direction].y * distance),
+});
+
+/**
+ * Removes points that lie on a straight line between their neighbours
+ */
+const simplifyPath = (points: XYPosition[]): XYPosition[] => points.filter((point, index) => {
+  if (index === 0 || index === points.length - 1) {
+    return true;
+  }
+  const previous = points[index - 1];
+  const next = points[index + 1];
+  return !((previous.x === point.x && point.x === next.x) || (previous.y === point.y && point.y === next.y));
+});
+
+interface Bounds {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Search state of one routing pass. The arrays grow to the largest grid searched so far
+ * and are reused for every edge instead of being allocated per search.
+ */
+interface SearchBuffers {
+  costs: Float64Array;
+  previous: Int32Array;
+  horizontalBlocked: Uint8Array;
+  verticalBlocked: Uint8Array;
+  heap: [number, number][];
+}
+
+const createSearchBuffers = (): SearchBuffers => ({
+  costs: new Float64Array(0),
+  previous: new Int32Array(0),
+  horizontalBlocked: new Uint8Array(0),
+  verticalBlocked: new Uint8Array(0),
+  heap: [],
+});
+
+const reserveSearchBuffers = (buffers: SearchBuffers, size: number) => {
+  if (buffers.horizontalBlocked.length < size) {
+    const capacity = Math.max(size, buffers.horizontalBlocked.length * 2);
+    buffers.costs = new Float64Array(capacity * 4);
+    buffers.previous = new Int32Array(capacity * 4);
+    buffers.horizontalBlocked = new Uint8Array(capacity);
+    buffers.verticalBlocked = new Uint8Array(capacity);
+  }
+  buffers.costs.fill(Number.POSITIVE_INFINITY, 0, size * 4);
+  buffers.previous.fill(-1, 0, size * 4);
+  buffers.horizontalBlocked.fill(0, 0, size);
+  buffers.verticalBlocked.fill(0, 0, size);
+  buffers.heap.length = 0;
+};
+
+const intersects = (obstacle: Obstacle, bounds: Bounds) =>
+  obstacle.x1 < bounds.x2 && obstacle.x2 > bounds.x1 && obstacle.y1 < bounds.y2 && obstacle.y2 > bounds.y1;
+
+/**
+ * Sparse orthogonal grid through the borders (offset by the clearance) of the obstacles within the bounds,
+ * the given points and the bounds themselves. A segment is blocked when it lies strictly inside an
+ * obstacle that is not ignored; obstacles reaching past the bounds block the bounds' own lines too.
+ */
+const createRoutingGrid = (
+  obstacles: Obstacle[],
+  ignoredObstacles: Set<number>,
+  points: XYPosition[],
+  bounds: Bounds,
+  buffers: SearchBuffers
+) => {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+  const inBounds = obstacles.flatMap((obstacle, index) => intersects(obstacle, bounds) ? [index] : []);
+  const xValues = new Set<number>([bounds.x1, bounds.x2]);
+  const yValues = new Set<number>([bounds.y1, bounds.y2]);
+  inBounds.forEach(index => {
+    const { x1, y1, x2, y2 } = obstacles[index];
+    xValues.add(clamp(x1, bounds.x1, bounds.x2)).add(clamp(x2, bounds.x1, bounds.x2));
+    yValues.add(clamp(y1, bounds.y1, bounds.y2)).add(clamp(y2, bounds.y1, bounds.y2));
+  });
+  points.forEach(({ x, y }) => {
+    xValues.add(x);
+    yValues.add(y);
+  });
+
+  const xs = [...xValues].sort((a, b) => a - b);
+  const ys = [...yValues].sort((a, b) => a - b);
+  const xIndex = new Map(xs.map((x, index) => [x, index]));
+  const yIndex = new Map(ys.map((y, index) => [y, index]));
+  const columnCount = ys.length;
+  const size = xs.length * ys.length;
+  reserveSearchBuffers(buffers, size);
+  const { horizontalBlocked, verticalBlocked } = buffers;
+
+  // Horizontal segment (i, j)->(i + 1, j) and vertical segment (i, j)->(i, j + 1)
+  inBounds.forEach(index => {
+    if (ignoredObstacles.has(index)) {
+      return;
+    }
+    const obstacle = obstacles[index];
+    const i1 = xIndex.get(clamp(obstacle.x1, bounds.x1, bounds.x2))!;
+    const i2 = xIndex.get(clamp(obstacle.x2, bounds.x1, bounds.x2))!;
+    const j1 = yIndex.get(clamp(obstacle.y1, bounds.y1, bounds.y2))!;
+    const j2 = yIndex.get(clamp(obstacle.y2, bounds.y1, bounds.y2))!;
+    // Lines on a clamped border lie inside the obstacle
+    const iInside1 = obstacle.x1 < bounds.x1 ? i1 : i1 + 1;
+    const iInside2 = obstacle.x2 > bounds.x2 ? i2 : i2 - 1;
+    const jInside1 = obstacle.y1 < bounds.y1 ? j1 : j1 + 1;
+    const jInside2 = obstacle.y2 > bounds.y2 ? j2 : j2 - 1;
+    for (let i = i1; i < i2; i++) {
+      for (let j = jInside1; j <= jInside2; j++) {
+        horizontalBlocked[i * columnCount + j] = 1;
+      }
+    }
+    for (let i = iInside1; i <= iInside2; i++) {
+      for (let j = j1; j < j2; j++) {
+        verticalBlocked[i * columnCount + j] = 1;
+      }
+    }
+  });
+
+  return { xs, ys, xIndex, yIndex, columnCount, horizontalBlocked, verticalBlocked };
+};
+
+type RoutingGrid = ReturnType<typeof createRoutingGrid>;
+
+/**
+ * A* search over the routing grid for the shortest path with the fewest bends.
+ * The search leaves the start in the source port's direction and is charged for a bend
+ * when it does not arrive in the target port's inward direction.
+ */
+const findOrthogonalPath = (
+  grid: RoutingGrid,
+  buffers: SearchBuffers,
+  start: XYPosition,
+  startDirection: number,
+  goal: XYPosition,
+  goalDirection: number
+): XYPosition[] | null => {
+  const { xs, ys, xIndex, yIndex, columnCount, horizontalBlocked, verticalBlocked } = grid;
+  const { costs, previous, heap } = buffers;
+  const startIndex = xIndex.get(start.x)! * columnCount + yIndex.get(start.y)!;
+  const goalIndex = xIndex.get(goal.x)! * columnCount + yIndex.get(goal.y)!;
+
+  const heuristic = (pointIndex: number) =>
+    Math.abs(xs[Math.floor(pointIndex / columnCount)] - goal.x) + Math.abs(ys[pointIndex % columnCount] - goal.y);
+
+  const push = (priority: number, state: number) => {
+    heap.push([priority, state]);
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent][0] <= heap[index][0]) break;
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === index) break;
+        [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  };
+
+  const startState = startIndex * 4 + startDirection;
+  costs[startState] = 0;
+  push(heuristic(startIndex), startState);
+
+  let bestGoalState = -1;
+  let bestGoalCost = Number.POSITIVE_INFINITY;
+
+  while (heap.length > 0) {
+    const [priority, state] = pop();
+    if (priority >= bestGoalCost) {
+      break;
+    }
+    const pointIndex = state >> 2;
+    const direction = state & 3;
+    const cost = costs[state];
+    if (priority > cost + heuristic(pointIndex)) {
+      continue; // Stale heap entry
+    }
+
+    if (pointIndex === goalIndex) {
+      const goalCost = cost + (direction === goalDirection ? 0 : BEND_PENALTY);
+      if (goalCost < bestGoalCost) {
+        bestGoalCost = goalCost;
+        bestGoalState = state;
+      }
+      continue;
+    }
+
+    const i = Math.floor(pointIndex / columnCount);
+    const j = pointIndex % columnCount;
+    for (let nextDirection = 0; nextDirection < 4; nextDirection++) {
+      if (nextDirection === (direction + 2) % 4) {
+        continue; // No U-turns
+      }
+      const { x: dx, y: dy } = DIRECTIONS[nextDirection];
+      const nextI = i + dx;
+      const nextJ = j + dy;
+      if (nextI < 0 || nextI >= xs.length || nextJ < 0 || nextJ >= ys.length) {
+        continue;
+      }
+      const blocked = dx !== 0
+        ? horizontalBlocked[Math.min(i, nextI) * columnCount + j]
+        : verticalBlocked[i * columnCount + Math.min(j, nextJ)];
+      if (blocked) {
+        continue;
+      }
+
+      const nextIndex = nextI * columnCount + nextJ;
+      const nextState = nextIndex * 4 + nextDirection;
+      const nextCost = cost
+        + Math.abs(xs[nextI] - xs[i]) + Math.abs(ys[nextJ] - ys[j])
+        + (nextDirection === direction ? 0 : BEND_PENALTY);
+      if (nextCost < costs[nextState]) {
+        costs[nextState] = nextCost;
+        previous[nextState] = state;
+        push(nextCost + heuristic(nextIndex), nextState);
+      }
+    }
+  }
+
+  if (bestGoalState === -1) {
+    return null;
+  }
+
+  const path: XYPosition[] = [];
+  for (let state = bestGoalState; state !== -1; state = previous[state]) {
+    const pointIndex = state >> 2;
+    path.push({ x: xs[Math.floor(pointIndex / columnCount)], y: ys[pointIndex % columnCount] });
+  }
+  return path.reverse();
+};
+
+/**
+ * Routes between two stubs, searching only around the stubs first: within their bounding box grown by
+ * a margin, then by four times the margin, then within the whole extent, which the search never leaves.
+ * Routes that fit near their endpoints never pay for the rest of the diagram.
+ */
+const routeBetween = (
+  obstacles: Obstacle[],
+  extent: Bounds,
+  buffers: SearchBuffers,
+  start: XYPosition,
+  startDirection: number,
+  goal: XYPosition,
+  goalDirection: number,
+  ignoredObstacles: Set<number>,
+  clearance: number
+): XYPosition[] | null => {
+  // A stub sealed inside another obstacle is unreachable; searching for it would visit the whole diagram
+  const isSealed = ({ x, y }: XYPosition) => obstacles.some((obstacle, index) =>
+    !ignoredObstacles.has(index) && obstacle.x1 < x && x < obstacle.x2 && obstacle.y1 < y && y < obstacle.y2);
+  if (isSealed(start) || isSealed(goal)) {
+    return null;
+  }
+  const box = {
+    x1: Math.min(start.x, goal.x),
+    y1: Math.min(start.y, goal.y),
+    x2: Math.max(start.x, goal.x),
+    y2: Math.max(start.y, goal.y),
+  };
+  const margin = clearance * 4;
+  for (const factor of [1, 4, Number.POSITIVE_INFINITY]) {
+    const grow = margin * factor;
+    const bounds = factor === Number.POSITIVE_INFINITY ? extent : {
+      x1: Math.max(extent.x1, round(box.x1 - grow)),
+      y1: Math.max(extent.y1, round(box.y1 - grow)),
+      x2: Math.min(extent.x2, round(box.x2 + grow)),
+      y2: Math.min(extent.y2, round(box.y2 + grow)),
+    };
+    const grid = createRoutingGrid(obstacles, ignoredObstacles, [start, goal], bounds, buffers);
+    const path = findOrthogonalPath(grid, buffers, start, startDirection, goal, goalDirection);
+    if (path || (bounds.x1 <= extent.x1 && bounds.y1 <= extent.y1 && bounds.x2 >= extent.x2 && bounds.y2 >= extent.y2)) {
+      return path;
+    }
+  }
+  return null;
+};
+
+/**
+ * Spreads parallel segments of different edges that share a channel by edgeSeparation.
+ * Only inner segments move (never the ones attached to the handles), and only perpendicular
+ * to themselves, so every route stays orthogonal.
+ */
+const separateParallelSegments = (routes: Map<string, XYPosition[]>, edgeSeparation: number) => {
+  (['horizontal', 'vertical'] as const).forEach(orientation => {
+    const along = orientation === 'horizontal' ? 'x' : 'y';
+    const across = orientation === 'horizontal' ? 'y' : 'x';
+    const channels = new Map<number, { edgeId: string; index: number; start: number; end: number }[]>();
+
+    routes.forEach((points, edgeId) => {
+      for (let index = 1; index < points.length - 2; index++) {
+        const from = points[index];
+        const to = points[index + 1];
+        if (from[across] !== to[across]) {
+          continue;
+        }
+        const segments = channels.get(from[across]) || [];
+        segments.push({ edgeId, index, start: Math.min(from[along], to[along]), end: Math.max(from[along], to[along]) });
+        channels.set(from[across], segments);
+      }
+    });
+
+    channels.forEach(segments => {
+      segments.sort((a, b) => a.start - b.start || a.edgeId.localeCompare(b.edgeId));
+      let cluster: typeof segments = [];
+      let clusterEnd = Number.NEGATIVE_INFINITY;
+
+      const spreadCluster = () => {
+        const edgeIds = [...new Set(cluster.map(segment => segment.edgeId))].sort();
+        if (edgeIds.length > 1) {
+          cluster.forEach(({ edgeId, index }) => {
+            const offset = (edgeIds.indexOf(edgeId) - (edgeIds.length - 1) / 2) * edgeSeparation;
+            const points = routes.get(edgeId)!;
+            points[index] = { ...points[index], [across]: points[index][across] + offset };
+            points[index + 1] = { ...points[index + 1], [across]: points[index + 1][across] + offset };
+          });
+        }
+      };
+
+      segments.forEach(segment => {
+        if (segment.start >= clusterEnd) {
+          spreadCluster();
+          cluster = [];
+        }
+        cluster.push(segment);
+        clusterEnd = Math.max(clusterEnd, segment.end);
+      });
+      spreadCluster();
+    });
+  });
+};
+
+/**
+ * Routes edges with right angles around every node and container on absolute coordinates.
+ * Meant to run after organizeLayoutByTreeDepth, once all positions and container sizes are final.
+ * The containers holding an edge's endpoints are not obstacles for that edge, everything else is.
+ * Each route leaves and enters through the handles' sides (sourcePosition / targetPosition) and is
+ * written into `edge.data.waypoints` relative to the edges' lowest common ancestor, like the engine routes,
+ * together with `edge.data.cornerRadius`, and drops the engine's `edge.data.labelPosition`.
+ * Edges the router cannot route keep their data.
+ */
+export const routeEdgesOrthogonally = (
+  edges: Edge[],
+  nodeIdWithNode: Map<string, Node>,
+  options: Omit<OrthogonalRoutingOptions, 'enabled'> = DEFAULT_ORTHOGONAL_ROUTING_OPTIONS,
+  defaultNodeWidth: number = 172,
+  defaultNodeHeight: number = 36,
+  includeHidden: boolean = false,
+  noParentKey: string = 'no-parent'
+): Edge[] => {
+  const { cornerRadius, edgeSeparation, nodeClearance } = options;
+  const boxes = getAbsoluteBoxes(nodeIdWithNode, defaultNodeWidth, defaultNodeHeight, includeHidden);
+
+  const obstacles: Obstacle[] = [...boxes.values()].map(box => ({
+    id: box.id,
+    x1: round(box.x1 - nodeClearance),
+    y1: round(box.y1 - nodeClearance),
+    x2: round(box.x2 + nodeClearance),
+    y2: round(box.y2 + nodeClearance),
+  }));
+  const obstacleIndex = new Map(obstacles.map((obstacle, index) => [obstacle.id, index]));
+
+  // Each edge leaves its source and enters its target through a short stub outside the clearance
+  const requests = edges.flatMap(edge => {
+    const sourceBox = boxes.get(edge.source);
+    const targetBox = boxes.get(edge.target);
+    if (!sourceBox || !targetBox || edge.source === edge.target) {
+      return [];
+    }
+    const source = getPort(sourceBox, nodeIdWithNode.get(edge.source)!.sourcePosition ?? 'bottom' as Position);
+    const target = getPort(targetBox, nodeIdWithNode.get(edge.target)!.targetPosition ?? 'top' as Position);
+    const ancestors = [
+      ...getAncestorPath(edge.source, nodeIdWithNode, noParentKey).slice(1),
+      ...getAncestorPath(edge.target, nodeIdWithNode, noParentKey).slice(1),
+    ];
+    return [{
+      edge,
+      source,
+      target,
+      sourceStub: step(source.point, source.direction, nodeClearance),
+      targetStub: step(target.point, target.direction, nodeClearance),
+      ignoredObstacles: new Set(ancestors.filter(id => obstacleIndex.has(id)).map(id => obstacleIndex.get(id)!)),
+    }];
+  });
+  if (requests.length === 0) {
+    return edges;
+  }
+
+  // A frame around everything so routes can always go around the outside
+  const frame = nodeClearance * 2;
+  const points = requests.flatMap(request => [request.sourceStub, request.targetStub]);
+  const extent = {
+    x1: round(Math.min(...obstacles.map(obstacle => obstacle.x1), ...points.map(point => point.x)) - frame),
+    y1: round(Math.min(...obstacles.map(obstacle => obstacle.y1), ...points.map(point => point.y)) - frame),
+    x2: round(Math.max(...obstacles.map(obstacle => obstacle.x2), ...points.map(point => point.x)) + frame),
+    y2: round(Math.max(...obstacles.map(obstacle => obstacle.y2), ...points.map(point => point.y)) + frame),
+  };
+  const buffers = createSearchBuffers();
+
+  const routes = new Map<string, XYPosition[]>();
+  requests.forEach(({ edge, source, target, sourceStub, targetStub, ignoredObstacles }) => {
+    const path = routeBetween(
+      obstacles, extent, buffers,
+      sourceStub, source.direction, targetStub, (target.direction + 2) % 4,
+      ignoredObstacles, nodeClearance
+    );
+    if (path) {
+      routes.set(edge.id, simplifyPath([source.point, ...path, target.point]));
+    }
+  });
+
+  separateParallelSegments(routes, edgeSeparation);
+
+  return edges.map(edge => {
+    const route = routes.get(edge.id);
+    if (!route) {
+      return edge;
+    }
+    const { lca } = findLCAWithChildren(edge.source, edge.target, nodeIdWithNode, noParentKey);
+    const origin = lca && lca !== noParentKey ? boxes.get(lca) : undefined;
+    const data = { ...edge.data };
+    delete data.waypointsParentId;
+    // The engine's label space lies on the old route, so the label falls back to the new route's midpoint
+    delete data.labelPosition;
+    return {
+      ...edge,
+      data: {
+        ...data,
+        waypoints: route.slice(1, -1).map(point => ({
+          x: point.x - (origin?.x1 ?? 0),
+          y: point.y - (origin?.y1 ?? 0),
+        })),
+        ...(origin ? { waypointsParentId: origin.id } : {}),
+        cornerRadius,
+      },
+    };
+  });
+};
+
+/**
+ * Continues engine routes that stop on the border of a container holding the edge's real endpoint.
+ * Inside every container on the way down, the route goes with right angles from where it crossed the
+ * border to the handle side of the next container or of the endpoint, around the other children and
+ * `getClearance(containerId)` away from them and from the border. The segments are converted into the
+ * coordinates of the route's container and added to its waypoints; below a level where nothing fits, or
+ * a collapsed container, the edge renderer draws a straight line as before.
+ * Reads the final positions and sizes of the containers below, so it runs once those are laid out.
+ */
+export const extendRoutesIntoContainers = (
+  routes: EdgeRoute[],
+  layoutedEdges: Edge[],
+  nodeIdWithNode: Map<string, Node>,
+  nodeParentIdMapWithChildIdSet: Map<string, Set<string>>,
+  getClearance: (containerId: string) => number,
+  defaultNodeWidth: number = 172,
+  defaultNodeHeight: number = 36,
+  includeHidden: boolean = false,
+  noParentKey: string = 'no-parent'
+): EdgeRoute[] => {
+  const buffers = createSearchBuffers();
+  const getBox = (node: Node): Obstacle => {
+    const { width, height } = getNodeSize(node, defaultNodeWidth, defaultNodeHeight);
+    return { id: node.id, x1: node.position.x, y1: node.position.y, x2: node.position.x + width, y2: node.position.y + height };
+  };
+
+  // Path in the container's coordinates from the nearest point on its border to the handle side of the child
+  const routeIntoChild = (container: Node, entry: XYPosition, child: Node, handle: Position): XYPosition[] | null => {
+    const { width, height } = getNodeSize(container, defaultNodeWidth, defaultNodeHeight);
+    const clearance = getClearance(container.id);
+    const obstacles = [...nodeParentIdMapWithChildIdSet.get(container.id) ?? []].flatMap(childId => {
+      const node = nodeIdWithNode.get(childId);
+      if (!node || (node.hidden && !includeHidden)) {
+        return [];
+      }
+      const { x1, y1, x2, y2 } = getBox(node);
+      return [{ id: node.id, x1: round(x1 - clearance), y1: round(y1 - clearance), x2: round(x2 + clearance), y2: round(y2 + clearance) }];
+    });
+
+    // Distances to the left, top, right and bottom side; the route enters through the nearest one
+    const distances = [entry.x, entry.y, width - entry.x, height - entry.y];
+    const direction = distances.indexOf(Math.min(...distances));
+    const x = round(Math.min(width, Math.max(0, entry.x)));
+    const y = round(Math.min(height, Math.max(0, entry.y)));
+    const border = [{ x: 0, y }, { x, y: 0 }, { x: width, y }, { x, y: height }][direction];
+    const port = getPort(getBox(child), handle);
+
+    const path = routeBetween(
+      obstacles, { x1: 0, y1: 0, x2: width, y2: height }, buffers,
+      step(border, direction, clearance), direction, step(port.point, port.direction, clearance), (port.direction + 2) % 4,
+      new Set(), clearance
+    );
+    return path && simplifyPath([border, ...path, port.point]);
+  };
+
+  // Points from the border of the container the projection ends on down to the endpoint's handle,
+  // relative to the route's container. The endpoint's handle itself is left to the edge renderer.
+  const descend = (projectedId: string, endpointId: string, entry: XYPosition, side: 'source' | 'target'): XYPosition[] => {
+    const ancestors = getAncestorPath(endpointId, nodeIdWithNode, noParentKey);
+    const chain = ancestors.slice(0, ancestors.indexOf(projectedId) + 1).reverse();
+    const points: XYPosition[] = [];
+    let offset: XYPosition = { x: 0, y: 0 };
+    let current = entry;
+    for (let level = 0; level < chain.length - 1; level++) {
+      const container = nodeIdWithNode.get(chain[level]);
+      const child = nodeIdWithNode.get(chain[level + 1]);
+      if (!container || !child || isCollapsedContainer(container)) {
+        break;
+      }
+      offset = { x: offset.x + container.position.x, y: offset.y + container.position.y };
+      const handle = side === 'source' ? child.sourcePosition ?? 'bottom' as Position : child.targetPosition ?? 'top' as Position;
+      const segment = routeIntoChild(container, { x: current.x - offset.x, y: current.y - offset.y }, child, handle);
+      if (!segment) {
+        break;
+      }
+      const isEndpoint = level === chain.length - 2;
+      const relative = segment.map(point => ({ x: round(point.x + offset.x), y: round(point.y + offset.y) }));
+      points.push(...(points.length > 0 ? relative.slice(1) : relative).slice(0, isEndpoint ? -1 : undefined));
+      current = relative[relative.length - 1];
+    }
+    return points;
+  };
+
+  const edgeById = new Map(layoutedEdges
+    .filter(edge => typeof edge.data?.originalEdgeId === 'string' && !edge.data?.isSyntheticBridge)
+    .map(edge => [edge.data!.originalEdgeId as string, edge]));
+
+  return routes.map(route => {
+    const edge = edgeById.get(route.edgeId);
+    if (!edge || route.waypoints.length === 0) {
+      return route;
+    }
+    const { waypoints } = route;
+    const originalSource = String(edge.data?.originalSource ?? edge.source);
+    const originalTarget = String(edge.data?.originalTarget ?? edge.target);
+    const sourcePoints = edge.source !== originalSource
+      ? descend(edge.source, originalSource, waypoints[0], 'source').reverse()
+      : [];
+    const targetPoints = edge.target !== originalTarget
+      ? descend(edge.target, originalTarget, waypoints[waypoints.length - 1], 'target')
+      : [];
+    if (sourcePoints.length === 0 && targetPoints.length === 0) {
+      return route;
+    }
+    // The descent starts on the border points the engine's route ends on, so those are replaced
+    const inner = waypoints.slice(sourcePoints.length > 0 ? 1 : 0, targetPoints.length > 0 ? -1 : undefined);
+    return { ...route, waypoints: [...sourcePoints, ...inner, ...targetPoints] };
+  });
+};
@@ -0,0 +1,167 @@
+import { Edge, Node } from "@xyflow/react";
+import { LayoutResult, resolveNodePosition } from "./Dagre";
+import type { LayoutEngineOptions } from "../context/LayoutContext";
+import { convertDirectionToLayout, getSourcePosition, getTargetPosition } from "../utils/layoutProviderUtils";
+
+export interface RadialSettings {
+  rootId?: string; // Node placed at the center; data.layoutRoot or the highest degree node when omitted
+  startAngle?: number; // Radians, angle of the first node on each ring; defaults to the top (-PI / 2)
+}
+
+/**
+ * Picks the center node: the one with a truthy `data.layoutRoot`, then settings.rootId,
+ * then the node with the most edges. Ties keep the input order.
+ */
+const findRoot = (nodes: Node[], degree: Map<string, number>, rootId?: string): Node => {
+  const marked = nodes.find(node => node.data?.layoutRoot);
+  if (marked) {
+    return marked;
+  }
+  const configured = rootId ? nodes.find(node => node.id === rootId) : undefined;
+  if (configured) {
+    return configured;
+  }
+  return nodes.reduce((best, node) => (degree.get(node.id)! > degree.get(best.id)! ? node : best), nodes[0]);
+};
+
+/**
+ * Places the root at the center and every other node on a ring given by its BFS distance from the root,
+ * with edges treated as undirected. Each ring follows the angle of the parent that reached its nodes first,
+ * which keeps spokes from crossing. Nodes not connected to the root go on one more ring outside the others.
+ * Rings are spaced by layerSpacing and grow to fit their nodes with nodeSpacing between them.
+ */
+export const calculateLayoutWithRadial = async (
+  nodes: Node[],
+  edges: Edge[],
+  options: LayoutEngineOptions,
+  settings: RadialSettings = {}
+): Promise<LayoutResult> => {
+  const { direction, margin, nodeSpacing, layerSpacing, nodeWidth, nodeHeight, includeHidden } = options;
+  const startAngle = settings.startAngle ?? -Math.PI / 2;
+
+  const nodesToLayout = includeHidden ? nodes : nodes.filter(node => !node.hidden);
+  if (nodesToLayout.length === 0) {
+    return { nodes: [], edges: [], width: 0, height: 0 };
+  }
+
+  const nodeIds = new Set(nodesToLayout.map(node => node.id));
+  const neighbors = new Map<string, string[]>(nodesToLayout.map(node => [node.id, []]));
+  edges.forEach(edge => {
+    if (edge.source !== edge.target && nodeIds.has(edge.source) && nodeIds.has(edge.target)) {
+      neighbors.get(edge.source)!.push(edge.target);
+      neighbors.get(edge.target)!.push(edge.source);
+    }
+  });
+  const degree = new Map([...neighbors].map(([id, adjacent]) => [id, adjacent.length]));
+  const root = findRoot(nodesToLayout, degree, settings.rootId);
+
+  // Breadth-first distances from the root, remembering the node that reached each one first
+  const distance = new Map<string, number>([[root.id, 0]]);
+  const parent = new Map<string, string>();
+  const queue = [root.id];
+  for (let index = 0; index < queue.length; index++) {
+    const id = queue[index];
+    neighbors.get(id)!.forEach(neighbor => {
+      if (!distance.has(neighbor)) {
+        distance.set(neighbor, distance.get(id)! + 1);
+        parent.set(neighbor, id);
+        queue.push(neighbor);
+      }
+    });
+  }
+  const outerRing = Math.max(...distance.values()) + 1;
+
+  const sizes = new Map(nodesToLayout.map(node => [node.id, {
+    w: Number(node.style?.width) || nodeWidth,
+    h: Number(node.style?.height) || nodeHeight,
+  }]));
+  // Radius of the circle around a node, so it clears its neighbors whatever its angle on the ring
+  const extent = (id: string) => Math.hypot(sizes.get(id)!.w, sizes.get(id)!.h) / 2;
+
+  const rings: string[][] = [];
+  nodesToLayout.forEach(node => {
+    const ring = distance.get(node.id) ?? outerRing;
+    (rings[ring] = rings[ring] || []).push(node.id);
+  });
+
+  const angles = new Map<string, number>([[root.id, startAngle]]);
+  const centers = new Map<string, { x: number; y: number }>([[root.id, { x: 0, y: 0 }]]);
+  let previousRadius = 0;
+  let previousExtent = extent(root.id);
+
+  rings.forEach((ring, ringIndex) => {
+    if (ringIndex === 0 || !ring) {
+      return;
+    }
+    // Children follow their parent around the ring; input order breaks ties
+    const ordered = ring
+      .map((id, order) => ({ id, order, angle: angles.get(parent.get(id) ?? '') ?? Number.POSITIVE_INFINITY }))
+      .sort((a, b) => a.angle - b.angle || a.order - b.order)
+      .map(({ id }) => id);
+
+    // Each node gets a share of the ring proportional to its size, the first one at the start angle
+    const arcs = ordered.map(id => extent(id) * 2 + nodeSpacing);
+    const circumference = arcs.reduce((sum, arc) => sum + arc, 0);
+    let offset = 0;
+    const ringAngles = arcs.map(arc => {
+      const angle = startAngle + ((offset + arc / 2 - arcs[0] / 2) / circumference) * 2 * Math.PI;
+      offset += arc;
+      return angle;
+    });
+
+    // Far enough out to clear the previous ring, and for the chord between neighbors to fit both nodes
+    const ringExtent = Math.max(...ordered.map(extent));
+    let radius = previousRadius + previousExtent + layerSpacing + ringExtent;
+    if (ordered.length > 1) {
+      ordered.forEach((id, index) => {
+        const next = (index + 1) % ordered.length;
+        const gap = (ringAngles[next] - ringAngles[index] + 2 * Math.PI) % (2 * Math.PI);
+        radius = Math.max(radius, (extent(id) + extent(ordered[next]) + nodeSpacing) / (2 * Math.sin(gap / 2)));
+      });
+    }
+
+    ordered.forEach((id, index) => {
+      angles.set(id, ringAngles[index]);
+      centers.set(id, { x: radius * Math.cos(ringAngles[index]), y: radius * Math.sin(ringAngles[index]) });
+    });
+
+    previousRadius = radius;
+    previousExtent = ringExtent;
+  });
+
+  // Shift everything so the bounding box starts at the margin
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  centers.forEach((center, id) => {
+    const { w, h } = sizes.get(id)!;
+    minX = Math.min(minX, center.x - w / 2);
+    minY = Math.min(minY, center.y - h / 2);
+    maxX = Math.max(maxX, center.x + w / 2);
+    maxY = Math.max(maxY, center.y + h / 2);
+  });
+
+  const layoutDirection = convertDirectionToLayout(direction);
+  const sourcePosition = getSourcePosition(layoutDirection);
+  const targetPosition = getTargetPosition(layoutDirection);
+
+  const newNodes = nodesToLayout.map((node): Node => {
+    const { w, h } = sizes.get(node.id)!;
+    const center = centers.get(node.id)!;
+    return {
+      ...node,
+      sourcePosition,
+      targetPosition,
+      selected: false,
+      position: resolveNodePosition(node, center.x - minX + margin, center.y - minY + margin, w, h),
+    };
+  });
+
+  return {
+    nodes: newNodes,
+    edges,
+    width: maxX - minX + margin * 2,
+    height: maxY - minY + margin * 2,
+  };
+};
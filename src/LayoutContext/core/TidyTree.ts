@@ -0,0 +1,207 @@
+import { Edge, Node } from "@xyflow/react";
+import { calculateLayoutWithDagre, LayoutResult, resolveNodePosition } from "./Dagre";
+import type { LayoutEngineOptions } from "../context/LayoutContext";
+import { convertDirectionToLayout, getSourcePosition, getTargetPosition } from "../utils/layoutProviderUtils";
+
+export interface TidyTreeSettings {
+  siblingSeparation?: number; // Gap between nodes with the same parent, defaults to nodeSpacing
+  subtreeSeparation?: number; // Gap between neighboring subtrees below their roots and between trees, defaults to nodeSpacing
+}
+
+interface Forest {
+  roots: string[];
+  children: Map<string, string[]>;
+}
+
+/**
+ * Reads the edges as parent -> child links. Returns null unless they form a forest: every node has
+ * at most one parent and following parents never loops. Duplicate edges and self loops are ignored.
+ */
+export const buildForest = (nodeIds: string[], edges: Edge[]): Forest | null => {
+  const ids = new Set(nodeIds);
+  const parents = new Map<string, string>();
+  const children = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.source === edge.target || !ids.has(edge.source) || !ids.has(edge.target)) {
+      continue;
+    }
+    const parent = parents.get(edge.target);
+    if (parent === edge.source) {
+      continue;
+    }
+    if (parent !== undefined) {
+      return null;
+    }
+    parents.set(edge.target, edge.source);
+    children.set(edge.source, [...(children.get(edge.source) ?? []), edge.target]);
+  }
+
+  // Every node of a forest is reachable from a node without a parent; nodes on a cycle are not
+  const roots = nodeIds.filter(id => !parents.has(id));
+  let reached = 0;
+  const queue = [...roots];
+  while (queue.length > 0) {
+    reached++;
+    queue.push(...(children.get(queue.shift()!) ?? []));
+  }
+  return reached === nodeIds.length ? { roots, children } : null;
+};
+
+// Horizontal extent of a subtree per depth, relative to its root's center
+interface Contour {
+  offsets: Map<string, number>; // Center of every node of the subtree along the breadth axis
+  left: number[];
+  right: number[];
+}
+
+/**
+ * Places contours side by side as close as their separation allows at every depth they share,
+ * the way Reingold–Tilford combines subtrees. Returns the combined contour and each subtree's shift.
+ */
+const placeSideBySide = (
+  contours: Contour[],
+  firstLevelSeparation: number,
+  deeperSeparation: number
+): { contour: Contour; shifts: number[] } => {
+  const offsets = new Map<string, number>();
+  const left: number[] = [];
+  const right: number[] = [];
+  const shifts = contours.map((contour, index) => {
+    let shift = 0;
+    if (index > 0) {
+      shift = Number.NEGATIVE_INFINITY;
+      for (let depth = 0; depth < Math.min(right.length, contour.left.length); depth++) {
+        const separation = depth === 0 ? firstLevelSeparation : deeperSeparation;
+        shift = Math.max(shift, right[depth] - contour.left[depth] + separation);
+      }
+    }
+    contour.offsets.forEach((offset, id) => offsets.set(id, offset + shift));
+    contour.left.forEach((value, depth) => {
+      left[depth] = Math.min(left[depth] ?? Number.POSITIVE_INFINITY, value + shift);
+      right[depth] = Math.max(right[depth] ?? Number.NEGATIVE_INFINITY, contour.right[depth] + shift);
+    });
+    return shift;
+  });
+  return { contour: { offsets, left, right }, shifts };
+};
+
+/**
+ * Lays out a forest as tidy trees (Reingold–Tilford): every parent is centered over its children and
+ * subtrees are packed as tightly as their contours allow, so small subtrees tuck in under wide neighbors.
+ * Nodes of the same depth share a layer, as tall as its tallest node. Children keep the order of their
+ * edges, or the order of their current positions when `stable` is set.
+ * Falls back to Dagre when the edges do not form a forest.
+ */
+export const calculateLayoutWithTidyTree = async (
+  nodes: Node[],
+  edges: Edge[],
+  options: LayoutEngineOptions,
+  settings: TidyTreeSettings = {}
+): Promise<LayoutResult> => {
+  const { direction, margin, nodeSpacing, layerSpacing, nodeWidth, nodeHeight, includeHidden, stable } = options;
+  const siblingSeparation = settings.siblingSeparation ?? nodeSpacing;
+  const subtreeSeparation = settings.subtreeSeparation ?? nodeSpacing;
+
+  const nodesToLayout = includeHidden ? nodes : nodes.filter(node => !node.hidden);
+  if (nodesToLayout.length === 0) {
+    return { nodes: [], edges: [], width: 0, height: 0 };
+  }
+
+  const forest = buildForest(nodesToLayout.map(node => node.id), edges);
+  if (!forest) {
+    // The nodes are filtered already; siblings keep the separation they would get in a tree
+    return calculateLayoutWithDagre(
+      nodesToLayout, edges, direction, margin, siblingSeparation, layerSpacing, nodeWidth, nodeHeight,
+      true, stable, options.alignment
+    );
+  }
+
+  const vertical = direction === 'TB' || direction === 'BT';
+  const nodeById = new Map(nodesToLayout.map(node => [node.id, node]));
+  const sizes = new Map(nodesToLayout.map(node => {
+    const w = Number(node.style?.width) || nodeWidth;
+    const h = Number(node.style?.height) || nodeHeight;
+    return [node.id, { w, h, breadth: vertical ? w : h, depth: vertical ? h : w }];
+  }));
+
+  const order = (ids: string[]) => {
+    if (!stable) {
+      return ids;
+    }
+    const position = (id: string) => {
+      const { x, y } = nodeById.get(id)!.position;
+      return vertical ? x : y;
+    };
+    return [...ids].sort((a, b) => position(a) - position(b));
+  };
+
+  const depths = new Map<string, number>();
+  const layoutSubtree = (id: string, depth: number): Contour => {
+    depths.set(id, depth);
+    const half = sizes.get(id)!.breadth / 2;
+    const childIds = order(forest.children.get(id) ?? []);
+    if (childIds.length === 0) {
+      return { offsets: new Map([[id, 0]]), left: [-half], right: [half] };
+    }
+    const { contour, shifts } = placeSideBySide(
+      childIds.map(childId => layoutSubtree(childId, depth + 1)),
+      siblingSeparation,
+      subtreeSeparation
+    );
+    const center = (shifts[0] + shifts[shifts.length - 1]) / 2;
+    const offsets = new Map([[id, 0]]);
+    contour.offsets.forEach((offset, childId) => offsets.set(childId, offset - center));
+    return {
+      offsets,
+      left: [-half, ...contour.left.map(value => value - center)],
+      right: [half, ...contour.right.map(value => value - center)],
+    };
+  };
+
+  const { contour } = placeSideBySide(
+    order(forest.roots).map(rootId => layoutSubtree(rootId, 0)),
+    subtreeSeparation,
+    subtreeSeparation
+  );
+
+  // Layers are as deep as their deepest node and spaced by layerSpacing
+  const layerSizes: number[] = [];
+  depths.forEach((depth, id) => {
+    layerSizes[depth] = Math.max(layerSizes[depth] ?? 0, sizes.get(id)!.depth);
+  });
+  const layerCenters: number[] = [];
+  let layerStart = 0;
+  layerSizes.forEach((size, depth) => {
+    layerCenters[depth] = layerStart + size / 2;
+    layerStart += size + layerSpacing;
+  });
+  const totalDepth = layerStart - layerSpacing;
+  const minBreadth = Math.min(...contour.left);
+  const totalBreadth = Math.max(...contour.right) - minBreadth;
+  const reversed = direction === 'BT' || direction === 'RL';
+
+  const layoutDirection = convertDirectionToLayout(direction);
+  const sourcePosition = getSourcePosition(layoutDirection);
+  const targetPosition = getTargetPosition(layoutDirection);
+
+  const newNodes = nodesToLayout.map((node): Node => {
+    const { w, h } = sizes.get(node.id)!;
+    const breadth = contour.offsets.get(node.id)! - minBreadth + margin;
+    const layerCenter = layerCenters[depths.get(node.id)!];
+    const depth = (reversed ? totalDepth - layerCenter : layerCenter) + margin;
+    return {
+      ...node,
+      sourcePosition,
+      targetPosition,
+      selected: false,
+      position: resolveNodePosition(node, vertical ? breadth : depth, vertical ? depth : breadth, w, h),
+    };
+  });
+
+  return {
+    nodes: newNodes,
+    edges,
+    width: (vertical ? totalBreadth : totalDepth) + margin * 2,
+    height: (vertical ? totalDepth : totalBreadth) + margin * 2,
+  };
+};
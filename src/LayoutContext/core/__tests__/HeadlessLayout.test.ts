@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Edge, Node } from '@xyflow/react';
+import { layoutGraph } from '../HeadlessLayout';
+
+const createNode = (id: string, parentId?: string, hidden?: boolean): Node => ({
+  id,
+  data: {},
+  position: { x: 0, y: 0 },
+  ...(parentId ? { parentId } : {}),
+  ...(hidden ? { hidden } : {}),
+});
+
+const nodes: Node[] = [
+  createNode('container'),
+  createNode('a', 'container'),
+  createNode('b', 'container'),
+  createNode('c'),
+];
+const edges: Edge[] = [
+  { id: 'a-b', source: 'a', target: 'b' },
+  { id: 'container-c', source: 'container', target: 'c' },
+];
+
+describe('HeadlessLayout', () => {
+  describe('layoutGraph', () => {
+    it('should lay out nested containers and size them around their children', async () => {
+      const result = await layoutGraph(nodes, edges, { nodeDimensions: { width: 100, height: 40 } });
+      const byId = new Map(result.nodes.map(node => [node.id, node]));
+
+      expect(byId.get('b')!.position.y).toBeGreaterThan(byId.get('a')!.position.y);
+      expect(byId.get('c')!.position.y).toBeGreaterThan(byId.get('container')!.position.y);
+      expect(Number(byId.get('container')!.style!.width)).toBeGreaterThanOrEqual(200);
+      expect(result.edges.map(edge => edge.id)).toEqual(['a-b', 'container-c']);
+    });
+
+    it('should follow the direction option', async () => {
+      const result = await layoutGraph(nodes, edges, { direction: 'RIGHT' });
+      const byId = new Map(result.nodes.map(node => [node.id, node]));
+
+      expect(byId.get('b')!.position.x).toBeGreaterThan(byId.get('a')!.position.x);
+      expect(byId.get('a')!.sourcePosition).toBe('right');
+    });
+
+    it('should leave the given nodes and edges untouched', async () => {
+      const snapshot = JSON.parse(JSON.stringify({ nodes, edges }));
+
+      await layoutGraph(nodes, edges, { orthogonalRouting: {} });
+
+      expect({ nodes, edges }).toEqual(snapshot);
+    });
+
+    it('should keep hidden nodes in place unless includeHidden is set', async () => {
+      const withHidden = [...nodes, { ...createNode('hidden', 'container', true), position: { x: 5, y: 5 } }];
+
+      const result = await layoutGraph(withHidden, edges);
+
+      expect(result.nodes.find(node => node.id === 'hidden')!.position).toEqual({ x: 5, y: 5 });
+    });
+
+    it('should return hidden nodes and edges unchanged along with the laid out ones', async () => {
+      const hiddenNode = { ...createNode('hidden', 'container', true), position: { x: 5, y: 5 } };
+      const hiddenEdge: Edge = { id: 'a-hidden', source: 'a', target: 'hidden', hidden: true };
+
+      const result = await layoutGraph([...nodes, hiddenNode], [...edges, hiddenEdge]);
+
+      expect(result.nodes.map(node => node.id)).toEqual(['container', 'a', 'b', 'c', 'hidden']);
+      expect(result.nodes[4]).toEqual(hiddenNode);
+      expect(result.edges.map(edge => edge.id)).toEqual(['a-b', 'container-c', 'a-hidden']);
+      expect(result.edges[2]).toBe(hiddenEdge);
+    });
+
+    it('should reject unknown engines instead of falling back to dagre', async () => {
+      await expect(layoutGraph(nodes, edges, { algorithm: 'missing' }))
+        .rejects.toThrow('Layout engine "missing" not found');
+    });
+  });
+});
@@ -4,35 +4,33 @@ import {
   organizeLayoutRecursively,
   layoutSingleContainer,
   fixParentNodeDimensions,
-  organizeLayoutByTreeDepth
+  organizeLayoutByTreeDepth,
+  resolveContainerLayoutOptions
 } from '../HierarchicalLayoutOrganizer';
-import type { Direction } from '../HierarchicalLayoutOrganizer';
 import { TreeNode } from '../../utils/treeUtils';
-import { LayoutResult } from '../Dagre';
+import type { LayoutEngine, LayoutEngineOptions, ParentResizingOptions } from '../../context/LayoutContext';
+import { clearLayoutCache, createLayoutCache } from '../LayoutCache';
+import { DagreEngine } from '../../engines/DagreEngine';
+import { GridEngine } from '../../engines/GridEngine';
+import type { LayoutPipelineOptions } from '../LayoutPipeline';
 
-// Mock implementation of calculateLayoutWithDagre that returns a Promise
-const mockCalculateLayoutWithDagre = vi.fn(async (
+// Mock layout engine whose calculate returns a Promise like the Dagre engine
+const mockCalculate = vi.fn(async (
   _nodes: Node[],
   _edges: Edge[],
-  _direction: Direction,
-  _margin?: number,
-  _nodeSpacing?: number,
-  _layerSpacing?: number,
-  defaultNodeWidth?: number,
-  defaultNodeHeight?: number,
-  _includeHidden?: boolean
-): Promise<LayoutResult> => {
+  options: LayoutEngineOptions
+) => {
   // Return a mock layout result
   return Promise.resolve({
     nodes: _nodes.map(node => ({
       ...node,
       position: { x: 100, y: 100 },
-      width: defaultNodeWidth || 172,
-      height: defaultNodeHeight || 36,
+      width: options.nodeWidth || 172,
+      height: options.nodeHeight || 36,
       style: {
         ...node.style,
-        width: defaultNodeWidth || 172,
-        height: defaultNodeHeight || 36
+        width: options.nodeWidth || 172,
+        height: options.nodeHeight || 36
       }
     })),
     edges: _edges,
@@ -41,6 +39,26 @@ const mockCalculateLayoutWithDagre = vi.fn(async (
   });
 });
 
+const mockEngine: LayoutEngine = {
+  calculate: mockCalculate,
+};
+
+const createOptions = (overrides: Partial<LayoutPipelineOptions> = {}): LayoutPipelineOptions => ({
+  direction: 'TB',
+  engine: mockEngine,
+  layoutEngines: {},
+  parentResizingOptions: { enabled: true, padding: { horizontal: 10, vertical: 10 }, respectHeaderHeight: false },
+  nodeSpacing: 50,
+  layerSpacing: 50,
+  nodeWidth: 172,
+  nodeHeight: 36,
+  layoutHidden: false,
+  noParentKey: 'no-parent',
+  stableLayout: false,
+  autoGridLayout: false,
+  ...overrides,
+});
+
 describe('HierarchicalLayoutOrganizer', () => {
   // Test fixtures
   const createTestSetup = () => {
@@ -111,7 +129,7 @@ describe('HierarchicalLayoutOrganizer', () => {
 
   beforeEach(() => {
     // Clear mock call history before each test
-    mockCalculateLayoutWithDagre.mockClear();
+    mockCalculate.mockClear();
   });
 
   describe('fixParentNodeDimensions', () => {
@@ -154,16 +172,10 @@ describe('HierarchicalLayoutOrganizer', () => {
       
       const result = await layoutSingleContainer(
         'parent1',
-        'TB',
         setup.nodeParentIdMapWithChildIdSet,
         setup.nodeIdWithNode,
         setup.edges,
-        10,
-        50,
-        50,
-        172,
-        36,
-        mockCalculateLayoutWithDagre
+        createOptions()
       );
       
       expect(result.updatedNodes).toHaveLength(2); // Two child nodes
@@ -173,27 +185,341 @@ describe('HierarchicalLayoutOrganizer', () => {
       expect(result.udpatedParentNode?.height).toBeGreaterThan(0);
     });
     
+    it('should pass a typed options object to the layout engine', async () => {
+      const setup = createTestSetup();
+      setup.nodeIdWithNode.get('parent1')!.data.layoutDirection = 'LR';
+
+      await layoutSingleContainer(
+        'parent1',
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ nodeSpacing: 40, layerSpacing: 60, layoutHidden: true })
+      );
+
+      expect(mockCalculate).toHaveBeenCalledTimes(1);
+      const [layoutNodes, layoutEdges, options] = mockCalculate.mock.calls[0];
+      expect(layoutNodes.map(node => node.id)).toEqual(['child1', 'child2']);
+      expect(layoutEdges).toEqual([]);
+      expect(options).toEqual({
+        direction: 'LR',
+        margin: 10,
+        nodeSpacing: 40,
+        layerSpacing: 60,
+        nodeWidth: 172,
+        nodeHeight: 36,
+        includeHidden: true,
+        stable: false,
+      });
+    });
+
     it('should return empty arrays when no children exist', async () => {
       const setup = createTestSetup();
       
       const result = await layoutSingleContainer(
         'nonexistent',
-        'TB',
         setup.nodeParentIdMapWithChildIdSet,
         setup.nodeIdWithNode,
         setup.edges,
-        10,
-        50,
-        50,
-        172,
-        36,
-        mockCalculateLayoutWithDagre
+        createOptions()
       );
       
       expect(result.updatedNodes).toHaveLength(0);
       // No longer returns updatedEdges - simplified architecture
       expect(result.udpatedParentNode).toBeUndefined();
     });
+
+    it('should keep root-level nodes in place instead of moving them to the margin when stable', async () => {
+      const setup = createTestSetup();
+      setup.nodeIdWithNode.set('root1', { ...setup.nodeIdWithNode.get('root1')!, position: { x: 400, y: 300 } });
+      setup.nodeIdWithNode.set('parent1', { ...setup.nodeIdWithNode.get('parent1')!, position: { x: 400, y: 300 } });
+
+      const result = await layoutSingleContainer(
+        'no-parent',
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ stableLayout: true })
+      );
+
+      expect(mockCalculate.mock.calls[0][2].stable).toBe(true);
+      expect(result.updatedNodes.map(node => node.position)).toEqual([{ x: 400, y: 300 }, { x: 400, y: 300 }]);
+    });
+
+    it('should lay out a collapsed container as a leaf of the collapsed size', async () => {
+      const setup = createTestSetup();
+      const collapsedParent = { ...setup.nodeIdWithNode.get('parent1')!, data: { label: 'Parent 1', collapsed: true } };
+      setup.nodeIdWithNode.set('parent1', collapsedParent);
+
+      const result = await layoutSingleContainer(
+        'parent1',
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions()
+      );
+
+      expect(mockCalculate).not.toHaveBeenCalled();
+      expect(result.updatedNodes).toHaveLength(0);
+      expect(setup.nodeIdWithNode.get('parent1')!.style).toMatchObject({ width: 200, height: 48 });
+    });
+  });
+
+  describe('layoutSingleContainer with locked nodes', () => {
+    const createLockedSetup = (lockedPosition: { x: number; y: number }) => {
+      const nodes: Node[] = [
+        { id: 'container', data: {}, position: { x: 0, y: 0 } },
+        { id: 'a', data: {}, position: { x: 0, y: 0 }, parentId: 'container' },
+        { id: 'b', data: { layoutLocked: true }, position: lockedPosition, parentId: 'container' },
+        { id: 'c', data: {}, position: { x: 0, y: 0 }, parentId: 'container' },
+        { id: 'd', data: {}, position: { x: 0, y: 0 }, parentId: 'container' },
+      ];
+      const nodeIdWithNode = new Map<string, Node>(nodes.map(node => [node.id, node]));
+      const nodeParentIdMapWithChildIdSet = new Map<string, Set<string>>([
+        ['container', new Set(['a', 'b', 'c', 'd'])],
+        ['no-parent', new Set(['container'])],
+      ]);
+      const edges: Edge[] = [
+        { id: 'a-b', source: 'a', target: 'b' },
+        { id: 'a-c', source: 'a', target: 'c' },
+        { id: 'a-d', source: 'a', target: 'd' },
+      ];
+      const temporaryEdgesByParent = new Map([['container', edges]]);
+      return { nodeIdWithNode, nodeParentIdMapWithChildIdSet, edges, temporaryEdgesByParent };
+    };
+
+    const runLockedLayout = (setup: ReturnType<typeof createLockedSetup>, layoutEngine: LayoutEngine = DagreEngine) =>
+      layoutSingleContainer(
+        'container',
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ engine: layoutEngine }),
+        setup.temporaryEdgesByParent
+      );
+
+    const overlaps = (a: Node, b: Node) =>
+      a.position.x < b.position.x + 172 && b.position.x < a.position.x + 172 &&
+      a.position.y < b.position.y + 36 && b.position.y < a.position.y + 36;
+
+    it('should keep locked nodes in place and lay out siblings without overlap', async () => {
+      const setup = createLockedSetup({ x: 300, y: 106 });
+
+      const result = await runLockedLayout(setup);
+      const nodesById = new Map(result.updatedNodes.map(node => [node.id, node]));
+
+      expect(nodesById.get('b')!.position).toEqual({ x: 300, y: 106 });
+      const children = ['a', 'b', 'c', 'd'].map(id => nodesById.get(id)!);
+      children.forEach((node, index) => {
+        children.slice(index + 1).forEach(other => {
+          expect(overlaps(node, other)).toBe(false);
+        });
+      });
+    });
+
+    it('should not re-origin the container when a locked node sits outside the margin', async () => {
+      const setup = createLockedSetup({ x: 600, y: 400 });
+
+      const result = await runLockedLayout(setup);
+      const container = setup.nodeIdWithNode.get('container')!;
+
+      expect(result.updatedNodes.find(node => node.id === 'b')!.position).toEqual({ x: 600, y: 400 });
+      result.updatedNodes.forEach(node => {
+        expect(node.position.x).toBeGreaterThanOrEqual(10);
+        expect(node.position.y).toBeGreaterThanOrEqual(10);
+      });
+      // The container grows from its origin to the far edges instead of shifting its children
+      const maxX = Math.max(...result.updatedNodes.map(node => node.position.x + 172));
+      const maxY = Math.max(...result.updatedNodes.map(node => node.position.y + 36));
+      expect(container.width).toBe(maxX + 10);
+      expect(container.height).toBe(maxY + 10);
+      expect(maxY).toBe(400 + 36);
+    });
+
+    it('should push siblings the engine placed on top of a locked node', async () => {
+      const setup = createLockedSetup({ x: 100, y: 100 });
+
+      const result = await runLockedLayout(setup, mockEngine);
+      const nodesById = new Map(result.updatedNodes.map(node => [node.id, node]));
+
+      // The mock engine stacks every node at the same spot
+      expect(nodesById.get('b')!.position).toEqual({ x: 100, y: 100 });
+      expect(nodesById.get('a')!.position.x).toBe(100 + 172 + 50);
+      expect(nodesById.get('c')!.position.x).toBe(100 + 2 * (172 + 50));
+      expect(nodesById.get('d')!.position.x).toBe(100 + 3 * (172 + 50));
+    });
+  });
+
+  describe('per-container layout options', () => {
+    const createNestedContainers = () => {
+      const nodes: Node[] = [
+        { id: 'lane', data: { layoutNodeSpacing: 10, layoutPadding: 4, layoutEngine: 'custom' }, position: { x: 0, y: 0 } },
+        { id: 'group', data: { layoutLayerSpacing: 20, layoutAlignment: 'UL' }, position: { x: 0, y: 0 }, parentId: 'lane' },
+        { id: 'leaf1', data: {}, position: { x: 0, y: 0 }, parentId: 'group' },
+        { id: 'leaf2', data: {}, position: { x: 0, y: 0 }, parentId: 'group' },
+      ];
+      const nodeIdWithNode = new Map<string, Node>(nodes.map(node => [node.id, node]));
+      const nodeParentIdMapWithChildIdSet = new Map<string, Set<string>>([
+        ['lane', new Set(['group'])],
+        ['group', new Set(['leaf1', 'leaf2'])],
+        ['no-parent', new Set(['lane'])],
+      ]);
+      return { nodeIdWithNode, nodeParentIdMapWithChildIdSet };
+    };
+
+    it('should inherit each option from the nearest container that sets it', () => {
+      const { nodeIdWithNode } = createNestedContainers();
+      const defaults = { padding: { horizontal: 10, vertical: 10 }, nodeSpacing: 50, layerSpacing: 50 };
+
+      expect(resolveContainerLayoutOptions('group', nodeIdWithNode, defaults)).toEqual({
+        padding: { horizontal: 4, vertical: 4 },
+        nodeSpacing: 10,
+        layerSpacing: 20,
+        alignment: 'UL',
+        engine: 'custom',
+      });
+      expect(resolveContainerLayoutOptions('lane', nodeIdWithNode, defaults)).toEqual({
+        padding: { horizontal: 4, vertical: 4 },
+        nodeSpacing: 10,
+        layerSpacing: 50,
+        engine: 'custom',
+      });
+      expect(resolveContainerLayoutOptions('no-parent', nodeIdWithNode, defaults)).toEqual(defaults);
+    });
+
+    it('should lay out a container with its resolved options and engine', async () => {
+      const { nodeIdWithNode, nodeParentIdMapWithChildIdSet } = createNestedContainers();
+      const customCalculate = vi.fn(mockCalculate.getMockImplementation()!);
+
+      await layoutSingleContainer(
+        'group',
+        nodeParentIdMapWithChildIdSet,
+        nodeIdWithNode,
+        [],
+        createOptions({ layoutEngines: { custom: { calculate: customCalculate } } })
+      );
+
+      expect(mockCalculate).not.toHaveBeenCalled();
+      expect(customCalculate.mock.calls[0][2]).toMatchObject({
+        margin: 4,
+        nodeSpacing: 10,
+        layerSpacing: 20,
+        alignment: 'UL',
+      });
+      // The mock stacks both leaves at the same spot, so the container is one node plus the padding
+      expect(nodeIdWithNode.get('group')!.width).toBe(172 + 2 * 4);
+    });
+
+    it('should reject an engine name that is not registered', async () => {
+      const { nodeIdWithNode, nodeParentIdMapWithChildIdSet } = createNestedContainers();
+
+      await expect(layoutSingleContainer(
+        'group',
+        nodeParentIdMapWithChildIdSet,
+        nodeIdWithNode,
+        [],
+        createOptions()
+      )).rejects.toThrow('Layout engine "custom" selected by container "group" not found');
+      expect(mockCalculate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('layoutSingleContainer with parent resizing options', () => {
+    const resizingOptions: ParentResizingOptions = {
+      enabled: true,
+      padding: { horizontal: 20, vertical: 5 },
+      respectHeaderHeight: true,
+      minWidth: 400,
+      minHeight: 0,
+    };
+
+    const runResizingLayout = (setup: ReturnType<typeof createTestSetup>, options: ParentResizingOptions) =>
+      layoutSingleContainer(
+        'parent1',
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ parentResizingOptions: options })
+      );
+
+    it('should apply asymmetric padding, reserve the header band and center children in the minimum width', async () => {
+      const setup = createTestSetup();
+      setup.nodeIdWithNode.get('parent1')!.data.headerHeight = 30;
+
+      const result = await runResizingLayout(setup, resizingOptions);
+      const parent = setup.nodeIdWithNode.get('parent1')!;
+
+      // The mock stacks both children: content is 172x36, 212 wide with padding, centered in 400
+      expect(result.updatedNodes[0].position).toEqual({ x: 20 + (400 - 212) / 2, y: 5 + 30 });
+      expect(parent.width).toBe(400);
+      expect(parent.height).toBe(30 + 5 + 36 + 5);
+    });
+
+    it('should ignore the header height unless respectHeaderHeight is set', async () => {
+      const setup = createTestSetup();
+      setup.nodeIdWithNode.get('parent1')!.data.headerHeight = 30;
+
+      const result = await runResizingLayout(setup, { ...resizingOptions, respectHeaderHeight: false, minWidth: 0 });
+
+      expect(result.updatedNodes[0].position).toEqual({ x: 20, y: 5 });
+      expect(setup.nodeIdWithNode.get('parent1')!.height).toBe(5 + 36 + 5);
+    });
+
+    it('should center children vertically below the header when clamping to the minimum height', async () => {
+      const setup = createTestSetup();
+      setup.nodeIdWithNode.get('parent1')!.data.headerHeight = 30;
+
+      const result = await runResizingLayout(setup, { ...resizingOptions, minWidth: 0, minHeight: 200 });
+
+      expect(result.updatedNodes[0].position.y).toBe(35 + (200 - 76) / 2);
+      expect(setup.nodeIdWithNode.get('parent1')!.height).toBe(200);
+    });
+
+    it('should let a container override the padding on both axes', async () => {
+      const setup = createTestSetup();
+      setup.nodeIdWithNode.get('parent1')!.data.layoutPadding = { vertical: 12 };
+
+      const result = await runResizingLayout(setup, { ...resizingOptions, minWidth: 0 });
+
+      expect(result.updatedNodes[0].position).toEqual({ x: 20, y: 12 });
+    });
+  });
+
+  describe('layoutSingleContainer with autoGridLayout', () => {
+    const runWithAutoGrid = (setup: ReturnType<typeof createTestSetup>, temporaryEdgesByParent: Map<string, Edge[]>) =>
+      layoutSingleContainer(
+        'parent1',
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ autoGridLayout: true, layoutEngines: { custom: mockEngine } }),
+        temporaryEdgesByParent
+      );
+
+    it('should use the grid engine for containers without edges', async () => {
+      const setup = createTestSetup();
+      const gridCalculate = vi.spyOn(GridEngine, 'calculate');
+
+      await runWithAutoGrid(setup, new Map());
+
+      expect(gridCalculate).toHaveBeenCalledTimes(1);
+      expect(mockCalculate).not.toHaveBeenCalled();
+      gridCalculate.mockRestore();
+    });
+
+    it('should keep the regular engine when the container has edges or selects an engine', async () => {
+      const setup = createTestSetup();
+      const gridCalculate = vi.spyOn(GridEngine, 'calculate');
+      const temporaryEdgesByParent = new Map([['parent1', [setup.edges[0]]]]);
+
+      await runWithAutoGrid(setup, temporaryEdgesByParent);
+      setup.nodeIdWithNode.get('parent1')!.data.layoutEngine = 'custom';
+      await runWithAutoGrid(setup, new Map());
+
+      expect(gridCalculate).not.toHaveBeenCalled();
+      expect(mockCalculate).toHaveBeenCalledTimes(2);
+      gridCalculate.mockRestore();
+    });
   });
 
   describe('organizeLayoutRecursively', () => {
@@ -202,16 +528,10 @@ describe('HierarchicalLayoutOrganizer', () => {
       
       const result = await organizeLayoutRecursively(
         'child1',
-        'TB',
         setup.nodeParentIdMapWithChildIdSet,
         setup.nodeIdWithNode,
         setup.edges,
-        10,
-        50,
-        50,
-        172,
-        36,
-        mockCalculateLayoutWithDagre
+        createOptions()
       );
       
       // Expect both parent and child layouts to be calculated
@@ -220,7 +540,7 @@ describe('HierarchicalLayoutOrganizer', () => {
       
       // The mock is called 2 times - once for the child1's parent (parent1) 
       // and once for the no-parent container
-      expect(mockCalculateLayoutWithDagre).toHaveBeenCalledTimes(2);
+      expect(mockCalculate).toHaveBeenCalledTimes(2);
     });
     
     it('should handle non-existent parent IDs gracefully', async () => {
@@ -228,16 +548,10 @@ describe('HierarchicalLayoutOrganizer', () => {
       
       const result = await organizeLayoutRecursively(
         'nonexistent',
-        'TB',
         setup.nodeParentIdMapWithChildIdSet,
         setup.nodeIdWithNode,
         setup.edges,
-        10,
-        50,
-        50,
-        172,
-        36,
-        mockCalculateLayoutWithDagre
+        createOptions()
       );
       
       expect(result.updatedNodes).toHaveLength(0);
@@ -292,23 +606,430 @@ describe('HierarchicalLayoutOrganizer', () => {
       
       const result = await organizeLayoutByTreeDepth(
         parentTree,
-        'TB',
         setup.nodeParentIdMapWithChildIdSet,
         setup.nodeIdWithNode,
         setup.edges,
-        10,
-        50,
-        50,
-        172,
-        36,
-        mockCalculateLayoutWithDagre
+        createOptions()
       );
       
       expect(result.updatedNodes.length).toBeGreaterThan(0);
       expect(result.updatedEdges.length).toBeGreaterThan(0);
       
       // The mock should be called once for each level in the tree + once for the root level
-      expect(mockCalculateLayoutWithDagre).toHaveBeenCalled();
+      expect(mockCalculate).toHaveBeenCalled();
+    });
+  });
+
+  describe('organizeLayoutByTreeDepth with a hierarchy-aware engine', () => {
+    it('should hand the whole hierarchy to calculateHierarchy instead of per-container passes', async () => {
+      const setup = createTestSetup();
+      const calculateHierarchy = vi.fn(async () => ({
+        nodes: [{ ...setup.nodeIdWithNode.get('child1')!, position: { x: 5, y: 5 } }],
+      }));
+      const hierarchyEngine: LayoutEngine = {
+        calculate: mockCalculate,
+        calculateHierarchy,
+      };
+
+      const result = await organizeLayoutByTreeDepth(
+        [],
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ direction: 'LR', engine: hierarchyEngine })
+      );
+
+      expect(mockCalculate).not.toHaveBeenCalled();
+      expect(calculateHierarchy).toHaveBeenCalledWith(
+        {
+          rootId: 'no-parent',
+          nodeParentIdMapWithChildIdSet: setup.nodeParentIdMapWithChildIdSet,
+          nodeIdWithNode: setup.nodeIdWithNode,
+          edges: setup.edges,
+          noParentKey: 'no-parent',
+          parentResizingOptions: createOptions().parentResizingOptions,
+        },
+        expect.objectContaining({ direction: 'LR', margin: 10 })
+      );
+      expect(result.updatedNodes.map(node => node.id)).toEqual(['child1']);
+      expect(result.updatedEdges).toEqual(setup.edges);
+    });
+
+    it('should apply the edge routes calculateHierarchy returns', async () => {
+      const setup = createTestSetup();
+      const hierarchyEngine: LayoutEngine = {
+        calculate: mockCalculate,
+        calculateHierarchy: async () => ({
+          nodes: [],
+          edgeRoutes: [{ edgeId: 'edge1', parentId: 'parent1', waypoints: [{ x: 40, y: 60 }] }],
+        }),
+      };
+
+      const result = await organizeLayoutByTreeDepth(
+        [],
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ engine: hierarchyEngine })
+      );
+
+      expect(result.updatedEdges[0].data).toEqual({ waypoints: [{ x: 40, y: 60 }], waypointsParentId: 'parent1' });
+      expect(result.updatedEdges[1]).toBe(setup.edges[1]);
+    });
+
+    it('should keep per-container passes when a node is locked', async () => {
+      const setup = createTestSetup();
+      setup.nodeIdWithNode.get('child1')!.data.layoutLocked = true;
+      const calculateHierarchy = vi.fn(async () => ({ nodes: [] }));
+
+      await organizeLayoutByTreeDepth(
+        [],
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ engine: { calculate: mockCalculate, calculateHierarchy } })
+      );
+
+      expect(calculateHierarchy).not.toHaveBeenCalled();
+      expect(mockCalculate).toHaveBeenCalled();
+    });
+
+    it('should keep per-container passes for container overrides and autoGridLayout', async () => {
+      const setup = createTestSetup();
+      const calculateHierarchy = vi.fn(async () => ({ nodes: [] }));
+      const engine: LayoutEngine = { calculate: mockCalculate, calculateHierarchy };
+
+      await organizeLayoutByTreeDepth(
+        [],
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ engine, autoGridLayout: true })
+      );
+      setup.nodeIdWithNode.get('parent1')!.data.layoutNodeSpacing = 5;
+      await organizeLayoutByTreeDepth(
+        [],
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ engine })
+      );
+
+      expect(calculateHierarchy).not.toHaveBeenCalled();
+      expect(mockCalculate).toHaveBeenCalled();
+    });
+
+    it('should keep per-container passes when a container has a direction of its own', async () => {
+      const setup = createTestSetup();
+      const calculateHierarchy = vi.fn(async () => ({ nodes: [] }));
+      const engine: LayoutEngine = { calculate: mockCalculate, calculateHierarchy };
+      const runLayout = () => organizeLayoutByTreeDepth(
+        [],
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ engine })
+      );
+
+      setup.nodeIdWithNode.get('parent1')!.data.layoutDirection = 'TB';
+      await runLayout();
+      expect(calculateHierarchy).toHaveBeenCalledTimes(1);
+
+      setup.nodeIdWithNode.get('parent1')!.data.layoutDirection = 'LR';
+      await runLayout();
+      expect(calculateHierarchy).toHaveBeenCalledTimes(1);
+      expect(mockCalculate).toHaveBeenCalled();
+    });
+  });
+
+  describe('organizeLayoutByTreeDepth with a layout cache', () => {
+    // Like Dagre, only positions the children and leaves their sizes alone
+    const positionCalculate = vi.fn(async (nodes: Node[], edges: Edge[]) => ({
+      nodes: nodes.map(node => ({ ...node, position: { x: 100, y: 100 } })),
+      edges,
+      width: 300,
+      height: 200,
+    }));
+    const positionEngine: LayoutEngine = { calculate: positionCalculate };
+
+    beforeEach(() => {
+      positionCalculate.mockClear();
+    });
+
+    const createNestedSetup = () => {
+      const nodes: Node[] = [
+        { id: 'containerA', data: {}, position: { x: 0, y: 0 } },
+        { id: 'containerB', data: {}, position: { x: 0, y: 0 } },
+        { id: 'a1', data: {}, position: { x: 0, y: 0 }, parentId: 'containerA' },
+        { id: 'a2', data: {}, position: { x: 0, y: 0 }, parentId: 'containerA' },
+        { id: 'b1', data: {}, position: { x: 0, y: 0 }, parentId: 'containerB' },
+      ];
+      const nodeIdWithNode = new Map<string, Node>(nodes.map(node => [node.id, node]));
+      const nodeParentIdMapWithChildIdSet = new Map<string, Set<string>>([
+        ['containerA', new Set(['a1', 'a2'])],
+        ['containerB', new Set(['b1'])],
+        ['no-parent', new Set(['containerA', 'containerB'])],
+      ]);
+      const parentTree: TreeNode[] = [
+        { id: 'containerA', node: nodes[0], depth: 0, children: [] },
+        { id: 'containerB', node: nodes[1], depth: 0, children: [] },
+      ];
+      const edges: Edge[] = [{ id: 'a1-a2', source: 'a1', target: 'a2' }];
+      return { nodeIdWithNode, nodeParentIdMapWithChildIdSet, parentTree, edges };
+    };
+
+    const runLayout = (setup: ReturnType<typeof createNestedSetup>, layoutCache = createLayoutCache(), edges = setup.edges) =>
+      organizeLayoutByTreeDepth(
+        setup.parentTree,
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        edges,
+        createOptions({ engine: positionEngine, layoutCache })
+      );
+
+    const laidOutContainers = () => positionCalculate.mock.calls.map(([nodes]) => nodes.map(node => node.id).join(','));
+
+    it('should reuse cached results when nothing changed', async () => {
+      const setup = createNestedSetup();
+      const layoutCache = createLayoutCache();
+
+      await runLayout(setup, layoutCache);
+      expect(positionCalculate).toHaveBeenCalledTimes(3);
+      const containerWidth = setup.nodeIdWithNode.get('containerA')!.width;
+
+      positionCalculate.mockClear();
+      const result = await runLayout(setup, layoutCache);
+
+      expect(positionCalculate).not.toHaveBeenCalled();
+      expect(result.updatedNodes.map(node => node.id).sort()).toEqual(['a1', 'a2', 'b1', 'containerA', 'containerB']);
+      expect(setup.nodeIdWithNode.get('containerA')!.width).toBe(containerWidth);
+    });
+
+    it('should only recompute dirty containers and their ancestors', async () => {
+      const setup = createNestedSetup();
+      const layoutCache = createLayoutCache();
+      await runLayout(setup, layoutCache);
+      positionCalculate.mockClear();
+
+      setup.nodeIdWithNode.set('b1', { ...setup.nodeIdWithNode.get('b1')!, style: { width: 400, height: 80 } });
+      await runLayout(setup, layoutCache);
+
+      expect(laidOutContainers()).toEqual(['b1', 'containerA,containerB']);
+    });
+
+    it('should treat containers with changed edges as dirty', async () => {
+      const setup = createNestedSetup();
+      const layoutCache = createLayoutCache();
+      await runLayout(setup, layoutCache);
+      positionCalculate.mockClear();
+
+      await runLayout(setup, layoutCache, []);
+
+      expect(laidOutContainers()).toEqual(['a1,a2', 'containerA,containerB']);
+    });
+
+    it('should treat containers whose edge label text changed as dirty', async () => {
+      const setup = createNestedSetup();
+      const layoutCache = createLayoutCache();
+      await runLayout(setup, layoutCache, [{ ...setup.edges[0], label: 'reads' }]);
+      positionCalculate.mockClear();
+
+      await runLayout(setup, layoutCache, [{ ...setup.edges[0], label: 'reads' }]);
+      expect(positionCalculate).not.toHaveBeenCalled();
+
+      await runLayout(setup, layoutCache, [{ ...setup.edges[0], label: 'reads and writes' }]);
+      expect(laidOutContainers()).toEqual(['a1,a2', 'containerA,containerB']);
+    });
+
+    it('should recompute everything after the cache is cleared or settings change', async () => {
+      const setup = createNestedSetup();
+      const layoutCache = createLayoutCache();
+      await runLayout(setup, layoutCache);
+      positionCalculate.mockClear();
+
+      clearLayoutCache(layoutCache);
+      await runLayout(setup, layoutCache);
+      expect(positionCalculate).toHaveBeenCalledTimes(3);
+
+      positionCalculate.mockClear();
+      await organizeLayoutByTreeDepth(
+        setup.parentTree,
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ direction: 'LR', engine: positionEngine, layoutCache })
+      );
+      expect(positionCalculate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should recompute everything when the engine registry changes', async () => {
+      const setup = createNestedSetup();
+      const layoutCache = createLayoutCache();
+      await runLayout(setup, layoutCache);
+      positionCalculate.mockClear();
+
+      await organizeLayoutByTreeDepth(
+        setup.parentTree,
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ engine: positionEngine, layoutEngines: { custom: positionEngine }, layoutCache })
+      );
+
+      expect(positionCalculate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should treat a container that was collapsed as dirty', async () => {
+      const setup = createNestedSetup();
+      const layoutCache = createLayoutCache();
+      await runLayout(setup, layoutCache);
+      positionCalculate.mockClear();
+
+      setup.nodeIdWithNode.get('containerB')!.data.collapsed = true;
+      await runLayout(setup, layoutCache);
+
+      // The collapsed container takes its collapsed size without an engine pass; its parent is laid out again
+      expect(laidOutContainers()).toEqual(['containerA,containerB']);
+      expect(setup.nodeIdWithNode.get('containerB')!.width).toBe(200);
+    });
+  });
+
+  describe('organizeLayoutByTreeDepth edge routing', () => {
+    const createRoutingSetup = () => {
+      const nodes: Node[] = [
+        { id: 'A', data: {}, position: { x: 0, y: 0 } },
+        { id: 'B', data: {}, position: { x: 0, y: 0 } },
+        { id: 'a1', data: {}, position: { x: 0, y: 0 }, parentId: 'A' },
+        { id: 'a2', data: {}, position: { x: 0, y: 0 }, parentId: 'A' },
+        { id: 'b1', data: {}, position: { x: 0, y: 0 }, parentId: 'B' },
+      ];
+      const nodeIdWithNode = new Map<string, Node>(nodes.map(node => [node.id, node]));
+      const nodeParentIdMapWithChildIdSet = new Map<string, Set<string>>([
+        ['A', new Set(['a1', 'a2'])],
+        ['B', new Set(['b1'])],
+        ['no-parent', new Set(['A', 'B'])],
+      ]);
+      const edges: Edge[] = [
+        { id: 'a1-a2', source: 'a1', target: 'a2' },
+        { id: 'a2-b1', source: 'a2', target: 'b1', data: { waypoints: [{ x: 0, y: 0 }] } },
+      ];
+      const parentTree: TreeNode[] = [
+        { id: 'A', node: nodes[0], depth: 0, children: [] },
+        { id: 'B', node: nodes[1], depth: 0, children: [] },
+      ];
+      return { nodeIdWithNode, nodeParentIdMapWithChildIdSet, edges, parentTree };
+    };
+
+    const runRoutedLayout = (setup: ReturnType<typeof createRoutingSetup>, layoutEngine: LayoutEngine = DagreEngine) =>
+      organizeLayoutByTreeDepth(
+        setup.parentTree,
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createOptions({ engine: layoutEngine })
+      );
+
+    it('should write waypoints relative to the container holding the edge', async () => {
+      const setup = createRoutingSetup();
+      const result = await runRoutedLayout(setup);
+      const edge = result.updatedEdges.find(edge => edge.id === 'a1-a2')!;
+      const a1 = setup.nodeIdWithNode.get('a1')!;
+      const a2 = setup.nodeIdWithNode.get('a2')!;
+      const waypoints = edge.data!.waypoints as { x: number; y: number }[];
+
+      expect(edge.data!.waypointsParentId).toBe('A');
+      expect(waypoints.length).toBeGreaterThan(0);
+      waypoints.forEach(point => {
+        expect(point.y).toBeGreaterThan(a1.position.y + 36);
+        expect(point.y).toBeLessThan(a2.position.y);
+      });
+    });
+
+    it('should route cross-container edges between the borders of the containers', async () => {
+      const setup = createRoutingSetup();
+      const result = await runRoutedLayout(setup);
+      const edge = result.updatedEdges.find(edge => edge.id === 'a2-b1')!;
+      const A = setup.nodeIdWithNode.get('A')!;
+      const B = setup.nodeIdWithNode.get('B')!;
+      const waypoints = edge.data!.waypoints as { x: number; y: number }[];
+
+      expect(edge.data!.waypointsParentId).toBeUndefined();
+      expect(waypoints[0].y).toBeCloseTo(A.position.y + A.height!);
+      expect(waypoints[waypoints.length - 1].y).toBeCloseTo(B.position.y);
+    });
+
+    it('should continue cross-container routes around the children of the containers down to the endpoint', async () => {
+      // r -> a1 enters A above 'top' and A1 above a0, so straight lines to the handle would cross both
+      const nodes: Node[] = [
+        { id: 'r', data: {}, position: { x: 0, y: 0 } },
+        { id: 'A', data: {}, position: { x: 0, y: 0 } },
+        { id: 'top', data: {}, position: { x: 0, y: 0 }, parentId: 'A' },
+        { id: 'A1', data: {}, position: { x: 0, y: 0 }, parentId: 'A' },
+        { id: 'a0', data: {}, position: { x: 0, y: 0 }, parentId: 'A1' },
+        { id: 'a1', data: {}, position: { x: 0, y: 0 }, parentId: 'A1' },
+      ];
+      const nodeIdWithNode = new Map<string, Node>(nodes.map(node => [node.id, node]));
+      const nodeParentIdMapWithChildIdSet = new Map<string, Set<string>>([
+        ['A1', new Set(['a0', 'a1'])],
+        ['A', new Set(['top', 'A1'])],
+        ['no-parent', new Set(['r', 'A'])],
+      ]);
+      const edges: Edge[] = [
+        { id: 'a0-a1', source: 'a0', target: 'a1' },
+        { id: 'top-A1', source: 'top', target: 'A1' },
+        { id: 'r-a1', source: 'r', target: 'a1' },
+      ];
+      const parentTree: TreeNode[] = [
+        { id: 'A', node: nodes[1], depth: 0, children: [{ id: 'A1', node: nodes[3], depth: 1, children: [] }] },
+      ];
+
+      const result = await organizeLayoutByTreeDepth(
+        parentTree,
+        nodeParentIdMapWithChildIdSet,
+        nodeIdWithNode,
+        edges,
+        createOptions({ engine: DagreEngine })
+      );
+      const edge = result.updatedEdges.find(edge => edge.id === 'r-a1')!;
+      const waypoints = edge.data!.waypoints as { x: number; y: number }[];
+      const getBox = (id: string): { x1: number; y1: number; x2: number; y2: number } => {
+        const node = nodeIdWithNode.get(id)!;
+        const parent = node.parentId ? getBox(node.parentId) : { x1: 0, y1: 0 };
+        const x1 = parent.x1 + node.position.x;
+        const y1 = parent.y1 + node.position.y;
+        return { x1, y1, x2: x1 + (node.width ?? 172), y2: y1 + (node.height ?? 36) };
+      };
+      const A = getBox('A');
+      const A1 = getBox('A1');
+      const a1 = getBox('a1');
+
+      expect(edge.data!.waypointsParentId).toBeUndefined();
+      // The engine's route ends on A's border; the inner segments follow inside A and inside A1
+      const borderIndex = waypoints.findIndex(point => point.y === A.y1);
+      const inner = waypoints.slice(borderIndex);
+      expect(borderIndex).toBeGreaterThanOrEqual(0);
+      expect(inner.some(point => point.y > A.y1 && point.y < A1.y1)).toBe(true);
+      expect(inner.some(point => point.y > A1.y1 && point.y < a1.y1)).toBe(true);
+      inner.slice(1).forEach((point, index) => {
+        const previous = inner[index];
+        expect(point.x === previous.x || point.y === previous.y).toBe(true);
+        ['top', 'a0'].map(getBox).forEach(box => {
+          const crosses = Math.max(point.x, previous.x) > box.x1 && Math.min(point.x, previous.x) < box.x2
+            && Math.max(point.y, previous.y) > box.y1 && Math.min(point.y, previous.y) < box.y2;
+          expect(crosses).toBe(false);
+        });
+      });
+      // Ends straight above the target handle, which the edge renderer draws to
+      expect(inner[inner.length - 1].x).toBeCloseTo((a1.x1 + a1.x2) / 2);
+      expect(inner[inner.length - 1].y).toBeLessThan(a1.y1);
+    });
+
+    it('should remove earlier waypoints when the engine does not route edges', async () => {
+      const setup = createRoutingSetup();
+      const result = await runRoutedLayout(setup, mockEngine);
+
+      expect(result.updatedEdges.find(edge => edge.id === 'a2-b1')!.data).toEqual({});
+      expect(result.updatedEdges.find(edge => edge.id === 'a1-a2')).toBe(setup.edges[0]);
     });
   });
 
@@ -406,16 +1127,10 @@ describe('HierarchicalLayoutOrganizer', () => {
       
       const result = await organizeLayoutByTreeDepth(
         parentTree,
-        'TB',
         nodeParentIdMapWithChildIdSet,
         nodeIdWithNode,
         edges,
-        10,
-        50,
-        50,
-        172,
-        36,
-        mockCalculateLayoutWithDagre
+        createOptions()
       );
       
       // Verify that the original edges are returned unchanged
@@ -427,7 +1142,7 @@ describe('HierarchicalLayoutOrganizer', () => {
       expect(result.updatedNodes.length).toBeGreaterThan(0);
       
       // Verify the layout algorithm was called for different hierarchy levels
-      expect(mockCalculateLayoutWithDagre).toHaveBeenCalled();
+      expect(mockCalculate).toHaveBeenCalled();
     });
   });
 });
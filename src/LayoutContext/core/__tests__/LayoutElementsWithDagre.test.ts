@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { Node, Edge } from '@xyflow/react';
 import { calculateLayoutWithDagre } from '../Dagre';
 import * as layoutProviderUtils from '../../utils/layoutProviderUtils';
+import { measureLayoutDisplacement } from '../../utils/layoutStability';
 
 // Mock the layoutProviderUtils functions
 vi.mock('../../utils/layoutProviderUtils', () => ({
@@ -224,6 +225,69 @@ describe('LayoutElementsWithDagre', () => {
       expect(result.height).toBe(0);
     });
 
+    it('should write the routed edge points into edge data', async () => {
+      const result = await calculateLayoutWithDagre(createTestNodes(), createTestEdges(), 'TB', 10, 50, 50, 172, 36);
+      const nodesById = new Map(result.nodes.map(node => [node.id, node]));
+      const points = result.edges[0].data!.points as { x: number; y: number }[];
+
+      // Runs from the bottom of node1 to the top of node2
+      expect(points.length).toBeGreaterThanOrEqual(2);
+      expect(points[0].y).toBeCloseTo(nodesById.get('node1')!.position.y + 36);
+      expect(points[points.length - 1].y).toBeCloseTo(nodesById.get('node2')!.position.y);
+    });
+
+    it('should reserve space for edge labels and write their position into edge data', async () => {
+      const edges: Edge[] = [{ id: 'edge1', source: 'node1', target: 'node2', data: { labelSize: { width: 120, height: 80 } } }];
+      const plain = await calculateLayoutWithDagre(createTestNodes().slice(0, 2), [{ id: 'edge1', source: 'node1', target: 'node2' }], 'TB');
+      const labeled = await calculateLayoutWithDagre(createTestNodes().slice(0, 2), edges, 'TB');
+      const gap = (result: typeof plain) => {
+        const [source, target] = ['node1', 'node2'].map(id => result.nodes.find(node => node.id === id)!);
+        return target.position.y - (source.position.y + 36);
+      };
+      const labelPoint = labeled.edges[0].data!.labelPoint as { x: number; y: number };
+      const source = labeled.nodes.find(node => node.id === 'node1')!;
+      const target = labeled.nodes.find(node => node.id === 'node2')!;
+
+      expect(gap(labeled)).toBeGreaterThanOrEqual(gap(plain) + 80);
+      expect(labelPoint.y - 40).toBeGreaterThanOrEqual(source.position.y + 36);
+      expect(labelPoint.y + 40).toBeLessThanOrEqual(target.position.y);
+      expect(plain.edges[0].data?.labelPoint).toBeUndefined();
+    });
+
+    it('should size labels with the measuring callback, then the default size for text labels', async () => {
+      const measureEdgeLabel = vi.fn((edge: Edge) => (edge.id === 'edge2' ? { width: 60, height: 200 } : undefined));
+      const edges: Edge[] = [
+        { id: 'edge1', source: 'node1', target: 'node2', label: 'depends on' },
+        { id: 'edge2', source: 'node1', target: 'node3' },
+      ];
+
+      const result = await calculateLayoutWithDagre(
+        createTestNodes(), edges, 'TB', 0, 50, 50, 172, 36, false, false, undefined, { measureEdgeLabel }
+      );
+      const nodesById = new Map(result.nodes.map(node => [node.id, node]));
+
+      expect(measureEdgeLabel).toHaveBeenCalledTimes(2);
+      expect(result.edges[0].data?.labelPoint).toBeDefined();
+      expect(result.edges[1].data?.labelPoint).toBeDefined();
+      // Both targets share a rank, pushed down far enough for the tall measured label
+      expect(nodesById.get('node3')!.position.y - nodesById.get('node1')!.position.y - 36).toBeGreaterThanOrEqual(200);
+    });
+
+    it('should route and label parallel edges between the same nodes separately', async () => {
+      const edges: Edge[] = [
+        { id: 'edge1', source: 'node1', target: 'node2', label: 'reads' },
+        { id: 'edge2', source: 'node1', target: 'node2', label: 'writes' },
+      ];
+
+      const result = await calculateLayoutWithDagre(createTestNodes().slice(0, 2), edges, 'TB');
+      const [first, second] = result.edges.map(edge => edge.data!.labelPoint as { x: number; y: number });
+
+      expect(first).toBeDefined();
+      expect(second).toBeDefined();
+      expect(first).not.toEqual(second);
+      expect(result.edges[0].data!.points).not.toEqual(result.edges[1].data!.points);
+    });
+
     it('should call helper functions with correct direction', async () => {
       const nodes = createTestNodes();
       const edges = createTestEdges();
@@ -233,4 +297,64 @@ describe('LayoutElementsWithDagre', () => {
       expect(layoutProviderUtils.convertDirectionToLayout).toHaveBeenCalledWith('LR');
     });
   });
+
+  describe('calculateLayoutWithDagre with stable ordering', () => {
+    const createFanOut = (childIds: string[]) => {
+      const nodes: Node[] = ['root', ...childIds].map(id => ({ id, data: {}, position: { x: 0, y: 0 } }));
+      const edges: Edge[] = childIds.map(id => ({ id: `root-${id}`, source: 'root', target: id, sourceHandle: 'bottom', targetHandle: 'top' }));
+      return { nodes, edges };
+    };
+
+    const xOrder = (nodes: Node[], ids: string[]) =>
+      nodes.filter(node => ids.includes(node.id)).sort((a, b) => a.position.x - b.position.x).map(node => node.id);
+
+    it('should order each rank by the previous positions', async () => {
+      const { nodes, edges } = createFanOut(['a', 'b', 'c']);
+      // The user dragged c to the left and a to the right
+      const arranged = nodes.map(node => ({
+        ...node,
+        position: { x: { a: 600, b: 300, c: 0 }[node.id] ?? 300, y: 0 },
+      }));
+
+      const unstable = await calculateLayoutWithDagre(arranged, edges, 'TB');
+      const stable = await calculateLayoutWithDagre(arranged, edges, 'TB', 0, 50, 50, 172, 36, false, true);
+
+      expect(xOrder(unstable.nodes, ['a', 'b', 'c'])).toEqual(['a', 'b', 'c']);
+      expect(xOrder(stable.nodes, ['a', 'b', 'c'])).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should move untouched nodes less than a fresh layout when a node is added', async () => {
+      const { nodes, edges } = createFanOut(['a', 'b', 'c']);
+      const arranged = nodes.map(node => ({
+        ...node,
+        position: { x: { a: 600, b: 300, c: 0 }[node.id] ?? 300, y: 0 },
+      }));
+      const { nodes: previous } = await calculateLayoutWithDagre(arranged, edges, 'TB', 0, 50, 50, 172, 36, false, true);
+
+      const withNewNode = [...previous, { id: 'd', data: {}, position: { x: 900, y: 100 } }];
+      const withNewEdge = [...edges, { id: 'root-d', source: 'root', target: 'd', sourceHandle: 'bottom', targetHandle: 'top' }];
+
+      const unstable = await calculateLayoutWithDagre(withNewNode, withNewEdge, 'TB');
+      const stable = await calculateLayoutWithDagre(withNewNode, withNewEdge, 'TB', 0, 50, 50, 172, 36, false, true);
+
+      const untouched = ['root', 'a', 'b', 'c'];
+      const stableDisplacement = measureLayoutDisplacement(previous, stable.nodes, untouched);
+      const unstableDisplacement = measureLayoutDisplacement(previous, unstable.nodes, untouched);
+
+      expect(xOrder(stable.nodes, ['a', 'b', 'c', 'd'])).toEqual(['c', 'b', 'a', 'd']);
+      expect(stableDisplacement.total).toBeLessThan(unstableDisplacement.total);
+    });
+
+    it('should keep the layout in place when nothing changed', async () => {
+      const { nodes, edges } = createFanOut(['a', 'b']);
+      const first = await calculateLayoutWithDagre(
+        nodes.map(node => ({ ...node, position: { x: 500, y: 500 } })),
+        edges,
+        'TB', 0, 50, 50, 172, 36, false, true
+      );
+      const second = await calculateLayoutWithDagre(first.nodes, edges, 'TB', 0, 50, 50, 172, 36, false, true);
+
+      expect(measureLayoutDisplacement(first.nodes, second.nodes).max).toBe(0);
+    });
+  });
 });
\ No newline at end of file
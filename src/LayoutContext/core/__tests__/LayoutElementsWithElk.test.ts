@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest';
+import { Node, Edge } from '@xyflow/react';
+import { calculateHierarchyWithElk, calculateLayoutWithElk } from '../Elk';
+import type { LayoutEngineOptions } from '../../context/LayoutContext';
+
+const options: LayoutEngineOptions = {
+  direction: 'TB',
+  margin: 10,
+  nodeSpacing: 50,
+  layerSpacing: 50,
+  nodeWidth: 172,
+  nodeHeight: 36,
+  includeHidden: false,
+};
+
+describe('LayoutElementsWithElk', () => {
+  describe('calculateLayoutWithElk', () => {
+    const createTestNodes = (): Node[] => [
+      { id: 'node1', data: { label: 'Node 1' }, position: { x: 0, y: 0 } },
+      { id: 'node2', data: { label: 'Node 2' }, position: { x: 0, y: 0 } },
+      { id: 'node3', data: { label: 'Node 3' }, position: { x: 0, y: 0 }, hidden: true },
+    ];
+
+    const createTestEdges = (): Edge[] => [
+      { id: 'edge1', source: 'node1', target: 'node2' },
+      { id: 'edge2', source: 'node2', target: 'node3' },
+    ];
+
+    it('should place connected nodes in consecutive layers', async () => {
+      const result = await calculateLayoutWithElk(createTestNodes(), createTestEdges(), options);
+
+      expect(result.nodes.map(node => node.id)).toEqual(['node1', 'node2']);
+      expect(result.edges).toHaveLength(2);
+      expect(result.width).toBeGreaterThan(0);
+      expect(result.height).toBeGreaterThan(0);
+
+      const [node1, node2] = result.nodes;
+      expect(node2.position.y).toBeGreaterThanOrEqual(node1.position.y + 36 + 50);
+      expect(node1.sourcePosition).toBe('bottom');
+      expect(node1.targetPosition).toBe('top');
+      expect(node1.selected).toBe(false);
+    });
+
+    it('should respect the layout direction', async () => {
+      const result = await calculateLayoutWithElk(createTestNodes(), createTestEdges(), { ...options, direction: 'LR' });
+
+      const [node1, node2] = result.nodes;
+      expect(node2.position.x).toBeGreaterThanOrEqual(node1.position.x + 172 + 50);
+      expect(node1.sourcePosition).toBe('right');
+    });
+
+    it('should handle empty node array', async () => {
+      const result = await calculateLayoutWithElk([], [], options);
+
+      expect(result).toEqual({ nodes: [], edges: [], width: 0, height: 0 });
+    });
+  });
+
+  describe('calculateHierarchyWithElk', () => {
+    const createHierarchy = () => {
+      const nodes: Node[] = [
+        { id: 'containerA', data: { label: 'A' }, position: { x: 0, y: 0 } },
+        { id: 'containerB', data: { label: 'B' }, position: { x: 0, y: 0 } },
+        { id: 'a1', data: { label: 'A1' }, position: { x: 0, y: 0 }, parentId: 'containerA' },
+        { id: 'a2', data: { label: 'A2' }, position: { x: 0, y: 0 }, parentId: 'containerA' },
+        { id: 'b1', data: { label: 'B1' }, position: { x: 0, y: 0 }, parentId: 'containerB' },
+      ];
+      const edges: Edge[] = [
+        { id: 'a1-a2', source: 'a1', target: 'a2' },
+        { id: 'a2-b1', source: 'a2', target: 'b1' },
+      ];
+
+      const nodeIdWithNode = new Map<string, Node>();
+      const nodeParentIdMapWithChildIdSet = new Map<string, Set<string>>();
+      nodes.forEach(node => {
+        nodeIdWithNode.set(node.id, node);
+        const parentId = node.parentId || 'no-parent';
+        if (!nodeParentIdMapWithChildIdSet.has(parentId)) {
+          nodeParentIdMapWithChildIdSet.set(parentId, new Set());
+        }
+        nodeParentIdMapWithChildIdSet.get(parentId)!.add(node.id);
+      });
+
+      return { edges, nodeIdWithNode, nodeParentIdMapWithChildIdSet };
+    };
+
+    it('should return parent-relative positions and container sizes', async () => {
+      const { edges, nodeIdWithNode, nodeParentIdMapWithChildIdSet } = createHierarchy();
+
+      const result = await calculateHierarchyWithElk(
+        {
+          rootId: 'no-parent',
+          nodeParentIdMapWithChildIdSet,
+          nodeIdWithNode,
+          edges,
+          noParentKey: 'no-parent',
+        },
+        options
+      );
+
+      expect(result.nodes.map(node => node.id).sort()).toEqual(['a1', 'a2', 'b1', 'containerA', 'containerB']);
+
+      const containerA = nodeIdWithNode.get('containerA')!;
+      const a1 = nodeIdWithNode.get('a1')!;
+      const a2 = nodeIdWithNode.get('a2')!;
+
+      // Children sit inside the container padding, in parent-relative coordinates
+      expect(a1.position.x).toBeGreaterThanOrEqual(options.margin);
+      expect(a1.position.y).toBeGreaterThanOrEqual(options.margin);
+      expect(a2.position.y).toBeGreaterThan(a1.position.y);
+
+      // Containers are sized to enclose their children
+      expect(containerA.style?.width).toBe(containerA.width);
+      expect(containerA.measured?.height).toBe(containerA.height);
+      expect(containerA.width!).toBeGreaterThanOrEqual(a1.position.x + 172);
+      expect(containerA.height!).toBeGreaterThanOrEqual(a2.position.y + 36);
+    });
+
+    it('should resize the root container when laying out a sub-hierarchy', async () => {
+      const { edges, nodeIdWithNode, nodeParentIdMapWithChildIdSet } = createHierarchy();
+
+      const result = await calculateHierarchyWithElk(
+        {
+          rootId: 'containerA',
+          nodeParentIdMapWithChildIdSet,
+          nodeIdWithNode,
+          edges,
+          noParentKey: 'no-parent',
+        },
+        options
+      );
+
+      expect(result.nodes.map(node => node.id).sort()).toEqual(['a1', 'a2', 'containerA']);
+      expect(nodeIdWithNode.get('containerA')!.width).toBeGreaterThan(172);
+    });
+
+    it('should apply the parent resizing options and route edges relative to their container', async () => {
+      const { edges, nodeIdWithNode, nodeParentIdMapWithChildIdSet } = createHierarchy();
+      nodeIdWithNode.get('containerA')!.data.headerHeight = 30;
+
+      const result = await calculateHierarchyWithElk(
+        {
+          rootId: 'no-parent',
+          nodeParentIdMapWithChildIdSet,
+          nodeIdWithNode,
+          edges,
+          noParentKey: 'no-parent',
+          parentResizingOptions: {
+            enabled: true,
+            padding: { horizontal: 20, vertical: 5 },
+            respectHeaderHeight: true,
+            minWidth: 500,
+            minHeight: 120,
+          },
+        },
+        options
+      );
+
+      // containerA grows to the minimum width and centers its children in the added space
+      expect(nodeIdWithNode.get('a1')!.position).toEqual({ x: 20 + (500 - 40 - 172) / 2, y: 35 });
+      expect(nodeIdWithNode.get('containerA')!.width).toBe(500);
+      expect(nodeIdWithNode.get('containerB')!.width).toBe(500);
+      expect(nodeIdWithNode.get('containerB')!.height).toBe(120);
+      expect(result.edgeRoutes.map(route => [route.edgeId, route.parentId])).toEqual([
+        ['a2-b1', undefined],
+        ['a1-a2', 'containerA'],
+      ]);
+    });
+
+    it('should apply minimum sizes untransposed to containers with a direction of their own', async () => {
+      const { edges, nodeIdWithNode, nodeParentIdMapWithChildIdSet } = createHierarchy();
+      nodeIdWithNode.get('containerB')!.data.layoutDirection = 'LR';
+
+      await calculateHierarchyWithElk(
+        {
+          rootId: 'no-parent',
+          nodeParentIdMapWithChildIdSet,
+          nodeIdWithNode,
+          edges,
+          noParentKey: 'no-parent',
+          parentResizingOptions: {
+            enabled: true,
+            padding: { horizontal: 20, vertical: 5 },
+            respectHeaderHeight: false,
+            minWidth: 500,
+            minHeight: 120,
+          },
+        },
+        options
+      );
+
+      const containerB = nodeIdWithNode.get('containerB')!;
+      expect(containerB.width).toBe(500);
+      expect(containerB.height).toBe(120);
+      expect(nodeIdWithNode.get('b1')!.position).toEqual({ x: 20 + (500 - 40 - 172) / 2, y: 5 + (120 - 10 - 36) / 2 });
+    });
+
+    it('should lay out collapsed containers as leaves and leave their children alone', async () => {
+      const { edges, nodeIdWithNode, nodeParentIdMapWithChildIdSet } = createHierarchy();
+      nodeIdWithNode.set('containerB', { ...nodeIdWithNode.get('containerB')!, data: { collapsed: true } });
+      nodeIdWithNode.set('b1', { ...nodeIdWithNode.get('b1')!, hidden: true, position: { x: 7, y: 9 } });
+
+      const result = await calculateHierarchyWithElk(
+        {
+          rootId: 'no-parent',
+          nodeParentIdMapWithChildIdSet,
+          nodeIdWithNode,
+          edges,
+          noParentKey: 'no-parent',
+          parentResizingOptions: {
+            enabled: true,
+            padding: { horizontal: 10, vertical: 10 },
+            respectHeaderHeight: false,
+            collapsedSize: { width: 120, height: 40 },
+          },
+        },
+        options
+      );
+
+      const containerA = nodeIdWithNode.get('containerA')!;
+      const containerB = nodeIdWithNode.get('containerB')!;
+      expect(result.nodes.map(node => node.id)).not.toContain('b1');
+      expect(nodeIdWithNode.get('b1')!.position).toEqual({ x: 7, y: 9 });
+      expect(containerB.width).toBe(120);
+      expect(containerB.height).toBe(40);
+      // The edge into the collapsed container still places it after containerA
+      expect(containerB.position.y).toBeGreaterThan(containerA.position.y + containerA.height! - 1);
+      expect(result.edgeRoutes.map(route => route.edgeId)).toEqual(['a1-a2']);
+    });
+  });
+});
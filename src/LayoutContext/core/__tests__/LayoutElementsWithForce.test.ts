@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Edge, Node } from '@xyflow/react';
+import { calculateLayoutWithForce } from '../Force';
+import { createEngineOptions, createNode } from './engineTestUtils';
+
+const options = createEngineOptions({ nodeWidth: 80 });
+
+const createNodes = (count: number): Node[] =>
+  Array.from({ length: count }, (_, index) => createNode(`n${index}`));
+
+// A ring of nodes with one spoke to a large node in the middle
+const createGraph = () => {
+  const nodes = createNodes(8);
+  nodes[0].style = { width: 240, height: 160 };
+  const edges: Edge[] = nodes.slice(1).map((node, index) => ({
+    id: `e${index}`,
+    source: node.id,
+    target: nodes[index + 2]?.id ?? 'n1',
+  }));
+  edges.push({ id: 'spoke', source: 'n0', target: 'n1' });
+  return { nodes, edges };
+};
+
+const size = (node: Node) => ({ w: Number(node.style?.width) || 80, h: Number(node.style?.height) || 40 });
+
+describe('LayoutElementsWithForce', () => {
+  describe('calculateLayoutWithForce', () => {
+    it('should give the same layout for the same seed and a different one for another seed', async () => {
+      const { nodes, edges } = createGraph();
+
+      const first = await calculateLayoutWithForce(nodes, edges, options, { seed: 7 });
+      const second = await calculateLayoutWithForce(nodes, edges, options, { seed: 7 });
+      const other = await calculateLayoutWithForce(nodes, edges, options, { seed: 8 });
+
+      expect(second.nodes.map(node => node.position)).toEqual(first.nodes.map(node => node.position));
+      expect(other.nodes.map(node => node.position)).not.toEqual(first.nodes.map(node => node.position));
+    });
+
+    it('should keep nodes nodeSpacing apart using their real sizes and return the bounding box', async () => {
+      const { nodes, edges } = createGraph();
+
+      const result = await calculateLayoutWithForce(nodes, edges, options);
+
+      result.nodes.forEach((a, index) => {
+        result.nodes.slice(index + 1).forEach(b => {
+          const gapX = Math.abs(a.position.x + size(a).w / 2 - b.position.x - size(b).w / 2) - (size(a).w + size(b).w) / 2;
+          const gapY = Math.abs(a.position.y + size(a).h / 2 - b.position.y - size(b).h / 2) - (size(a).h + size(b).h) / 2;
+          expect(Math.max(gapX, gapY)).toBeGreaterThanOrEqual(20 - 1e-6);
+        });
+      });
+      expect(Math.min(...result.nodes.map(node => node.position.x))).toBeCloseTo(10);
+      expect(Math.min(...result.nodes.map(node => node.position.y))).toBeCloseTo(10);
+      expect(Math.max(...result.nodes.map(node => node.position.x + size(node).w))).toBeCloseTo(result.width - 10);
+      expect(Math.max(...result.nodes.map(node => node.position.y + size(node).h))).toBeCloseTo(result.height - 10);
+    });
+
+    it('should pull connected nodes closer together than unconnected ones', async () => {
+      const nodes = createNodes(4);
+      const edges: Edge[] = [{ id: 'a', source: 'n0', target: 'n1' }, { id: 'b', source: 'n2', target: 'n3' }];
+
+      const result = await calculateLayoutWithForce(nodes, edges, options);
+      const center = (id: string) => {
+        const { x, y } = result.nodes.find(node => node.id === id)!.position;
+        return { x: x + 40, y: y + 20 };
+      };
+      const distance = (a: string, b: string) => Math.hypot(center(a).x - center(b).x, center(a).y - center(b).y);
+
+      expect(distance('n0', 'n1')).toBeLessThan(distance('n0', 'n2'));
+      expect(distance('n2', 'n3')).toBeLessThan(distance('n1', 'n3'));
+    });
+
+    it('should start from the existing positions when asked to', async () => {
+      const nodes = createNodes(2).map((node, index) => ({ ...node, position: { x: index * 300, y: 0 } }));
+
+      const result = await calculateLayoutWithForce(nodes, [], options, { useExistingPositions: true, iterations: 0 });
+
+      expect(result.nodes.map(node => node.position)).toEqual([{ x: 10, y: 10 }, { x: 310, y: 10 }]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '@xyflow/react';
+import { calculateLayoutWithGrid } from '../Grid';
+import { createEngineOptions, createNode } from './engineTestUtils';
+
+const options = createEngineOptions({ nodeHeight: 100 });
+
+const createNodes = (count: number): Node[] =>
+  Array.from({ length: count }, (_, index) => createNode(`node${index + 1}`, { rank: count - index }));
+
+describe('LayoutElementsWithGrid', () => {
+  describe('calculateLayoutWithGrid', () => {
+    it('should pack square nodes into a square grid by default', async () => {
+      const result = await calculateLayoutWithGrid(createNodes(4), [], options);
+
+      expect(result.nodes.map(node => node.position)).toEqual([
+        { x: 10, y: 10 },
+        { x: 130, y: 10 },
+        { x: 10, y: 140 },
+        { x: 130, y: 140 },
+      ]);
+      expect(result.width).toBe(10 + 100 + 20 + 100 + 10);
+      expect(result.height).toBe(10 + 100 + 30 + 100 + 10);
+      expect(result.nodes[0].sourcePosition).toBe('bottom');
+      expect(result.nodes[0].selected).toBe(false);
+    });
+
+    it('should follow the target aspect ratio', async () => {
+      const wide = await calculateLayoutWithGrid(createNodes(6), [], options, { aspectRatio: 3 });
+      const tall = await calculateLayoutWithGrid(createNodes(6), [], options, { aspectRatio: 1 / 3 });
+
+      expect(new Set(wide.nodes.map(node => node.position.y)).size).toBe(2);
+      expect(new Set(tall.nodes.map(node => node.position.x)).size).toBe(2);
+    });
+
+    it('should use a fixed number of columns and size columns and rows to their largest node', async () => {
+      const nodes = createNodes(3);
+      nodes[0].style = { width: 200, height: 50 };
+
+      const result = await calculateLayoutWithGrid(nodes, [], options, { columns: 2 });
+
+      expect(result.nodes.map(node => node.position)).toEqual([
+        { x: 10, y: 10 },
+        { x: 230, y: 10 },
+        { x: 10, y: 140 },
+      ]);
+    });
+
+    it('should sort by the id, a data field or a comparator', async () => {
+      const byField = await calculateLayoutWithGrid(createNodes(3), [], options, { columns: 3, sortBy: 'rank' });
+      const byComparator = await calculateLayoutWithGrid(createNodes(3), [], options, {
+        columns: 3,
+        sortBy: (a, b) => b.id.localeCompare(a.id),
+      });
+
+      expect(byField.nodes.map(node => node.id)).toEqual(['node3', 'node2', 'node1']);
+      expect(byComparator.nodes.map(node => node.id)).toEqual(['node3', 'node2', 'node1']);
+    });
+
+    it('should fill columns first for horizontal directions', async () => {
+      const result = await calculateLayoutWithGrid(createNodes(3), [], { ...options, direction: 'LR' }, { columns: 2 });
+
+      expect(result.nodes.map(node => node.position)).toEqual([
+        { x: 10, y: 10 },
+        { x: 10, y: 140 },
+        { x: 130, y: 10 },
+      ]);
+      expect(result.nodes[0].sourcePosition).toBe('right');
+    });
+
+    it('should skip hidden nodes and handle empty input', async () => {
+      const nodes = createNodes(2);
+      nodes[1].hidden = true;
+
+      expect((await calculateLayoutWithGrid(nodes, [], options)).nodes.map(node => node.id)).toEqual(['node1']);
+      expect(await calculateLayoutWithGrid([], [], options)).toEqual({ nodes: [], edges: [], width: 0, height: 0 });
+    });
+  });
+});
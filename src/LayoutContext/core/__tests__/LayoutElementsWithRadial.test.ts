@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '@xyflow/react';
+import { calculateLayoutWithRadial } from '../Radial';
+import { createEdge, createEngineOptions, createNode } from './engineTestUtils';
+
+const options = createEngineOptions({ nodeWidth: 60, nodeHeight: 60 });
+
+const centerOf = (node: Node) => ({ x: node.position.x + 30, y: node.position.y + 30 });
+
+const distanceBetween = (a: Node, b: Node) => {
+  const ca = centerOf(a);
+  const cb = centerOf(b);
+  return Math.hypot(ca.x - cb.x, ca.y - cb.y);
+};
+
+const overlaps = (a: Node, b: Node) =>
+  Math.abs(a.position.x - b.position.x) < 60 && Math.abs(a.position.y - b.position.y) < 60;
+
+describe('LayoutElementsWithRadial', () => {
+  describe('calculateLayoutWithRadial', () => {
+    it('should put the highest degree node at the center and its neighbors on the first ring', async () => {
+      const nodes = ['a', 'b', 'hub', 'c', 'd'].map(id => createNode(id));
+      const edges = ['a', 'b', 'c', 'd'].map(id => createEdge(id, 'hub'));
+
+      const result = await calculateLayoutWithRadial(nodes, edges, options);
+      const byId = new Map(result.nodes.map(node => [node.id, node]));
+      const hub = byId.get('hub')!;
+      const radii = ['a', 'b', 'c', 'd'].map(id => distanceBetween(hub, byId.get(id)!));
+
+      expect(centerOf(hub)).toEqual({ x: result.width / 2, y: result.height / 2 });
+      radii.forEach(radius => expect(radius).toBeCloseTo(radii[0]));
+      // The first node of a ring starts at the top
+      expect(centerOf(byId.get('a')!).x).toBeCloseTo(centerOf(hub).x);
+      expect(centerOf(byId.get('a')!).y).toBeLessThan(centerOf(hub).y);
+    });
+
+    it('should place nodes on rings by their distance from data.layoutRoot', async () => {
+      const nodes = [createNode('a'), createNode('b'), createNode('c', { layoutRoot: true })];
+      const edges = [createEdge('a', 'b'), createEdge('b', 'c')];
+
+      const result = await calculateLayoutWithRadial(nodes, edges, options);
+      const byId = new Map(result.nodes.map(node => [node.id, node]));
+
+      expect(distanceBetween(byId.get('c')!, byId.get('a')!)).toBeGreaterThan(distanceBetween(byId.get('c')!, byId.get('b')!));
+    });
+
+    it('should keep nodes of crowded rings apart and return a bounding box enclosing every node', async () => {
+      const leaves = Array.from({ length: 12 }, (_, index) => createNode(`leaf${index}`));
+      const nodes = [createNode('hub'), ...leaves, createNode('loose')];
+      const edges = leaves.map(leaf => createEdge('hub', leaf.id));
+
+      const result = await calculateLayoutWithRadial(nodes, edges, options);
+
+      result.nodes.forEach((node, index) => {
+        result.nodes.slice(index + 1).forEach(other => expect(overlaps(node, other)).toBe(false));
+        expect(node.position.x).toBeGreaterThanOrEqual(10 - 1e-9);
+        expect(node.position.y).toBeGreaterThanOrEqual(10 - 1e-9);
+        expect(node.position.x + 60).toBeLessThanOrEqual(result.width - 10 + 1e-9);
+        expect(node.position.y + 60).toBeLessThanOrEqual(result.height - 10 + 1e-9);
+      });
+      const byId = new Map(result.nodes.map(node => [node.id, node]));
+      expect(distanceBetween(byId.get('hub')!, byId.get('loose')!))
+        .toBeGreaterThan(distanceBetween(byId.get('hub')!, byId.get('leaf0')!));
+    });
+
+    it('should lay out a single node at the margin', async () => {
+      const result = await calculateLayoutWithRadial([createNode('only')], [], options);
+
+      expect(result.nodes[0].position).toEqual({ x: 10, y: 10 });
+      expect(result.width).toBe(80);
+      expect(result.height).toBe(80);
+    });
+  });
+});
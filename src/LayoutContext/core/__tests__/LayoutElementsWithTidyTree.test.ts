@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { Edge, Node } from '@xyflow/react';
+import { buildForest, calculateLayoutWithTidyTree } from '../TidyTree';
+import { calculateLayoutWithDagre } from '../Dagre';
+import { createEdges, createEngineOptions, createNode, createNodes } from './engineTestUtils';
+
+const options = createEngineOptions();
+
+const layout = async (nodes: Node[], edges: Edge[], layoutOptions = options, settings = {}) => {
+  const result = await calculateLayoutWithTidyTree(nodes, edges, layoutOptions, settings);
+  return { result, byId: new Map(result.nodes.map(node => [node.id, node.position])) };
+};
+
+describe('LayoutElementsWithTidyTree', () => {
+  describe('buildForest', () => {
+    it('should accept trees and reject nodes with two parents or cycles', () => {
+      expect(buildForest(['a', 'b', 'c'], createEdges(['a', 'b'], ['a', 'c'], ['a', 'b']))?.roots).toEqual(['a']);
+      expect(buildForest(['a', 'b', 'c'], createEdges(['a', 'c'], ['b', 'c']))).toBeNull();
+      expect(buildForest(['a', 'b', 'c'], createEdges(['a', 'b'], ['b', 'c'], ['c', 'b']))).toBeNull();
+      expect(buildForest(['a', 'b'], createEdges(['a', 'b'], ['b', 'a']))).toBeNull();
+    });
+  });
+
+  describe('calculateLayoutWithTidyTree', () => {
+    it('should center parents over their children and put each depth in its own layer', async () => {
+      const { result, byId } = await layout(createNodes('root', 'a', 'b', 'c'), createEdges(['root', 'a'], ['root', 'b'], ['root', 'c']));
+
+      expect(byId.get('a')).toEqual({ x: 10, y: 80 });
+      expect(byId.get('b')).toEqual({ x: 130, y: 80 });
+      expect(byId.get('c')).toEqual({ x: 250, y: 80 });
+      expect(byId.get('root')).toEqual({ x: 130, y: 10 });
+      expect(result.width).toBe(10 + 340 + 10);
+      expect(result.height).toBe(10 + 40 + 30 + 40 + 10);
+    });
+
+    it('should tuck subtrees under their neighbors and apply the subtree separation below the roots', async () => {
+      const nodes = createNodes('root', 'a', 'b', 'a1', 'a2', 'b1', 'b2');
+      const edges = createEdges(['root', 'a'], ['root', 'b'], ['a', 'a1'], ['a', 'a2'], ['b', 'b1'], ['b', 'b2']);
+
+      const { byId } = await layout(nodes, edges, options, { siblingSeparation: 20, subtreeSeparation: 60 });
+
+      // a2 and b1 are cousins: they are 60 apart, while siblings are 20 apart
+      expect(byId.get('a2')!.x - byId.get('a1')!.x).toBe(120);
+      expect(byId.get('b1')!.x - byId.get('a2')!.x).toBe(160);
+      // a and b are centered over their children, root over a and b
+      expect(byId.get('a')!.x).toBe((byId.get('a1')!.x + byId.get('a2')!.x) / 2);
+      expect(byId.get('root')!.x).toBe((byId.get('a')!.x + byId.get('b')!.x) / 2);
+    });
+
+    it('should grow the tree along the layout direction', async () => {
+      const nodes = createNodes('root', 'child');
+      const edges = createEdges(['root', 'child']);
+
+      const right = await layout(nodes, edges, { ...options, direction: 'LR' });
+      const up = await layout(nodes, edges, { ...options, direction: 'BT' });
+
+      expect(right.byId.get('child')!.x).toBeGreaterThan(right.byId.get('root')!.x);
+      expect(right.byId.get('child')!.y).toBe(right.byId.get('root')!.y);
+      expect(up.byId.get('child')!.y).toBeLessThan(up.byId.get('root')!.y);
+      expect(up.result.nodes[0].sourcePosition).toBe('top');
+    });
+
+    it('should fall back to Dagre when a node has two parents', async () => {
+      const nodes = createNodes('a', 'b', 'c');
+      const edges = createEdges(['a', 'c'], ['b', 'c']);
+
+      const { result, byId } = await layout(nodes, edges);
+
+      expect(byId.get('c')!.y).toBeGreaterThan(byId.get('a')!.y);
+      expect(result.edges.some(edge => edge.data?.points)).toBe(true);
+    });
+
+    it('should lay out the visible nodes with Dagre and the sibling separation when the edges form no forest', async () => {
+      const nodes = [...createNodes('a', 'b', 'c'), { ...createNode('ghost'), hidden: true }];
+      const edges = createEdges(['a', 'c'], ['b', 'c']);
+
+      const { result } = await layout(nodes, edges, options, { siblingSeparation: 70 });
+      const dagre = await calculateLayoutWithDagre(nodes.slice(0, 3), edges, 'TB', 10, 70, 30, 100, 40);
+
+      expect(result.nodes.map(node => node.id)).toEqual(['a', 'b', 'c']);
+      expect(result.nodes.map(node => node.position)).toEqual(dagre.nodes.map(node => node.position));
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { Edge, Node, Position, XYPosition } from '@xyflow/react';
+import { routeEdgesOrthogonally } from '../OrthogonalRouter';
+
+const options = { cornerRadius: 6, edgeSeparation: 8, nodeClearance: 10 };
+
+const createNode = (id: string, x: number, y: number, width = 100, height = 40, parentId?: string): Node => ({
+  id,
+  data: {},
+  position: { x, y },
+  style: { width, height },
+  parentId,
+  sourcePosition: Position.Bottom,
+  targetPosition: Position.Top,
+});
+
+const getAbsoluteRoute = (edge: Edge, nodeIdWithNode: Map<string, Node>, start: XYPosition, end: XYPosition) => {
+  const parent = edge.data?.waypointsParentId ? nodeIdWithNode.get(edge.data.waypointsParentId as string) : undefined;
+  const offset = parent ? parent.position : { x: 0, y: 0 };
+  const waypoints = (edge.data!.waypoints as XYPosition[]).map(point => ({ x: point.x + offset.x, y: point.y + offset.y }));
+  return [start, ...waypoints, end];
+};
+
+const expectOrthogonal = (points: XYPosition[]) => {
+  points.slice(1).forEach((point, index) => {
+    const previous = points[index];
+    expect(point.x === previous.x || point.y === previous.y).toBe(true);
+  });
+};
+
+// Whether any segment of the route passes through the inside of the box
+const crosses = (points: XYPosition[], node: Node) => {
+  const x1 = node.position.x;
+  const y1 = node.position.y;
+  const x2 = x1 + Number(node.style!.width);
+  const y2 = y1 + Number(node.style!.height);
+  return points.slice(1).some((point, index) => {
+    const previous = points[index];
+    const minX = Math.min(point.x, previous.x);
+    const maxX = Math.max(point.x, previous.x);
+    const minY = Math.min(point.y, previous.y);
+    const maxY = Math.max(point.y, previous.y);
+    return maxX > x1 && minX < x2 && maxY > y1 && minY < y2;
+  });
+};
+
+describe('OrthogonalRouter', () => {
+  describe('routeEdgesOrthogonally', () => {
+    it('should route around nodes in the way with right angles', () => {
+      const nodes = [createNode('a', 0, 0), createNode('blocker', 0, 100), createNode('b', 0, 200)];
+      const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+
+      const [edge] = routeEdgesOrthogonally([{ id: 'a-b', source: 'a', target: 'b' }], nodeIdWithNode, options);
+      const route = getAbsoluteRoute(edge, nodeIdWithNode, { x: 50, y: 40 }, { x: 50, y: 200 });
+
+      expectOrthogonal(route);
+      expect(crosses(route, nodeIdWithNode.get('blocker')!)).toBe(false);
+      expect(edge.data!.cornerRadius).toBe(6);
+      expect(edge.data!.waypointsParentId).toBeUndefined();
+    });
+
+    it('should find the way around obstacles reaching far past both endpoints', () => {
+      const nodes = [createNode('a', 0, 0), createNode('wall', -400, 100, 900, 40), createNode('b', 0, 200)];
+      const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+
+      const [edge] = routeEdgesOrthogonally([{ id: 'a-b', source: 'a', target: 'b' }], nodeIdWithNode, options);
+      const route = getAbsoluteRoute(edge, nodeIdWithNode, { x: 50, y: 40 }, { x: 50, y: 200 });
+
+      expectOrthogonal(route);
+      expect(crosses(route, nodeIdWithNode.get('wall')!)).toBe(false);
+    });
+
+    it('should pass through the containers holding the endpoints but not through other containers', () => {
+      const nodes = [
+        createNode('A', 0, 0, 200, 120),
+        createNode('a1', 50, 40, 100, 40, 'A'),
+        createNode('C', 0, 180, 200, 120),
+        createNode('c1', 50, 40, 100, 40, 'C'),
+        createNode('B', 0, 360, 200, 120),
+        createNode('b1', 50, 40, 100, 40, 'B'),
+      ];
+      const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+
+      const [edge] = routeEdgesOrthogonally([{ id: 'a1-b1', source: 'a1', target: 'b1' }], nodeIdWithNode, options);
+      const route = getAbsoluteRoute(edge, nodeIdWithNode, { x: 100, y: 80 }, { x: 100, y: 400 });
+
+      expectOrthogonal(route);
+      expect(crosses(route, nodeIdWithNode.get('C')!)).toBe(false);
+    });
+
+    it('should write waypoints relative to the lowest common ancestor', () => {
+      const nodes = [
+        createNode('container', 300, 300, 400, 300),
+        createNode('x', 20, 20, 100, 40, 'container'),
+        createNode('y', 20, 200, 100, 40, 'container'),
+      ];
+      const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+
+      const [edge] = routeEdgesOrthogonally([{ id: 'x-y', source: 'x', target: 'y' }], nodeIdWithNode, options);
+
+      expect(edge.data!.waypointsParentId).toBe('container');
+      expect(edge.data!.waypoints).toEqual([]);
+    });
+
+    it('should keep parallel segments of different edges apart', () => {
+      const nodes = [
+        createNode('s1', 0, 0),
+        createNode('s2', 0, 60),
+        createNode('wall', 150, -100, 40, 200),
+        createNode('t1', 300, 0),
+        createNode('t2', 300, 60),
+      ].map(node => ({ ...node, sourcePosition: Position.Right, targetPosition: Position.Left }));
+      const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+
+      const edges = routeEdgesOrthogonally(
+        [{ id: 'e1', source: 's1', target: 't1' }, { id: 'e2', source: 's2', target: 't2' }],
+        nodeIdWithNode,
+        options
+      );
+      const routes = [
+        getAbsoluteRoute(edges[0], nodeIdWithNode, { x: 100, y: 20 }, { x: 300, y: 20 }),
+        getAbsoluteRoute(edges[1], nodeIdWithNode, { x: 100, y: 80 }, { x: 300, y: 80 }),
+      ];
+      routes.forEach(expectOrthogonal);
+
+      // Both go around the wall through the channel below it, on separate lines
+      const horizontalBelowWall = routes.map(route => route.find((point, index) =>
+        index > 0 && point.y > 100 && route[index - 1].y === point.y)!.y);
+      expect(Math.abs(horizontalBelowWall[0] - horizontalBelowWall[1])).toBe(8);
+    });
+
+    it('should route a few hundred nodes within a time budget', () => {
+      // 20 by 20 grid with every node connected to the next one, rows wrapping around
+      const nodes = Array.from({ length: 400 }, (_, index) => createNode(`n${index}`, (index % 20) * 160, Math.floor(index / 20) * 100));
+      const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+      const edges = nodes.slice(1).map((node, index) => ({ id: `e${index}`, source: nodes[index].id, target: node.id }));
+
+      const start = performance.now();
+      const routed = routeEdgesOrthogonally(edges, nodeIdWithNode, options);
+      const duration = performance.now() - start;
+
+      expect(routed.every(edge => Array.isArray(edge.data?.waypoints))).toBe(true);
+      expect(duration).toBeLessThan(3000);
+    });
+  });
+});
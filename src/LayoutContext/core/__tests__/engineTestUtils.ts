@@ -0,0 +1,23 @@
+import { Edge, Node } from '@xyflow/react';
+import type { LayoutEngineOptions } from '../../context/LayoutContext';
+
+// Options shared by the engine tests; each test file overrides the node size it measures against
+export const createEngineOptions = (overrides: Partial<LayoutEngineOptions> = {}): LayoutEngineOptions => ({
+  direction: 'TB',
+  margin: 10,
+  nodeSpacing: 20,
+  layerSpacing: 30,
+  nodeWidth: 100,
+  nodeHeight: 40,
+  includeHidden: false,
+  ...overrides,
+});
+
+export const createNode = (id: string, data: Record<string, unknown> = {}): Node => ({ id, data, position: { x: 0, y: 0 } });
+
+export const createNodes = (...ids: string[]): Node[] => ids.map(id => createNode(id));
+
+export const createEdge = (source: string, target: string): Edge => ({ id: `${source}-${target}`, source, target });
+
+export const createEdges = (...pairs: [source: string, target: string][]): Edge[] =>
+  pairs.map(([source, target]) => createEdge(source, target));
@@ -0,0 +1,31 @@
+import { LayoutEngine } from '../context/LayoutContext';
+import { calculateLayoutWithDagre, DagreSettings } from '../core/Dagre';
+
+/**
+ * Creates a Dagre backed layout engine.
+ * The settings control how much space edge labels reserve in the layout.
+ */
+export const createDagreEngine = (settings: DagreSettings = {}): LayoutEngine => ({
+  calculate: async (nodes, edges, options) => {
+    return calculateLayoutWithDagre(
+      nodes,
+      edges,
+      options.direction,
+      options.margin,
+      options.nodeSpacing,
+      options.layerSpacing,
+      options.nodeWidth,
+      options.nodeHeight,
+      options.includeHidden,
+      options.stable,
+      options.alignment,
+      settings
+    );
+  }
+});
+
+/**
+ * Adapter for the existing Dagre implementation.
+ * This wraps the original calculateLayoutWithDagre function to match the LayoutEngine interface
+ */
+export const DagreEngine: LayoutEngine = createDagreEngine();
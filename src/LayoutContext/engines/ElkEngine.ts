@@ -0,0 +1,21 @@
+import { LayoutEngine } from '../context/LayoutContext';
+import { calculateHierarchyWithElk, calculateLayoutWithElk, ElkSettings } from '../core/Elk';
+
+/**
+ * Creates an ELK (elkjs) backed layout engine.
+ * With hierarchyHandling 'SEPARATE_CHILDREN' (default) each container is laid out on its own like Dagre;
+ * with 'INCLUDE_CHILDREN' full layouts hand the whole nested hierarchy to ELK in one pass.
+ */
+export const createElkEngine = (settings: ElkSettings = {}): LayoutEngine => {
+  const engine: LayoutEngine = {
+    calculate: async (nodes, edges, options) => calculateLayoutWithElk(nodes, edges, options, settings),
+  };
+
+  if (settings.hierarchyHandling === 'INCLUDE_CHILDREN') {
+    engine.calculateHierarchy = async (input, options) => calculateHierarchyWithElk(input, options, settings);
+  }
+
+  return engine;
+};
+
+export const ElkEngine: LayoutEngine = createElkEngine();
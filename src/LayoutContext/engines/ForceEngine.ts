@@ -0,0 +1,12 @@
+import { LayoutEngine } from '../context/LayoutContext';
+import { calculateLayoutWithForce, ForceSettings } from '../core/Force';
+
+/**
+ * Creates a seeded force-directed engine for graphs without a flow direction.
+ * The same seed and input always give the same layout.
+ */
+export const createForceEngine = (settings: ForceSettings = {}): LayoutEngine => ({
+  calculate: async (nodes, edges, options) => calculateLayoutWithForce(nodes, edges, options, settings),
+});
+
+export const ForceEngine: LayoutEngine = createForceEngine();
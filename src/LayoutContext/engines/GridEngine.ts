@@ -0,0 +1,12 @@
+import { LayoutEngine } from '../context/LayoutContext';
+import { calculateLayoutWithGrid, GridSettings } from '../core/Grid';
+
+/**
+ * Creates a grid packing engine that ignores edges and arranges nodes in columns and rows.
+ * Suited to containers whose children are not connected to each other.
+ */
+export const createGridEngine = (settings: GridSettings = {}): LayoutEngine => ({
+  calculate: async (nodes, edges, options) => calculateLayoutWithGrid(nodes, edges, options, settings),
+});
+
+export const GridEngine: LayoutEngine = createGridEngine();
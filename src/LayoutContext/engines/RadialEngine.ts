@@ -0,0 +1,12 @@
+import { LayoutEngine } from '../context/LayoutContext';
+import { calculateLayoutWithRadial, RadialSettings } from '../core/Radial';
+
+/**
+ * Creates a radial engine that puts a root node at the center and the others on rings by their
+ * distance from it. Suited to hub-and-spoke containers, which a layered layout makes very wide.
+ */
+export const createRadialEngine = (settings: RadialSettings = {}): LayoutEngine => ({
+  calculate: async (nodes, edges, options) => calculateLayoutWithRadial(nodes, edges, options, settings),
+});
+
+export const RadialEngine: LayoutEngine = createRadialEngine();
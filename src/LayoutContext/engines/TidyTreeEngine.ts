@@ -0,0 +1,13 @@
+import { LayoutEngine } from '../context/LayoutContext';
+import { calculateLayoutWithTidyTree, TidyTreeSettings } from '../core/TidyTree';
+
+/**
+ * Creates a tidy tree engine (Reingold–Tilford) that centers parents over their subtrees and packs
+ * subtrees tightly. Suited to strict hierarchies such as org charts; containers whose edges do not
+ * form a forest are laid out with Dagre instead.
+ */
+export const createTidyTreeEngine = (settings: TidyTreeSettings = {}): LayoutEngine => ({
+  calculate: async (nodes, edges, options) => calculateLayoutWithTidyTree(nodes, edges, options, settings),
+});
+
+export const TidyTreeEngine: LayoutEngine = createTidyTreeEngine();
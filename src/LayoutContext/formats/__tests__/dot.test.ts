@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '@xyflow/react';
+import { parseDot, toDot } from '../dot';
+import { layoutGraph } from '../../core/HeadlessLayout';
+
+const source = `
+digraph Services {
+  rankdir=LR; // Root direction
+  node [shape=box];
+  subgraph cluster_backend {
+    label="Backend";
+    rankdir=TB;
+    api:out -> db [label="queries"];
+    subgraph cluster_jobs {
+      worker [label="Job" + " worker"];
+    }
+  }
+  /* Edges into subgraphs fan out */
+  client -> { api worker } [color=red];
+}`;
+
+describe('dot', () => {
+  describe('parseDot', () => {
+    it('should turn clusters into containers and nodes into their children', () => {
+      const graph = parseDot(source);
+      const byId = new Map(graph.nodes.map(node => [node.id, node]));
+
+      expect(graph.name).toBe('Services');
+      expect(graph.direction).toBe('RIGHT');
+      expect(graph.nodes.map(node => node.id)).toEqual(['backend', 'jobs', 'api', 'db', 'worker', 'client']);
+      expect(byId.get('backend')!.data).toEqual({ label: 'Backend', layoutDirection: 'TB' });
+      expect(byId.get('jobs')!.parentId).toBe('backend');
+      expect(byId.get('api')!.parentId).toBe('backend');
+      expect(byId.get('worker')!.parentId).toBe('jobs');
+      expect(byId.get('client')!.parentId).toBeUndefined();
+      expect(byId.get('worker')!.data).toEqual({ label: 'Job worker', dotAttributes: { shape: 'box' } });
+    });
+
+    it('should move nodes used at the root into the first cluster that mentions them', () => {
+      const graph = parseDot('digraph { a -> b; subgraph cluster_x { a; b } subgraph cluster_y { b } }');
+      const byId = new Map(graph.nodes.map(node => [node.id, node]));
+
+      expect(byId.get('a')!.parentId).toBe('x');
+      expect(byId.get('b')!.parentId).toBe('x');
+    });
+
+    it('should read edges with labels and expand subgraph endpoints', () => {
+      const { edges } = parseDot(source);
+
+      expect(edges).toEqual([
+        { id: 'api-db', source: 'api', target: 'db', label: 'queries' },
+        { id: 'client-api', source: 'client', target: 'api', data: { dotAttributes: { color: 'red' } } },
+        { id: 'client-worker', source: 'client', target: 'worker', data: { dotAttributes: { color: 'red' } } },
+      ]);
+    });
+
+    it('should turn pos and bb into parent-relative positions', () => {
+      const graph = parseDot(`graph {
+        subgraph cluster_c { bb="100,-300,400,-100"; n [pos="200,-150", width=1, height=0.5]; }
+      }`);
+      const [container, node] = graph.nodes;
+
+      expect(graph.directed).toBe(false);
+      expect(container.position).toEqual({ x: 100, y: 100 });
+      expect(container.style).toEqual({ width: 300, height: 200 });
+      expect(node.position).toEqual({ x: 64, y: 32 });
+      expect(node.style).toEqual({ width: 72, height: 36 });
+    });
+
+    it('should report syntax errors with their line', () => {
+      expect(() => parseDot('digraph {\n  a -> ;\n}')).toThrow('DOT syntax error at line 2');
+      expect(() => parseDot('flowchart TD')).toThrow('expected "graph" or "digraph"');
+    });
+  });
+
+  describe('toDot', () => {
+    it('should write containers as nested clusters and quote ids when needed', () => {
+      const nodes: Node[] = [
+        { id: 'group', data: { label: 'Group', layoutDirection: 'LR' }, position: { x: 0, y: 0 } },
+        { id: 'my node', data: { label: 'Say "hi"' }, position: { x: 0, y: 0 }, parentId: 'group' },
+      ];
+
+      const dot = toDot(nodes, [{ id: 'e', source: 'my node', target: 'group' }], { includePositions: false });
+
+      expect(dot).toBe([
+        'digraph {',
+        '  subgraph cluster_group {',
+        '    label=Group;',
+        '    rankdir=LR;',
+        '    "my node" [label="Say \\"hi\\""];',
+        '  }',
+        '  "my node" -> group [id=e];',
+        '}',
+        '',
+      ].join('\n'));
+    });
+
+    it('should round-trip a laid out hierarchy through DOT', async () => {
+      const layouted = await layoutGraph(parseDot(source).nodes, parseDot(source).edges, { direction: 'RIGHT' });
+
+      const reparsed = parseDot(toDot(layouted.nodes, layouted.edges, { direction: 'RIGHT' }));
+      const byId = new Map(reparsed.nodes.map(node => [node.id, node]));
+
+      expect(reparsed.direction).toBe('RIGHT');
+      layouted.nodes.forEach(node => {
+        const roundTripped = byId.get(node.id)!;
+        expect(roundTripped.parentId).toBe(node.parentId);
+        expect(roundTripped.position.x).toBeCloseTo(node.position.x, 1);
+        expect(roundTripped.position.y).toBeCloseTo(node.position.y, 1);
+      });
+      expect(reparsed.edges.map(edge => edge.id)).toEqual(layouted.edges.map(edge => edge.id));
+    });
+  });
+});
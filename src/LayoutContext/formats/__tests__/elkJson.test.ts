@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { Edge, Node } from '@xyflow/react';
+import ELK from 'elkjs/lib/elk.bundled.js';
+import type { ElkNode } from 'elkjs/lib/elk-api';
+import { parseElkGraph, toElkGraph } from '../elkJson';
+import { layoutGraph } from '../../core/HeadlessLayout';
+
+const graph: ElkNode = {
+  id: 'root',
+  layoutOptions: { 'elk.direction': 'RIGHT', 'elk.algorithm': 'layered' },
+  children: [
+    {
+      id: 'backend',
+      x: 100,
+      y: 20,
+      width: 300,
+      height: 200,
+      labels: [{ text: 'Backend' }],
+      layoutOptions: {
+        'org.eclipse.elk.direction': 'DOWN',
+        'elk.spacing.nodeNode': '30',
+        'elk.padding': '[top=40,left=20,bottom=40,right=20]',
+        'elk.portConstraints': 'FIXED_SIDE',
+      },
+      children: [
+        { id: 'api', x: 20, y: 40, width: 120, height: 40, ports: [{ id: 'api-out' }] },
+        { id: 'db', x: 20, y: 120, width: 120, height: 40 },
+      ],
+      edges: [
+        {
+          id: 'api-db',
+          sources: ['api-out'],
+          targets: ['db'],
+          labels: [{ text: 'queries' }],
+          sections: [{ id: 's', startPoint: { x: 80, y: 80 }, endPoint: { x: 80, y: 120 }, bendPoints: [{ x: 80, y: 100 }] }],
+        },
+      ],
+    },
+    { id: 'client', x: 0, y: 60, width: 60, height: 40 },
+  ],
+  edges: [{ id: 'fan-out', sources: ['client'], targets: ['api', 'db'] }],
+};
+
+const createNode = (id: string, parentId?: string): Node => ({
+  id,
+  data: { label: id },
+  position: { x: 0, y: 0 },
+  ...(parentId ? { parentId } : {}),
+});
+
+describe('elkJson', () => {
+  describe('parseElkGraph', () => {
+    it('should turn nested children into containers with parent-relative positions', () => {
+      const result = parseElkGraph(graph);
+      const byId = new Map(result.nodes.map(node => [node.id, node]));
+
+      expect(result.direction).toBe('RIGHT');
+      expect(result.layoutOptions).toEqual({ 'elk.algorithm': 'layered' });
+      expect(result.nodes.map(node => node.id)).toEqual(['backend', 'api', 'db', 'client']);
+      expect(byId.get('api')!.parentId).toBe('backend');
+      expect(byId.get('api')!.position).toEqual({ x: 20, y: 40 });
+      expect(byId.get('backend')!.style).toEqual({ width: 300, height: 200 });
+      expect(byId.get('backend')!.data).toEqual({
+        label: 'Backend',
+        layoutDirection: 'TB',
+        layoutNodeSpacing: 30,
+        layoutPadding: { horizontal: 20, vertical: 40 },
+        elkLayoutOptions: { 'elk.portConstraints': 'FIXED_SIDE' },
+      });
+    });
+
+    it('should read edges from every level, resolving ports and splitting hyperedges', () => {
+      const { edges } = parseElkGraph(graph);
+
+      expect(edges).toEqual([
+        {
+          id: 'api-db',
+          source: 'api',
+          target: 'db',
+          sourceHandle: 'api-out',
+          label: 'queries',
+          data: { waypoints: [{ x: 80, y: 100 }], waypointsParentId: 'backend' },
+        },
+        { id: 'fan-out-0', source: 'client', target: 'api' },
+        { id: 'fan-out-1', source: 'client', target: 'db' },
+      ]);
+    });
+  });
+
+  describe('toElkGraph', () => {
+    it('should nest containers and place edges in their lowest common container', () => {
+      const nodes = [
+        { ...createNode('group'), data: { label: 'Group', layoutDirection: 'LR', layoutPadding: 10 } },
+        createNode('inner', 'group'),
+        createNode('a', 'inner'),
+        createNode('b', 'group'),
+        createNode('c'),
+      ];
+      const edges: Edge[] = [
+        { id: 'a-b', source: 'a', target: 'b', label: 'calls' },
+        { id: 'group-a', source: 'group', target: 'a' },
+        { id: 'b-c', source: 'b', target: 'c' },
+      ];
+
+      const elkGraph = toElkGraph(nodes, edges, { direction: 'DOWN', includePositions: false });
+      const group = elkGraph.children![0];
+
+      expect(elkGraph.layoutOptions).toEqual({ 'elk.direction': 'DOWN' });
+      expect(elkGraph.children!.map(child => child.id)).toEqual(['group', 'c']);
+      expect(group.layoutOptions).toEqual({
+        'elk.direction': 'RIGHT',
+        'elk.padding': '[top=10,left=10,bottom=10,right=10]',
+      });
+      expect(group.children!.map(child => child.id)).toEqual(['inner', 'b']);
+      expect(group.edges).toEqual([
+        { id: 'a-b', sources: ['a'], targets: ['b'], labels: [{ text: 'calls' }] },
+        { id: 'group-a', sources: ['group'], targets: ['a'] },
+      ]);
+      expect(elkGraph.edges).toEqual([{ id: 'b-c', sources: ['b'], targets: ['c'] }]);
+      expect(group.children![1]).toEqual({ id: 'b', width: 172, height: 36, labels: [{ text: 'b' }] });
+    });
+
+    it('should round-trip a laid out hierarchy and its container settings', async () => {
+      const { nodes, edges } = parseElkGraph(graph);
+      const layouted = await layoutGraph(nodes, edges, { direction: 'RIGHT' });
+
+      const reparsed = parseElkGraph(toElkGraph(layouted.nodes, layouted.edges, { direction: 'RIGHT' }));
+      const byId = new Map(reparsed.nodes.map(node => [node.id, node]));
+
+      expect(reparsed.direction).toBe('RIGHT');
+      layouted.nodes.forEach(node => {
+        const roundTripped = byId.get(node.id)!;
+        expect(roundTripped.parentId).toBe(node.parentId);
+        expect(roundTripped.position).toEqual(node.position);
+        expect(roundTripped.data).toEqual(node.data);
+      });
+      expect(reparsed.edges.map(edge => [edge.source, edge.target])).toEqual(
+        layouted.edges.map(edge => [edge.source, edge.target])
+      );
+    });
+
+    it('should produce a graph ELK lays out with the same hierarchy', async () => {
+      const nodes = [createNode('group'), createNode('a', 'group'), createNode('b', 'group'), createNode('c')];
+      const edges: Edge[] = [
+        { id: 'a-b', source: 'a', target: 'b' },
+        { id: 'b-c', source: 'b', target: 'c' },
+      ];
+
+      const laidOut = await new ELK().layout(toElkGraph(nodes, edges, {
+        includePositions: false,
+        direction: 'RIGHT',
+        layoutOptions: { 'elk.hierarchyHandling': 'INCLUDE_CHILDREN' },
+      }));
+      const result = parseElkGraph(laidOut);
+      const byId = new Map(result.nodes.map(node => [node.id, node]));
+
+      expect(byId.get('a')!.parentId).toBe('group');
+      expect(result.direction).toBe('RIGHT');
+      expect(byId.get('b')!.position.x).toBeGreaterThan(byId.get('a')!.position.x);
+      expect(Number(byId.get('group')!.style!.width)).toBeGreaterThanOrEqual(172);
+    });
+  });
+});
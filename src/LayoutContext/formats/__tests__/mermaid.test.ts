@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '@xyflow/react';
+import { parseMermaid, toMermaid } from '../mermaid';
+
+const source = `flowchart LR
+  %% Entry point
+  client([Client]) -->|HTTPS| api
+  subgraph backend [Backend services]
+    direction TB
+    api[API<br>gateway] -- queries --> db[(Database)]
+    api -.-> cache{{"Cache #quot;hot#quot;"}}
+    subgraph jobs
+      worker>Worker]
+    end
+  end
+  api & worker ==> logs((Logs)); logs --- archive[/Archive\\]
+  classDef highlight fill:#f96
+`;
+
+describe('mermaid', () => {
+  describe('parseMermaid', () => {
+    it('should turn subgraphs into containers with their direction', () => {
+      const { nodes, direction } = parseMermaid(source);
+      const byId = new Map(nodes.map(node => [node.id, node]));
+
+      expect(direction).toBe('RIGHT');
+      expect(nodes.slice(0, 2).map(node => node.id)).toEqual(['backend', 'jobs']);
+      expect(byId.get('backend')!.data).toEqual({ label: 'Backend services', layoutDirection: 'TB' });
+      expect(byId.get('jobs')!.parentId).toBe('backend');
+      expect(byId.get('api')!.parentId).toBe('backend');
+      expect(byId.get('worker')!.parentId).toBe('jobs');
+      expect(byId.get('client')!.parentId).toBeUndefined();
+    });
+
+    it('should read node shapes and labels', () => {
+      const byId = new Map(parseMermaid(source).nodes.map(node => [node.id, node.data]));
+
+      expect(byId.get('client')).toEqual({ label: 'Client', shape: 'stadium' });
+      expect(byId.get('api')).toEqual({ label: 'API\ngateway', shape: 'rect' });
+      expect(byId.get('db')).toEqual({ label: 'Database', shape: 'cylinder' });
+      expect(byId.get('cache')).toEqual({ label: 'Cache "hot"', shape: 'hexagon' });
+      expect(byId.get('worker')).toEqual({ label: 'Worker', shape: 'asymmetric' });
+      expect(byId.get('logs')).toEqual({ label: 'Logs', shape: 'circle' });
+      expect(byId.get('archive')).toEqual({ label: 'Archive', shape: 'trapezoid' });
+    });
+
+    it('should read links with labels, styles and node groups', () => {
+      const { edges } = parseMermaid(source);
+
+      expect(edges).toEqual([
+        { id: 'client-api', source: 'client', target: 'api', label: 'HTTPS' },
+        { id: 'api-db', source: 'api', target: 'db', label: 'queries' },
+        { id: 'api-cache', source: 'api', target: 'cache', data: { mermaidEdge: { stroke: 'dotted', start: 'none', end: 'arrow' } } },
+        { id: 'api-logs', source: 'api', target: 'logs', data: { mermaidEdge: { stroke: 'thick', start: 'none', end: 'arrow' } } },
+        { id: 'worker-logs', source: 'worker', target: 'logs', data: { mermaidEdge: { stroke: 'thick', start: 'none', end: 'arrow' } } },
+        { id: 'logs-archive', source: 'logs', target: 'archive', data: { mermaidEdge: { stroke: 'normal', start: 'none', end: 'none' } } },
+      ]);
+    });
+
+    it('should report syntax errors with their line', () => {
+      expect(() => parseMermaid('flowchart TD\n  A --> B[oops\n')).toThrow('Mermaid syntax error at line 2');
+      expect(() => parseMermaid('flowchart TD\n  subgraph one\n  A\n')).toThrow('missing "end"');
+      expect(() => parseMermaid('sequenceDiagram\n')).toThrow('expected "flowchart" or "graph"');
+    });
+  });
+
+  describe('toMermaid', () => {
+    it('should write containers as subgraphs and keep shapes and link styles', () => {
+      const nodes: Node[] = [
+        { id: 'group', data: { label: 'Group', layoutDirection: 'LR' }, position: { x: 0, y: 0 } },
+        { id: 'a', data: { label: 'Start', shape: 'circle' }, position: { x: 0, y: 0 }, parentId: 'group' },
+        { id: 'b', data: { label: 'b' }, position: { x: 0, y: 0 }, parentId: 'group' },
+        { id: 'end', data: { label: 'Say "bye"' }, position: { x: 0, y: 0 } },
+      ];
+
+      const mermaid = toMermaid(nodes, [
+        { id: 'a-b', source: 'a', target: 'b', label: 'next' },
+        { id: 'b-end', source: 'b', target: 'end', data: { mermaidEdge: { stroke: 'dotted', end: 'none' } } },
+      ], { direction: 'UP' });
+
+      expect(mermaid).toBe([
+        'flowchart BT',
+        '  subgraph group["Group"]',
+        '    direction LR',
+        '    a(("Start"))',
+        '    b',
+        '  end',
+        '  end_["Say #quot;bye#quot;"]',
+        '  a -->|"next"| b',
+        '  b -.- end_',
+        '',
+      ].join('\n'));
+    });
+
+    it('should round-trip a flowchart', () => {
+      const parsed = parseMermaid(source);
+      const reparsed = parseMermaid(toMermaid(parsed.nodes, parsed.edges, { direction: parsed.direction }));
+      const byId = (nodes: Node[]) => Object.fromEntries(nodes.map(node => [node.id, { data: node.data, parentId: node.parentId }]));
+
+      expect(reparsed.direction).toBe(parsed.direction);
+      expect(byId(reparsed.nodes)).toEqual(byId(parsed.nodes));
+      expect(reparsed.edges).toEqual(parsed.edges);
+    });
+  });
+});
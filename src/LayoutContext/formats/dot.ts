@@ -0,0 +1,584 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { LayoutDirection } from '../context/LayoutContext';
+
+type DotAttributes = Record<string, string>;
+
+/**
+ * A graph read from DOT. Clusters become container nodes listed before their children,
+ * so the nodes can be passed to React Flow and the layout as they are.
+ */
+export interface DotGraph {
+  nodes: Node[];
+  edges: Edge[];
+  name?: string;
+  directed: boolean;
+  direction?: LayoutDirection; // From the root graph's rankdir
+}
+
+export interface DotParseOptions {
+  nodeWidth?: number; // Size used to turn `pos` centers into top-left positions when a node has no width/height
+  nodeHeight?: number;
+}
+
+export interface DotExportOptions {
+  name?: string;
+  directed?: boolean;
+  direction?: LayoutDirection; // Written as the root rankdir
+  includePositions?: boolean; // Write pos, width, height and bb (default true)
+  nodeWidth?: number; // Size of nodes without an explicit or measured size
+  nodeHeight?: number;
+}
+
+const POINTS_PER_INCH = 72;
+
+const RANKDIR_TO_DIRECTION: Record<string, LayoutDirection> = { TB: 'DOWN', LR: 'RIGHT', BT: 'UP', RL: 'LEFT' };
+const DIRECTION_TO_RANKDIR: Record<LayoutDirection, string> = { DOWN: 'TB', RIGHT: 'LR', UP: 'BT', LEFT: 'RL' };
+
+// Attributes mapped onto node, edge and container fields instead of being kept in data.dotAttributes
+const MAPPED_ATTRIBUTES = new Set(['label', 'pos', 'width', 'height', 'bb', 'rankdir', 'id']);
+
+const KEYWORDS = new Set(['strict', 'graph', 'digraph', 'node', 'edge', 'subgraph']);
+
+interface Token {
+  type: 'id' | 'punctuation';
+  value: string;
+  quoted: boolean; // Quoted and HTML strings are never keywords
+  line: number;
+}
+
+/**
+ * Splits DOT source into identifiers (plain, numeral, quoted or HTML) and punctuation, skipping comments
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new Error(`DOT syntax error at line ${line}: ${message}`);
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const next = source[index + 1];
+
+    if (char === '\n') {
+      line++;
+      index++;
+    } else if (/\s/.test(char)) {
+      index++;
+    } else if (char === '/' && next === '/') {
+      while (index < source.length && source[index] !== '\n') index++;
+    } else if (char === '#' && (index === 0 || source[index - 1] === '\n')) {
+      // Preprocessor output lines
+      while (index < source.length && source[index] !== '\n') index++;
+    } else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', index + 2);
+      if (end === -1) fail('unterminated comment');
+      line += source.slice(index, end).split('\n').length - 1;
+      index = end + 2;
+    } else if (char === '-' && (next === '>' || next === '-')) {
+      tokens.push({ type: 'punctuation', value: char + next, quoted: false, line });
+      index += 2;
+    } else if ('{}[];,=:+'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, quoted: false, line });
+      index++;
+    } else if (char === '"') {
+      let value = '';
+      const startLine = line;
+      index++;
+      while (index < source.length && source[index] !== '"') {
+        if (source[index] === '\\' && source[index + 1] === '"') {
+          value += '"';
+          index += 2;
+        } else if (source[index] === '\\' && source[index + 1] === '\n') {
+          line++;
+          index += 2;
+        } else {
+          if (source[index] === '\n') line++;
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) fail('unterminated string');
+      index++;
+      tokens.push({ type: 'id', value, quoted: true, line: startLine });
+    } else if (char === '<') {
+      let depth = 0;
+      const start = index;
+      const startLine = line;
+      do {
+        if (source[index] === '<') depth++;
+        else if (source[index] === '>') depth--;
+        else if (source[index] === '\n') line++;
+        index++;
+      } while (index < source.length && depth > 0);
+      if (depth > 0) fail('unterminated HTML string');
+      tokens.push({ type: 'id', value: source.slice(start + 1, index - 1), quoted: true, line: startLine });
+    } else {
+      const match = /^(-?(\.\d+|\d+(\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(source.slice(index));
+      if (!match) fail(`unexpected character "${char}"`);
+      tokens.push({ type: 'id', value: match![0], quoted: false, line });
+      index += match![0].length;
+    }
+  }
+
+  return tokens;
+};
+
+interface Scope {
+  nodeDefaults: DotAttributes;
+  edgeDefaults: DotAttributes;
+  clusterId?: string; // Innermost cluster, the parent of nodes first seen in this scope
+}
+
+interface ParsedCluster {
+  name: string;
+  attributes: DotAttributes;
+  parentId?: string;
+}
+
+interface ParsedNode {
+  attributes: DotAttributes;
+  parentId?: string;
+}
+
+interface ParsedGraph {
+  clusters: Map<string, ParsedCluster>;
+  nodes: Map<string, ParsedNode>;
+  edges: { source: string; target: string; attributes: DotAttributes }[];
+  graphAttributes: DotAttributes;
+  name?: string;
+  directed: boolean;
+}
+
+/**
+ * Recursive descent parser over the DOT grammar. Collects clusters, nodes and edges in order of appearance.
+ */
+const parseTokens = (tokens: Token[]): ParsedGraph => {
+  const graph: ParsedGraph = { clusters: new Map(), nodes: new Map(), edges: [], graphAttributes: {}, directed: true };
+  let index = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[index + offset];
+
+  const isKeyword = (keyword: string) => {
+    const token = peek();
+    return token?.type === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+  };
+
+  const isPunctuation = (value: string, offset = 0) => {
+    const token = peek(offset);
+    return token?.type === 'punctuation' && token.value === value;
+  };
+
+  const fail = (message: string): never => {
+    const line = peek()?.line ?? tokens[tokens.length - 1]?.line ?? 1;
+    throw new Error(`DOT syntax error at line ${line}: ${message}`);
+  };
+
+  const expect = (value: string) => {
+    if (!isPunctuation(value)) {
+      fail(`expected "${value}"${peek() ? `, got "${peek()!.value}"` : ''}`);
+    }
+    index++;
+  };
+
+  // An ID, joining "a" + "b" concatenations of quoted strings
+  const readId = (): string => {
+    const token = peek();
+    if (token?.type !== 'id') {
+      return fail(`expected an identifier${token ? `, got "${token.value}"` : ''}`);
+    }
+    index++;
+    let value = token.value;
+    while (token.quoted && isPunctuation('+') && peek(1)?.quoted) {
+      value += peek(1)!.value;
+      index += 2;
+    }
+    return value;
+  };
+
+  const parseAttributeLists = (): DotAttributes => {
+    const attributes: DotAttributes = {};
+    while (isPunctuation('[')) {
+      index++;
+      while (!isPunctuation(']')) {
+        const key = readId();
+        expect('=');
+        attributes[key] = readId();
+        if (isPunctuation(',') || isPunctuation(';')) index++;
+      }
+      expect(']');
+    }
+    return attributes;
+  };
+
+  const ensureNode = (id: string, scope: Scope, members: Set<string>): string => {
+    const existing = graph.nodes.get(id);
+    if (!existing) {
+      graph.nodes.set(id, { attributes: { ...scope.nodeDefaults }, parentId: scope.clusterId });
+    } else if (!existing.parentId && scope.clusterId) {
+      // A node first used at the root moves into the first cluster that mentions it, as in Graphviz
+      existing.parentId = scope.clusterId;
+    }
+    members.add(id);
+    return id;
+  };
+
+  const parseStatements = (scope: Scope, attributes: DotAttributes, members: Set<string>) => {
+    while (peek() && !isPunctuation('}')) {
+      parseStatement(scope, attributes, members);
+      if (isPunctuation(';')) index++;
+    }
+  };
+
+  const parseSubgraph = (scope: Scope, members: Set<string>): Set<string> => {
+    let name: string | undefined;
+    if (isKeyword('subgraph')) {
+      index++;
+      if (peek()?.type === 'id') {
+        name = readId();
+      }
+    }
+
+    let clusterId = scope.clusterId;
+    let attributes: DotAttributes = {};
+    if (name !== undefined && name.startsWith('cluster')) {
+      if (!graph.clusters.has(name)) {
+        graph.clusters.set(name, { name, attributes: {}, parentId: scope.clusterId });
+      }
+      clusterId = name;
+      attributes = graph.clusters.get(name)!.attributes;
+    }
+
+    const subgraphMembers = new Set<string>();
+    expect('{');
+    parseStatements(
+      { nodeDefaults: { ...scope.nodeDefaults }, edgeDefaults: { ...scope.edgeDefaults }, clusterId },
+      attributes,
+      subgraphMembers
+    );
+    expect('}');
+
+    subgraphMembers.forEach(id => members.add(id));
+    return subgraphMembers;
+  };
+
+  // A node id (ports are dropped) or a subgraph, whose nodes all take part in the edge
+  const parseEndpoint = (scope: Scope, members: Set<string>): { ids: string[]; nodeId?: string } => {
+    if (isKeyword('subgraph') || isPunctuation('{')) {
+      return { ids: [...parseSubgraph(scope, members)] };
+    }
+    const id = ensureNode(readId(), scope, members);
+    for (let port = 0; port < 2 && isPunctuation(':'); port++) {
+      index++;
+      readId();
+    }
+    return { ids: [id], nodeId: id };
+  };
+
+  const parseStatement = (scope: Scope, attributes: DotAttributes, members: Set<string>) => {
+    if (isKeyword('graph')) {
+      index++;
+      Object.assign(attributes, parseAttributeLists());
+      return;
+    }
+    if (isKeyword('node') || isKeyword('edge')) {
+      const target = isKeyword('node') ? scope.nodeDefaults : scope.edgeDefaults;
+      index++;
+      Object.assign(target, parseAttributeLists());
+      return;
+    }
+    if (peek()?.type === 'id' && !isKeyword('subgraph') && isPunctuation('=', 1)) {
+      const key = readId();
+      index++;
+      attributes[key] = readId();
+      return;
+    }
+
+    const endpoints = [parseEndpoint(scope, members)];
+    while (isPunctuation('->') || isPunctuation('--')) {
+      index++;
+      endpoints.push(parseEndpoint(scope, members));
+    }
+    const statementAttributes = parseAttributeLists();
+
+    if (endpoints.length === 1) {
+      if (endpoints[0].nodeId) {
+        Object.assign(graph.nodes.get(endpoints[0].nodeId)!.attributes, statementAttributes);
+      }
+      return;
+    }
+    for (let endpoint = 1; endpoint < endpoints.length; endpoint++) {
+      endpoints[endpoint - 1].ids.forEach(source => endpoints[endpoint].ids.forEach(target => {
+        graph.edges.push({ source, target, attributes: { ...scope.edgeDefaults, ...statementAttributes } });
+      }));
+    }
+  };
+
+  if (isKeyword('strict')) index++;
+  if (isKeyword('digraph')) {
+    graph.directed = true;
+  } else if (isKeyword('graph')) {
+    graph.directed = false;
+  } else {
+    fail('expected "graph" or "digraph"');
+  }
+  index++;
+  if (peek()?.type === 'id') {
+    graph.name = readId();
+  }
+  expect('{');
+  parseStatements({ nodeDefaults: {}, edgeDefaults: {} }, graph.graphAttributes, new Set());
+  expect('}');
+  if (peek()) {
+    fail(`unexpected "${peek()!.value}" after the graph`);
+  }
+
+  return graph;
+};
+
+const parseNumbers = (value: string | undefined): number[] | undefined => {
+  if (value === undefined) return undefined;
+  const numbers = value.replace(/!/g, '').split(',').map(Number);
+  return numbers.every(Number.isFinite) ? numbers : undefined;
+};
+
+// Graphviz labels use \n, \l and \r for centered, left and right aligned line breaks
+const fromDotLabel = (label: string) => label.replace(/\\[nlr]/g, '\n');
+
+/**
+ * Parses a DOT graph into React Flow nodes and edges.
+ * `subgraph cluster_*` blocks become container nodes (the `cluster_` prefix is dropped from the id unless
+ * that clashes with a node), and nodes get the innermost cluster they first appear in as `parentId`.
+ * A cluster's `rankdir` becomes its `data.layoutDirection`; the root `rankdir` is returned as `direction`.
+ * `pos` (node centers, y pointing up as in Graphviz) and cluster `bb` are turned into parent-relative
+ * positions, `width`/`height` (inches) into style sizes. Other attributes are kept in `data.dotAttributes`.
+ * Throws on syntax errors, with the line number.
+ */
+export const parseDot = (source: string, options: DotParseOptions = {}): DotGraph => {
+  const { nodeWidth = 172, nodeHeight = 36 } = options;
+  const parsed = parseTokens(tokenize(source));
+
+  const containerIds = new Map<string, string>();
+  parsed.clusters.forEach(cluster => {
+    const stripped = cluster.name.replace(/^cluster_?/, '');
+    const id = stripped && !parsed.nodes.has(stripped) && ![...containerIds.values()].includes(stripped)
+      ? stripped
+      : cluster.name;
+    containerIds.set(cluster.name, id);
+  });
+
+  const getExtraAttributes = (attributes: DotAttributes) => {
+    const extra = Object.fromEntries(Object.entries(attributes).filter(([key]) => !MAPPED_ATTRIBUTES.has(key)));
+    return Object.keys(extra).length > 0 ? { dotAttributes: extra } : {};
+  };
+
+  // Absolute top-left corners, flipped to React Flow's downward y axis
+  const absolutePositions = new Map<string, { x: number; y: number }>();
+  const sizes = new Map<string, { width: number; height: number }>();
+
+  const containers: Node[] = [...parsed.clusters.values()].map(cluster => {
+    const id = containerIds.get(cluster.name)!;
+    const bb = parseNumbers(cluster.attributes.bb);
+    if (bb?.length === 4) {
+      absolutePositions.set(id, { x: bb[0], y: -bb[3] });
+      sizes.set(id, { width: bb[2] - bb[0], height: bb[3] - bb[1] });
+    }
+    const rankdir = cluster.attributes.rankdir?.toUpperCase();
+    return {
+      id,
+      data: {
+        label: fromDotLabel(cluster.attributes.label ?? id),
+        ...(rankdir && RANKDIR_TO_DIRECTION[rankdir] ? { layoutDirection: rankdir } : {}),
+        ...getExtraAttributes(cluster.attributes),
+      },
+      position: { x: 0, y: 0 },
+      ...(sizes.has(id) ? { style: { ...sizes.get(id)! } } : {}),
+      ...(cluster.parentId ? { parentId: containerIds.get(cluster.parentId) } : {}),
+    };
+  });
+
+  const leaves: Node[] = [...parsed.nodes.entries()].map(([id, node]) => {
+    const { attributes } = node;
+    const width = parseNumbers(attributes.width)?.[0];
+    const height = parseNumbers(attributes.height)?.[0];
+    const size = {
+      width: width !== undefined ? width * POINTS_PER_INCH : nodeWidth,
+      height: height !== undefined ? height * POINTS_PER_INCH : nodeHeight,
+    };
+    if (width !== undefined || height !== undefined) {
+      sizes.set(id, size);
+    }
+    const pos = parseNumbers(attributes.pos);
+    if (pos && pos.length >= 2) {
+      absolutePositions.set(id, { x: pos[0] - size.width / 2, y: -pos[1] - size.height / 2 });
+    }
+    return {
+      id,
+      data: { label: fromDotLabel(attributes.label ?? id), ...getExtraAttributes(attributes) },
+      position: { x: 0, y: 0 },
+      ...(sizes.has(id) ? { style: { ...sizes.get(id)! } } : {}),
+      ...(node.parentId ? { parentId: containerIds.get(node.parentId) } : {}),
+    };
+  });
+
+  // Positions are relative to the parent container, which is positioned before its children
+  const nodes = [...containers, ...leaves];
+  const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+  const resolvedPositions = new Map<string, { x: number; y: number }>();
+  const getAbsolutePosition = (node: Node): { x: number; y: number } => {
+    if (!resolvedPositions.has(node.id)) {
+      const parent = node.parentId ? nodeIdWithNode.get(node.parentId) : undefined;
+      const parentPosition = parent ? getAbsolutePosition(parent) : { x: 0, y: 0 };
+      resolvedPositions.set(node.id, absolutePositions.get(node.id) ?? parentPosition);
+    }
+    return resolvedPositions.get(node.id)!;
+  };
+  nodes.forEach(node => {
+    const absolute = getAbsolutePosition(node);
+    const parentAbsolute = node.parentId ? getAbsolutePosition(nodeIdWithNode.get(node.parentId)!) : { x: 0, y: 0 };
+    node.position = { x: absolute.x - parentAbsolute.x, y: absolute.y - parentAbsolute.y };
+  });
+
+  const edgeCounts = new Map<string, number>();
+  const edges: Edge[] = parsed.edges.map(({ source, target, attributes }) => {
+    const key = `${source}-${target}`;
+    const count = edgeCounts.get(key) ?? 0;
+    edgeCounts.set(key, count + 1);
+    const extra = getExtraAttributes(attributes);
+    return {
+      id: attributes.id ?? (count === 0 ? key : `${key}-${count}`),
+      source,
+      target,
+      ...(attributes.label !== undefined ? { label: fromDotLabel(attributes.label) } : {}),
+      ...(extra.dotAttributes ? { data: extra } : {}),
+    };
+  });
+
+  const rootRankdir = parsed.graphAttributes.rankdir?.toUpperCase();
+  return {
+    nodes,
+    edges,
+    ...(parsed.name !== undefined ? { name: parsed.name } : {}),
+    directed: parsed.directed,
+    ...(rootRankdir && RANKDIR_TO_DIRECTION[rootRankdir] ? { direction: RANKDIR_TO_DIRECTION[rootRankdir] } : {}),
+  };
+};
+
+const formatId = (id: string) =>
+  /^[A-Za-z_][\w]*$/.test(id) && !KEYWORDS.has(id.toLowerCase()) || /^-?(\.\d+|\d+(\.\d*)?)$/.test(id)
+    ? id
+    : `"${id.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const formatAttributes = (attributes: [string, string][]) =>
+  attributes.length > 0 ? ` [${attributes.map(([key, value]) => `${formatId(key)}=${formatId(value)}`).join(', ')}]` : '';
+
+const toLabel = (label: unknown): string | undefined =>
+  typeof label === 'string' || typeof label === 'number' ? String(label) : undefined;
+
+const getDotAttributes = (data: Record<string, unknown> | undefined): [string, string][] => {
+  const attributes = data?.dotAttributes;
+  return attributes && typeof attributes === 'object'
+    ? Object.entries(attributes as Record<string, unknown>).map(([key, value]) => [key, String(value)])
+    : [];
+};
+
+/**
+ * Writes nodes and edges as a DOT graph. Containers become nested `subgraph cluster_<id>` blocks with their
+ * `data.layoutDirection` as `rankdir`, and `data.dotAttributes` are written back.
+ * With positions, every node gets a pinned `pos` at its absolute center with y pointing up
+ * (so `neato -n` draws the layout as is), its size in inches, and every cluster a `bb`;
+ * parseDot reads these back into the same positions.
+ */
+export const toDot = (nodes: Node[], edges: Edge[], options: DotExportOptions = {}): string => {
+  const { name, directed = true, direction, includePositions = true, nodeWidth = 172, nodeHeight = 36 } = options;
+  const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+  const childrenByParent = new Map<string | undefined, Node[]>();
+  nodes.forEach(node => {
+    const parentId = node.parentId && nodeIdWithNode.has(node.parentId) ? node.parentId : undefined;
+    if (!childrenByParent.has(parentId)) childrenByParent.set(parentId, []);
+    childrenByParent.get(parentId)!.push(node);
+  });
+
+  const absolutePositions = new Map<string, { x: number; y: number }>();
+  const getAbsolutePosition = (node: Node, visited: Set<string> = new Set()): { x: number; y: number } => {
+    if (!absolutePositions.has(node.id)) {
+      visited.add(node.id);
+      const parent = node.parentId ? nodeIdWithNode.get(node.parentId) : undefined;
+      const offset = parent && !visited.has(parent.id) ? getAbsolutePosition(parent, visited) : { x: 0, y: 0 };
+      absolutePositions.set(node.id, { x: offset.x + node.position.x, y: offset.y + node.position.y });
+    }
+    return absolutePositions.get(node.id)!;
+  };
+  const getSize = (node: Node) => ({
+    width: Number(node.style?.width) || node.width || node.measured?.width || nodeWidth,
+    height: Number(node.style?.height) || node.height || node.measured?.height || nodeHeight,
+  });
+  // Graphviz boxes: lower-left and upper-right corners with y pointing up
+  const getBoundingBox = (node: Node) => {
+    const { x, y } = getAbsolutePosition(node);
+    const { width, height } = getSize(node);
+    return [x, -(y + height), x + width, -y].map(formatNumber).join(',');
+  };
+
+  const lines: string[] = [`${directed ? 'digraph' : 'graph'}${name !== undefined ? ` ${formatId(name)}` : ''} {`];
+  if (direction) {
+    lines.push(`  rankdir=${DIRECTION_TO_RANKDIR[direction]};`);
+  }
+  if (includePositions && nodes.length > 0) {
+    const boxes = nodes.map(node => getBoundingBox(node).split(',').map(Number));
+    const bounds = [
+      Math.min(...boxes.map(box => box[0])),
+      Math.min(...boxes.map(box => box[1])),
+      Math.max(...boxes.map(box => box[2])),
+      Math.max(...boxes.map(box => box[3])),
+    ];
+    lines.push(`  bb="${bounds.map(formatNumber).join(',')}";`);
+  }
+
+  const writeNode = (node: Node, indent: string) => {
+    const children = childrenByParent.get(node.id);
+    const label = toLabel(node.data?.label);
+    if (children) {
+      lines.push(`${indent}subgraph ${formatId(`cluster_${node.id}`)} {`);
+      const attributes: [string, string][] = [];
+      if (label !== undefined) attributes.push(['label', label]);
+      if (typeof node.data?.layoutDirection === 'string') attributes.push(['rankdir', node.data.layoutDirection]);
+      if (includePositions) attributes.push(['bb', getBoundingBox(node)]);
+      attributes.push(...getDotAttributes(node.data));
+      attributes.forEach(([key, value]) => lines.push(`${indent}  ${formatId(key)}=${formatId(value)};`));
+      children.forEach(child => writeNode(child, `${indent}  `));
+      lines.push(`${indent}}`);
+      return;
+    }
+
+    const attributes: [string, string][] = [];
+    if (label !== undefined && label !== node.id) attributes.push(['label', label]);
+    if (includePositions) {
+      const { x, y } = getAbsolutePosition(node);
+      const { width, height } = getSize(node);
+      attributes.push(
+        ['pos', `${formatNumber(x + width / 2)},${formatNumber(-(y + height / 2))}!`],
+        ['width', formatNumber(width / POINTS_PER_INCH)],
+        ['height', formatNumber(height / POINTS_PER_INCH)]
+      );
+    }
+    attributes.push(...getDotAttributes(node.data));
+    lines.push(`${indent}${formatId(node.id)}${formatAttributes(attributes)};`);
+  };
+  (childrenByParent.get(undefined) || []).forEach(node => writeNode(node, '  '));
+
+  const edgeOperator = directed ? '->' : '--';
+  edges.forEach(edge => {
+    const attributes: [string, string][] = [['id', edge.id]];
+    const label = toLabel(edge.label);
+    if (label !== undefined) attributes.push(['label', label]);
+    attributes.push(...getDotAttributes(edge.data));
+    lines.push(`  ${formatId(edge.source)} ${edgeOperator} ${formatId(edge.target)}${formatAttributes(attributes)};`);
+  });
+
+  lines.push('}', '');
+  return lines.join('\n');
+};
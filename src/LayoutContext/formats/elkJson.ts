@@ -0,0 +1,295 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import type { ElkExtendedEdge, ElkNode, LayoutOptions } from 'elkjs/lib/elk-api';
+import type { LayoutDirection } from '../context/LayoutContext';
+
+/**
+ * A graph read from ELK JSON. Nodes with children become containers listed before their children.
+ */
+export interface ElkGraphImport {
+  nodes: Node[];
+  edges: Edge[];
+  direction?: LayoutDirection; // From the root's elk.direction
+  layoutOptions?: LayoutOptions; // Remaining root options
+}
+
+export interface ElkGraphImportOptions {
+  nodeWidth?: number; // Size used when an ELK node has only one of width and height
+  nodeHeight?: number;
+}
+
+export interface ElkGraphExportOptions {
+  rootId?: string; // Id of the root graph node (default 'root')
+  direction?: LayoutDirection; // Written as the root's elk.direction
+  layoutOptions?: LayoutOptions; // Root options, e.g. elk.algorithm
+  includePositions?: boolean; // Write x and y, and container sizes (default true)
+  nodeWidth?: number; // Size of nodes without an explicit or measured size
+  nodeHeight?: number;
+}
+
+const DATA_DIRECTION_TO_ELK: Record<string, LayoutDirection> = { TB: 'DOWN', LR: 'RIGHT', BT: 'UP', RL: 'LEFT' };
+const ELK_TO_DATA_DIRECTION: Record<LayoutDirection, string> = { DOWN: 'TB', RIGHT: 'LR', UP: 'BT', LEFT: 'RL' };
+
+const DIRECTION_OPTION = 'elk.direction';
+const NODE_SPACING_OPTION = 'elk.spacing.nodeNode';
+const LAYER_SPACING_OPTION = 'elk.layered.spacing.nodeNodeBetweenLayers';
+const PADDING_OPTION = 'elk.padding';
+
+// ELK accepts option ids with or without the `org.eclipse.elk.` / `elk.` prefix
+const normalizeOptionKey = (key: string) => `elk.${key.replace(/^(org\.eclipse\.)?elk\./, '')}`;
+
+const toLabel = (label: unknown): string | undefined =>
+  typeof label === 'string' || typeof label === 'number' ? String(label) : undefined;
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const parsePadding = (value: string): number | { horizontal: number; vertical: number } | undefined => {
+  const sides = Object.fromEntries(
+    [...value.matchAll(/(top|left|bottom|right)\s*=\s*(-?[\d.]+)/g)].map(([, side, amount]) => [side, Number(amount)])
+  );
+  const { top = 0, left = 0, bottom = top, right = left } = sides;
+  if (Object.keys(sides).length === 0 || top !== bottom || left !== right) {
+    return undefined;
+  }
+  return top === left ? top : { horizontal: left, vertical: top };
+};
+
+const formatPadding = (padding: unknown): string | undefined => {
+  const number = toNumber(padding);
+  if (number !== undefined) {
+    return `[top=${number},left=${number},bottom=${number},right=${number}]`;
+  }
+  if (padding && typeof padding === 'object') {
+    const { horizontal, vertical } = padding as { horizontal?: number; vertical?: number };
+    if (typeof horizontal === 'number' && typeof vertical === 'number') {
+      return `[top=${vertical},left=${horizontal},bottom=${vertical},right=${horizontal}]`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Splits ELK options into the per-container data fields the layout reads and the rest,
+ * which stay in data.elkLayoutOptions. Padding that is not symmetric stays raw.
+ */
+const fromElkLayoutOptions = (layoutOptions: LayoutOptions | undefined) => {
+  const data: Record<string, unknown> = {};
+  const rest: LayoutOptions = {};
+  Object.entries(layoutOptions ?? {}).forEach(([key, value]) => {
+    const normalized = normalizeOptionKey(key);
+    const direction = normalized === DIRECTION_OPTION ? ELK_TO_DATA_DIRECTION[String(value).toUpperCase() as LayoutDirection] : undefined;
+    const number = toNumber(value);
+    const padding = normalized === PADDING_OPTION ? parsePadding(String(value)) : undefined;
+    if (direction) {
+      data.layoutDirection = direction;
+    } else if (normalized === NODE_SPACING_OPTION && number !== undefined) {
+      data.layoutNodeSpacing = number;
+    } else if (normalized === LAYER_SPACING_OPTION && number !== undefined) {
+      data.layoutLayerSpacing = number;
+    } else if (padding !== undefined) {
+      data.layoutPadding = padding;
+    } else {
+      rest[key] = String(value);
+    }
+  });
+  return { data, rest };
+};
+
+const toElkLayoutOptions = (data: Record<string, unknown> | undefined): LayoutOptions | undefined => {
+  if (!data) {
+    return undefined;
+  }
+  const options: LayoutOptions = {};
+  const direction = typeof data.layoutDirection === 'string' ? DATA_DIRECTION_TO_ELK[data.layoutDirection] : undefined;
+  if (direction) options[DIRECTION_OPTION] = direction;
+  if (typeof data.layoutNodeSpacing === 'number') options[NODE_SPACING_OPTION] = String(data.layoutNodeSpacing);
+  if (typeof data.layoutLayerSpacing === 'number') options[LAYER_SPACING_OPTION] = String(data.layoutLayerSpacing);
+  const padding = formatPadding(data.layoutPadding);
+  if (padding) options[PADDING_OPTION] = padding;
+  if (data.elkLayoutOptions && typeof data.elkLayoutOptions === 'object') {
+    Object.entries(data.elkLayoutOptions as Record<string, unknown>).forEach(([key, value]) => {
+      options[key] = String(value);
+    });
+  }
+  return Object.keys(options).length > 0 ? options : undefined;
+};
+
+/**
+ * Reads an ELK JSON graph, laid out or not. Nested `children` become nodes with a parentId and
+ * parent-relative positions, which is what ELK's coordinates are. Per-container options map onto
+ * data.layoutDirection, layoutNodeSpacing, layoutLayerSpacing and layoutPadding; other options are
+ * kept in data.elkLayoutOptions. Edges are collected from every level; hyperedges are split into one
+ * edge per source and target, and ports resolve to their node with the port id as the handle.
+ * Edge bend points become waypoints relative to the edge's container.
+ */
+export const parseElkGraph = (graph: ElkNode, options: ElkGraphImportOptions = {}): ElkGraphImport => {
+  const { nodeWidth = 172, nodeHeight = 36 } = options;
+  const portOwners = new Map<string, string>();
+  const containers: Node[] = [];
+  const leaves: Node[] = [];
+  const elkEdges: { edge: ElkExtendedEdge; containerId?: string }[] = [];
+
+  const visit = (elkNode: ElkNode, parentId?: string) => {
+    elkNode.ports?.forEach(port => portOwners.set(port.id, elkNode.id));
+    const { data: optionData, rest } = fromElkLayoutOptions(elkNode.layoutOptions);
+    const hasChildren = (elkNode.children?.length ?? 0) > 0;
+    const hasSize = elkNode.width !== undefined || elkNode.height !== undefined;
+    const node: Node = {
+      id: elkNode.id,
+      data: {
+        label: elkNode.labels?.[0]?.text ?? elkNode.id,
+        ...optionData,
+        ...(Object.keys(rest).length > 0 ? { elkLayoutOptions: rest } : {}),
+      },
+      position: { x: elkNode.x ?? 0, y: elkNode.y ?? 0 },
+      ...(hasSize ? { style: { width: elkNode.width ?? nodeWidth, height: elkNode.height ?? nodeHeight } } : {}),
+      ...(parentId ? { parentId } : {}),
+    };
+    (hasChildren ? containers : leaves).push(node);
+    elkNode.edges?.forEach(edge => elkEdges.push({ edge, containerId: elkNode.id }));
+    elkNode.children?.forEach(child => visit(child, elkNode.id));
+  };
+
+  graph.ports?.forEach(port => portOwners.set(port.id, graph.id));
+  graph.children?.forEach(child => visit(child));
+  graph.edges?.forEach(edge => elkEdges.push({ edge }));
+
+  const nodeIds = new Set([...containers, ...leaves].map(node => node.id));
+  const resolveEnd = (id: string) => nodeIds.has(id)
+    ? { node: id }
+    : portOwners.has(id) && nodeIds.has(portOwners.get(id)!) ? { node: portOwners.get(id)!, handle: id } : undefined;
+
+  const edges: Edge[] = elkEdges.flatMap(({ edge, containerId }) => {
+    const ends = edge.sources.flatMap(source => edge.targets.map(target => [resolveEnd(source), resolveEnd(target)]));
+    const label = edge.labels?.[0]?.text;
+    const waypoints: XYPosition[] = (edge.sections ?? []).flatMap(section => section.bendPoints ?? []);
+    return ends.flatMap(([source, target], index) => {
+      if (!source || !target) {
+        return [];
+      }
+      return [{
+        id: ends.length > 1 ? `${edge.id}-${index}` : edge.id,
+        source: source.node,
+        target: target.node,
+        ...(source.handle ? { sourceHandle: source.handle } : {}),
+        ...(target.handle ? { targetHandle: target.handle } : {}),
+        ...(label !== undefined ? { label } : {}),
+        ...(waypoints.length > 0 && ends.length === 1 ? {
+          data: {
+            waypoints: waypoints.map(({ x, y }) => ({ x, y })),
+            ...(containerId ? { waypointsParentId: containerId } : {}),
+          },
+        } : {}),
+      }];
+    });
+  });
+
+  const rootEntries = Object.entries(graph.layoutOptions ?? {});
+  const rootDirection = rootEntries
+    .filter(([key]) => normalizeOptionKey(key) === DIRECTION_OPTION)
+    .map(([, value]) => String(value).toUpperCase() as LayoutDirection)
+    .find(value => value in ELK_TO_DATA_DIRECTION);
+  const rootOptions: LayoutOptions = Object.fromEntries(rootEntries
+    .filter(([key]) => normalizeOptionKey(key) !== DIRECTION_OPTION)
+    .map(([key, value]) => [key, String(value)]));
+
+  return {
+    nodes: [...containers, ...leaves],
+    edges,
+    ...(rootDirection ? { direction: rootDirection } : {}),
+    ...(Object.keys(rootOptions).length > 0 ? { layoutOptions: rootOptions } : {}),
+  };
+};
+
+/**
+ * Writes nodes and edges as an ELK JSON graph under a single root node. Containers get nested
+ * `children` with their per-container settings as `layoutOptions`, and every edge is placed in the
+ * container ELK expects: the lowest common ancestor of both ends, or the end containing the other.
+ * The result can be passed to `elk.layout()` as it is and read back with parseElkGraph.
+ */
+export const toElkGraph = (nodes: Node[], edges: Edge[], options: ElkGraphExportOptions = {}): ElkNode => {
+  const { rootId = 'root', direction, layoutOptions, includePositions = true, nodeWidth = 172, nodeHeight = 36 } = options;
+  const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+  const getParentId = (node: Node) => node.parentId && nodeIdWithNode.has(node.parentId) ? node.parentId : undefined;
+  const childrenByParent = new Map<string | undefined, Node[]>();
+  nodes.forEach(node => {
+    const parentId = getParentId(node);
+    if (!childrenByParent.has(parentId)) childrenByParent.set(parentId, []);
+    childrenByParent.get(parentId)!.push(node);
+  });
+
+  // Ids from the node up to the root, guarding against parent cycles
+  const getAncestors = (nodeId: string) => {
+    const path: string[] = [];
+    let current: string | undefined = nodeId;
+    while (current && !path.includes(current)) {
+      path.push(current);
+      const node = nodeIdWithNode.get(current);
+      current = node ? getParentId(node) : undefined;
+    }
+    return path;
+  };
+
+  const getContainerId = (edge: Edge) => {
+    const sourcePath = getAncestors(edge.source);
+    const targetPath = getAncestors(edge.target);
+    if (targetPath.slice(1).includes(edge.source)) {
+      return edge.source;
+    }
+    if (sourcePath.slice(1).includes(edge.target)) {
+      return edge.target;
+    }
+    const targetAncestors = new Set(targetPath.slice(1));
+    return sourcePath.slice(1).find(id => targetAncestors.has(id));
+  };
+
+  const edgesByContainer = new Map<string | undefined, ElkExtendedEdge[]>();
+  edges
+    .filter(edge => nodeIdWithNode.has(edge.source) && nodeIdWithNode.has(edge.target))
+    .forEach(edge => {
+      const containerId = getContainerId(edge);
+      const label = toLabel(edge.label);
+      if (!edgesByContainer.has(containerId)) edgesByContainer.set(containerId, []);
+      edgesByContainer.get(containerId)!.push({
+        id: edge.id,
+        sources: [edge.source],
+        targets: [edge.target],
+        ...(label !== undefined ? { labels: [{ text: label }] } : {}),
+      });
+    });
+
+  const toElkNode = (node: Node): ElkNode => {
+    const children = childrenByParent.get(node.id);
+    const label = toLabel(node.data?.label);
+    const nodeOptions = toElkLayoutOptions(node.data);
+    const nodeEdges = edgesByContainer.get(node.id);
+    const width = Number(node.style?.width) || node.width || node.measured?.width;
+    const height = Number(node.style?.height) || node.height || node.measured?.height;
+    // Leaves always need a size; container sizes are computed by the layout
+    const size = children
+      ? includePositions && width && height ? { width, height } : {}
+      : { width: width || nodeWidth, height: height || nodeHeight };
+    return {
+      id: node.id,
+      ...(includePositions ? { x: node.position.x, y: node.position.y } : {}),
+      ...size,
+      ...(label !== undefined ? { labels: [{ text: label }] } : {}),
+      ...(nodeOptions ? { layoutOptions: nodeOptions } : {}),
+      ...(children ? { children: children.map(toElkNode) } : {}),
+      ...(nodeEdges ? { edges: nodeEdges } : {}),
+    };
+  };
+
+  const rootOptions: LayoutOptions = {
+    ...(direction ? { [DIRECTION_OPTION]: direction } : {}),
+    ...layoutOptions,
+  };
+  return {
+    id: rootId,
+    ...(Object.keys(rootOptions).length > 0 ? { layoutOptions: rootOptions } : {}),
+    children: (childrenByParent.get(undefined) ?? []).map(toElkNode),
+    edges: edgesByContainer.get(undefined) ?? [],
+  };
+};
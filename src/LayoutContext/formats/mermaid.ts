@@ -0,0 +1,431 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { LayoutDirection } from '../context/LayoutContext';
+
+export type MermaidNodeShape =
+  | 'rect'
+  | 'round'
+  | 'stadium'
+  | 'subroutine'
+  | 'cylinder'
+  | 'circle'
+  | 'double-circle'
+  | 'asymmetric'
+  | 'rhombus'
+  | 'hexagon'
+  | 'parallelogram'
+  | 'parallelogram-alt'
+  | 'trapezoid'
+  | 'trapezoid-alt';
+
+export type MermaidEdgeStroke = 'normal' | 'thick' | 'dotted' | 'invisible';
+export type MermaidEdgeMarker = 'none' | 'arrow' | 'circle' | 'cross';
+
+// Line style and end markers of a link, kept in edge.data.mermaidEdge when they differ from `-->`
+export interface MermaidEdgeStyle {
+  stroke: MermaidEdgeStroke;
+  start: MermaidEdgeMarker;
+  end: MermaidEdgeMarker;
+}
+
+/**
+ * A flowchart read from Mermaid. Subgraphs become container nodes listed before their children.
+ */
+export interface MermaidFlowchart {
+  nodes: Node[];
+  edges: Edge[];
+  direction: LayoutDirection; // From the flowchart header
+}
+
+export interface MermaidExportOptions {
+  direction?: LayoutDirection; // Written in the flowchart header (default DOWN)
+}
+
+// Opening and closing brackets of each shape, longest openers first so `((` wins over `(`
+const SHAPES: { open: string; close: string; shape: MermaidNodeShape }[] = [
+  { open: '(((', close: ')))', shape: 'double-circle' },
+  { open: '([', close: '])', shape: 'stadium' },
+  { open: '[[', close: ']]', shape: 'subroutine' },
+  { open: '[(', close: ')]', shape: 'cylinder' },
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '{{', close: '}}', shape: 'hexagon' },
+  { open: '[/', close: '/]', shape: 'parallelogram' },
+  { open: '[\\', close: '\\]', shape: 'parallelogram-alt' },
+  { open: '[/', close: '\\]', shape: 'trapezoid' },
+  { open: '[\\', close: '/]', shape: 'trapezoid-alt' },
+  { open: '[', close: ']', shape: 'rect' },
+  { open: '(', close: ')', shape: 'round' },
+  { open: '{', close: '}', shape: 'rhombus' },
+  { open: '>', close: ']', shape: 'asymmetric' },
+];
+
+const HEADER_TO_DIRECTION: Record<string, LayoutDirection> = { TB: 'DOWN', TD: 'DOWN', LR: 'RIGHT', BT: 'UP', RL: 'LEFT' };
+const DIRECTION_TO_HEADER: Record<LayoutDirection, string> = { DOWN: 'TB', RIGHT: 'LR', UP: 'BT', LEFT: 'RL' };
+
+const DEFAULT_EDGE_STYLE: MermaidEdgeStyle = { stroke: 'normal', start: 'none', end: 'arrow' };
+
+const MARKERS: Record<string, MermaidEdgeMarker> = { '<': 'arrow', '>': 'arrow', o: 'circle', x: 'cross' };
+
+// Statements that only style or annotate the chart
+const IGNORED_STATEMENTS = /^(classDef|class|style|linkStyle|click|accTitle|accDescr)\b/;
+
+const NODE_ID = /^[\p{L}\p{N}_]+/u;
+
+const fromMermaidText = (text: string) => text
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/#quot;/g, '"');
+
+const toMermaidText = (text: string) => text
+  .replace(/"/g, '#quot;')
+  .replace(/\n/g, '<br>');
+
+/**
+ * Splits a line into statements at semicolons outside quotes and brackets
+ */
+const splitStatements = (line: string): string[] => {
+  const statements: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && '[({'.includes(char)) depth++;
+    else if (!quoted && '])}'.includes(char)) depth = Math.max(0, depth - 1);
+    else if (!quoted && depth === 0 && char === ';') {
+      statements.push(line.slice(start, index));
+      start = index + 1;
+    }
+  }
+  statements.push(line.slice(start));
+  return statements.map(statement => statement.trim()).filter(Boolean);
+};
+
+const unquote = (text: string) => {
+  const trimmed = text.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
+};
+
+interface StatementNode {
+  id: string;
+  label?: string;
+  shape?: MermaidNodeShape;
+}
+
+interface StatementLink {
+  style: MermaidEdgeStyle;
+  label?: string;
+}
+
+/**
+ * Parses one node or link statement: `A[Text] & B --> |label| C(Text) -.- D`
+ */
+const parseStatement = (statement: string, fail: (message: string) => never) => {
+  let rest = statement;
+  const skipSpace = () => {
+    rest = rest.replace(/^\s+/, '');
+  };
+
+  const readNode = (): StatementNode => {
+    skipSpace();
+    const match = NODE_ID.exec(rest);
+    if (!match) fail(`expected a node id at "${rest}"`);
+    const id = match![0];
+    rest = rest.slice(id.length);
+
+    let node: StatementNode = { id };
+    const shape = SHAPES.find(candidate => rest.startsWith(candidate.open));
+    if (shape) {
+      const body = rest.slice(shape.open.length);
+      let text: string;
+      let after: string;
+      if (body.startsWith('"')) {
+        const end = body.indexOf('"', 1);
+        if (end === -1) fail(`unterminated string in "${statement}"`);
+        text = body.slice(1, end);
+        after = body.slice(end + 1);
+      } else {
+        const closers = SHAPES.filter(candidate => candidate.open === shape.open).map(candidate => candidate.close);
+        const end = Math.min(...closers.map(close => body.indexOf(close)).filter(position => position !== -1));
+        if (!Number.isFinite(end)) fail(`missing "${shape.close}" in "${statement}"`);
+        text = body.slice(0, end);
+        after = body.slice(end);
+      }
+      const matching = SHAPES.find(candidate => candidate.open === shape.open && after.startsWith(candidate.close));
+      if (!matching) fail(`missing "${shape.close}" in "${statement}"`);
+      rest = after.slice(matching!.close.length);
+      node = { id, label: fromMermaidText(text.trim()), shape: matching!.shape };
+    }
+    rest = rest.replace(/^:::[\w-]+/, '');
+    return node;
+  };
+
+  const readNodeGroup = (): StatementNode[] => {
+    const nodes = [readNode()];
+    skipSpace();
+    while (rest.startsWith('&')) {
+      rest = rest.slice(1);
+      nodes.push(readNode());
+      skipSpace();
+    }
+    return nodes;
+  };
+
+  const readLink = (): StatementLink | null => {
+    skipSpace();
+    if (/^~{3,}/.test(rest)) {
+      rest = rest.replace(/^~{3,}/, '');
+      return { style: { stroke: 'invisible', start: 'none', end: 'none' } };
+    }
+
+    const complete = /^([<ox]?)(-{2,}|={2,}|-\.+-)([>ox]?)/.exec(rest);
+    if (complete) {
+      const [text, start, line, end] = complete;
+      const stroke: MermaidEdgeStroke = line.startsWith('=') ? 'thick' : line.includes('.') ? 'dotted' : 'normal';
+      // `--` and `==` without an arrow open a link with inline text: `-- text -->`
+      const isOpening = !end && (line === '--' || line === '==');
+      if (!isOpening) {
+        rest = rest.slice(text.length);
+        return { style: { stroke, start: start ? MARKERS[start] : 'none', end: end ? MARKERS[end] : 'none' } };
+      }
+    }
+
+    const opening = /^([<ox]?)(--|==|-\.)/.exec(rest);
+    if (!opening) {
+      return null;
+    }
+    const [openText, start, line] = opening;
+    const stroke: MermaidEdgeStroke = line === '==' ? 'thick' : line === '-.' ? 'dotted' : 'normal';
+    const closing = {
+      normal: /\s(-{2,}([>ox])|-{3,}())/,
+      thick: /\s(={2,}([>ox])|={3,}())/,
+      dotted: /(\.-+([>ox])?)/,
+    }[stroke as 'normal' | 'thick' | 'dotted'];
+    const body = rest.slice(openText.length);
+    const match = closing.exec(body);
+    if (!match) fail(`unterminated link text in "${statement}"`);
+    rest = body.slice(match!.index + match![0].length);
+    return {
+      style: { stroke, start: start ? MARKERS[start] : 'none', end: match![2] ? MARKERS[match![2]] : 'none' },
+      label: fromMermaidText(unquote(body.slice(0, match!.index))),
+    };
+  };
+
+  const groups = [readNodeGroup()];
+  const links: StatementLink[] = [];
+  for (let link = readLink(); link; link = readLink()) {
+    skipSpace();
+    const pipeLabel = /^\|([^|]*)\|/.exec(rest);
+    if (pipeLabel) {
+      link.label = fromMermaidText(unquote(pipeLabel[1]));
+      rest = rest.slice(pipeLabel[0].length);
+    }
+    links.push(link);
+    groups.push(readNodeGroup());
+  }
+  skipSpace();
+  if (rest) fail(`unexpected "${rest}"`);
+
+  return { groups, links };
+};
+
+/**
+ * Parses a Mermaid flowchart into React Flow nodes and edges.
+ * `subgraph ... end` blocks become container nodes and their `direction` the container's
+ * `data.layoutDirection`; nodes get the innermost subgraph they first appear in as `parentId`.
+ * Node text and shape go to `data.label` and `data.shape`, link text to the edge `label`, and links
+ * other than `-->` keep their line and markers in `data.mermaidEdge`. Styling statements are skipped.
+ * Throws on syntax errors, with the line number.
+ */
+export const parseMermaid = (source: string): MermaidFlowchart => {
+  const nodes = new Map<string, Node>();
+  const edges: Edge[] = [];
+  const edgeCounts = new Map<string, number>();
+  const subgraphStack: string[] = [];
+  let direction: LayoutDirection | undefined;
+  let lineNumber = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Mermaid syntax error at line ${lineNumber}: ${message}`);
+  };
+
+  const declareNode = ({ id, label, shape }: StatementNode) => {
+    const parentId = subgraphStack[subgraphStack.length - 1];
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, {
+        id,
+        data: { label: label ?? id, shape: shape ?? 'rect' },
+        position: { x: 0, y: 0 },
+        ...(parentId ? { parentId } : {}),
+      });
+      return;
+    }
+    if (label !== undefined) {
+      existing.data = { ...existing.data, label, shape };
+    }
+    // A node first used at the root moves into the first subgraph that mentions it
+    if (!existing.parentId && parentId && existing.id !== parentId && !subgraphStack.includes(existing.id)) {
+      existing.parentId = parentId;
+    }
+  };
+
+  // Blank out the frontmatter (title, config) but keep its lines for the line numbers
+  const withoutFrontmatter = source.replace(/^\s*---\r?\n[\s\S]*?\r?\n---[^\n]*/, match => match.replace(/[^\n]/g, ''));
+  const lines = withoutFrontmatter.split(/\r?\n/);
+
+  for (const rawLine of lines) {
+    lineNumber++;
+    const line = rawLine.replace(/%%.*$/, '').trim();
+    if (!line) continue;
+
+    if (!direction) {
+      const header = /^(flowchart|graph)(?:\s+(\w+))?\s*;?$/i.exec(line);
+      if (!header) fail('expected "flowchart" or "graph"');
+      const headerDirection = header![2]?.toUpperCase() ?? 'TB';
+      direction = HEADER_TO_DIRECTION[headerDirection] ?? fail(`unknown direction "${header![2]}"`);
+      continue;
+    }
+
+    for (const statement of splitStatements(line)) {
+      if (IGNORED_STATEMENTS.test(statement)) continue;
+
+      const subgraph = /^subgraph\s+(.+)$/.exec(statement);
+      if (subgraph) {
+        const declaration = subgraph[1].trim();
+        const withTitle = /^([\p{L}\p{N}_-]+)\s*\[(.*)\]$/u.exec(declaration);
+        const title = withTitle ? unquote(withTitle[2]) : unquote(declaration);
+        const id = withTitle ? withTitle[1] : declaration.startsWith('"') ? title.replace(/\s+/g, '_') : declaration.replace(/\s+/g, '_');
+        declareNode({ id });
+        nodes.get(id)!.data = { label: fromMermaidText(title) };
+        subgraphStack.push(id);
+        continue;
+      }
+      if (statement === 'end') {
+        if (subgraphStack.length === 0) fail('"end" without a subgraph');
+        subgraphStack.pop();
+        continue;
+      }
+      const containerDirection = /^direction\s+(\w+)$/.exec(statement);
+      if (containerDirection) {
+        const value = containerDirection[1].toUpperCase();
+        if (!HEADER_TO_DIRECTION[value]) fail(`unknown direction "${containerDirection[1]}"`);
+        const containerId = subgraphStack[subgraphStack.length - 1];
+        if (containerId) {
+          const container = nodes.get(containerId)!;
+          container.data = { ...container.data, layoutDirection: value === 'TD' ? 'TB' : value };
+        }
+        continue;
+      }
+
+      const { groups, links } = parseStatement(statement, fail);
+      groups.forEach(group => group.forEach(declareNode));
+      links.forEach((link, index) => {
+        groups[index].forEach(source => groups[index + 1].forEach(target => {
+          const key = `${source.id}-${target.id}`;
+          const count = edgeCounts.get(key) ?? 0;
+          edgeCounts.set(key, count + 1);
+          const isDefaultStyle = link.style.stroke === DEFAULT_EDGE_STYLE.stroke
+            && link.style.start === DEFAULT_EDGE_STYLE.start
+            && link.style.end === DEFAULT_EDGE_STYLE.end;
+          edges.push({
+            id: count === 0 ? key : `${key}-${count}`,
+            source: source.id,
+            target: target.id,
+            ...(link.label ? { label: link.label } : {}),
+            ...(isDefaultStyle ? {} : { data: { mermaidEdge: { ...link.style } } }),
+          });
+        }));
+      });
+    }
+  }
+
+  if (!direction) {
+    lineNumber = lines.length;
+    fail('expected "flowchart" or "graph"');
+  }
+  if (subgraphStack.length > 0) {
+    fail(`subgraph "${subgraphStack[subgraphStack.length - 1]}" is missing "end"`);
+  }
+
+  // Containers have to come before their children
+  const containerIds = new Set([...nodes.values()].map(node => node.parentId).filter(Boolean));
+  const getDepth = (node: Node): number => node.parentId ? 1 + getDepth(nodes.get(node.parentId)!) : 0;
+  const ordered = [...nodes.values()]
+    .map((node, index) => ({ node, index, depth: containerIds.has(node.id) ? getDepth(node) : Infinity }))
+    .sort((a, b) => a.depth - b.depth || a.index - b.index)
+    .map(({ node }) => node);
+
+  return { nodes: ordered, edges, direction: direction! };
+};
+
+const formatId = (id: string, usedIds: Map<string, string>) => {
+  if (!usedIds.has(id)) {
+    let safe = /^[\p{L}\p{N}_]+$/u.test(id) && id !== 'end' ? id : id.replace(/[^\p{L}\p{N}_]/gu, '_') || 'node';
+    if (safe === 'end') safe = 'end_';
+    const taken = new Set(usedIds.values());
+    let unique = safe;
+    for (let suffix = 1; taken.has(unique); suffix++) unique = `${safe}_${suffix}`;
+    usedIds.set(id, unique);
+  }
+  return usedIds.get(id)!;
+};
+
+const formatLink = (style: MermaidEdgeStyle): string => {
+  if (style.stroke === 'invisible') return '~~~';
+  const start = { none: '', arrow: '<', circle: 'o', cross: 'x' }[style.start];
+  const end = { none: '', arrow: '>', circle: 'o', cross: 'x' }[style.end];
+  if (style.stroke === 'dotted') return `${start}-.-${end}`;
+  const line = style.stroke === 'thick' ? '=' : '-';
+  return `${start}${line.repeat(end ? 2 : 3)}${end}`;
+};
+
+const toText = (label: unknown): string | undefined =>
+  typeof label === 'string' || typeof label === 'number' ? String(label) : undefined;
+
+/**
+ * Writes nodes and edges as a Mermaid flowchart. Containers become nested `subgraph id["label"] ... end`
+ * blocks with their `data.layoutDirection` as `direction`, `data.shape` picks the node brackets and
+ * `data.mermaidEdge` the link style. Ids Mermaid cannot read are replaced with safe ones.
+ */
+export const toMermaid = (nodes: Node[], edges: Edge[], options: MermaidExportOptions = {}): string => {
+  const { direction = 'DOWN' } = options;
+  const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+  const childrenByParent = new Map<string | undefined, Node[]>();
+  nodes.forEach(node => {
+    const parentId = node.parentId && nodeIdWithNode.has(node.parentId) ? node.parentId : undefined;
+    if (!childrenByParent.has(parentId)) childrenByParent.set(parentId, []);
+    childrenByParent.get(parentId)!.push(node);
+  });
+  const usedIds = new Map<string, string>();
+
+  const lines = [`flowchart ${DIRECTION_TO_HEADER[direction]}`];
+  const writeNode = (node: Node, indent: string) => {
+    const id = formatId(node.id, usedIds);
+    const label = toText(node.data?.label);
+    const children = childrenByParent.get(node.id);
+    if (children) {
+      lines.push(`${indent}subgraph ${id}${label !== undefined ? `["${toMermaidText(label)}"]` : ''}`);
+      const layoutDirection = node.data?.layoutDirection;
+      if (typeof layoutDirection === 'string' && HEADER_TO_DIRECTION[layoutDirection.toUpperCase()]) {
+        lines.push(`${indent}  direction ${layoutDirection.toUpperCase()}`);
+      }
+      children.forEach(child => writeNode(child, `${indent}  `));
+      lines.push(`${indent}end`);
+      return;
+    }
+    const shape = SHAPES.find(candidate => candidate.shape === node.data?.shape) ?? SHAPES.find(candidate => candidate.shape === 'rect')!;
+    lines.push(label === undefined || (label === node.id && shape.shape === 'rect' && id === node.id)
+      ? `${indent}${id}`
+      : `${indent}${id}${shape.open}"${toMermaidText(label)}"${shape.close}`);
+  };
+  (childrenByParent.get(undefined) || []).forEach(node => writeNode(node, '  '));
+
+  edges.forEach(edge => {
+    const style = { ...DEFAULT_EDGE_STYLE, ...(edge.data?.mermaidEdge as Partial<MermaidEdgeStyle> | undefined) };
+    const label = toText(edge.label);
+    const link = formatLink(style);
+    lines.push(`  ${formatId(edge.source, usedIds)} ${link}${label ? `|"${toMermaidText(label)}"|` : ''} ${formatId(edge.target, usedIds)}`);
+  });
+
+  return `${lines.join('\n')}\n`;
+};
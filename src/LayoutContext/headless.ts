@@ -0,0 +1,102 @@
+import { layoutGraph } from './core/HeadlessLayout';
+import { DagreEngine, createDagreEngine, ElkEngine, createElkEngine, GridEngine, createGridEngine, RadialEngine, createRadialEngine, TidyTreeEngine, createTidyTreeEngine, ForceEngine, createForceEngine, engines } from './engines';
+import { routeEdgesOrthogonally } from './core/OrthogonalRouter';
+import { buildNodeMaps } from './utils/treeUtils';
+import { measureLayoutDisplacement } from './utils/layoutStability';
+import { getAbsoluteLabelPosition, getAbsoluteWaypoints } from './utils/edgeRouting';
+import { parseDot, toDot } from './formats/dot';
+import { parseMermaid, toMermaid } from './formats/mermaid';
+import { parseElkGraph, toElkGraph } from './formats/elkJson';
+import { collapseContainerNodes, expandContainerNodes } from './utils/containerCollapse';
+import { computeLayoutDiff } from './utils/layoutDiff';
+import type { LayoutGraphOptions } from './core/HeadlessLayout';
+import type { DotGraph, DotParseOptions, DotExportOptions } from './formats/dot';
+import type { MermaidFlowchart, MermaidExportOptions, MermaidNodeShape, MermaidEdgeStyle } from './formats/mermaid';
+import type { ElkGraphImport, ElkGraphImportOptions, ElkGraphExportOptions } from './formats/elkJson';
+import type {
+  LayoutDirection,
+  LayoutAlgorithm,
+  LayoutEngine,
+  LayoutEngineOptions,
+  LayoutAlignment,
+  HierarchyLayoutInput,
+  ParentResizingOptions
+} from './context/LayoutContext';
+import type { ElkSettings, ElkHierarchyHandling } from './core/Elk';
+import type { GridSettings } from './core/Grid';
+import type { RadialSettings } from './core/Radial';
+import type { DagreSettings, EdgeLabelSize } from './core/Dagre';
+import type { TidyTreeSettings } from './core/TidyTree';
+import type { ForceSettings } from './core/Force';
+import type { LayoutDisplacement } from './utils/layoutStability';
+import type { LayoutDiff, MovedNode, ResizedContainer } from './utils/layoutDiff';
+import type { EdgeRoute } from './utils/edgeRouting';
+import type { OrthogonalRoutingOptions } from './core/OrthogonalRouter';
+
+// Headless entry point: everything here runs without React or a DOM.
+// Only types are imported from React Flow.
+export {
+  layoutGraph,
+  buildNodeMaps,
+  DagreEngine,
+  createDagreEngine,
+  ElkEngine,
+  createElkEngine,
+  GridEngine,
+  createGridEngine,
+  RadialEngine,
+  createRadialEngine,
+  TidyTreeEngine,
+  createTidyTreeEngine,
+  ForceEngine,
+  createForceEngine,
+  engines,
+  routeEdgesOrthogonally,
+  measureLayoutDisplacement,
+  getAbsoluteWaypoints,
+  getAbsoluteLabelPosition,
+  parseDot,
+  toDot,
+  parseMermaid,
+  toMermaid,
+  parseElkGraph,
+  toElkGraph,
+  collapseContainerNodes,
+  expandContainerNodes,
+  computeLayoutDiff,
+};
+
+export type {
+  LayoutGraphOptions,
+  LayoutDirection,
+  LayoutAlgorithm,
+  LayoutEngine,
+  LayoutEngineOptions,
+  LayoutAlignment,
+  HierarchyLayoutInput,
+  ParentResizingOptions,
+  ElkSettings,
+  ElkHierarchyHandling,
+  GridSettings,
+  RadialSettings,
+  DagreSettings,
+  EdgeLabelSize,
+  TidyTreeSettings,
+  ForceSettings,
+  LayoutDisplacement,
+  LayoutDiff,
+  MovedNode,
+  ResizedContainer,
+  EdgeRoute,
+  OrthogonalRoutingOptions,
+  DotGraph,
+  DotParseOptions,
+  DotExportOptions,
+  MermaidFlowchart,
+  MermaidExportOptions,
+  MermaidNodeShape,
+  MermaidEdgeStyle,
+  ElkGraphImport,
+  ElkGraphImportOptions,
+  ElkGraphExportOptions
+};
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Node, Edge } from '@xyflow/react';
 import * as HierarchicalLayoutOrganizer from '../../core/HierarchicalLayoutOrganizer';
+import type { LayoutPipelineOptions } from '../../core/LayoutPipeline';
+import { DagreEngine } from '../../engines/DagreEngine';
 
 // Mocking the imported modules
 vi.mock('../../utils/layoutProviderUtils', () => ({
@@ -57,6 +59,25 @@ function createLayoutConfig(overrides: Partial<LayoutConfig> = {}): LayoutConfig
   };
 }
 
+// Options processSelectedNodes should build from the default LayoutConfig
+function createExpectedOptions(overrides: Partial<LayoutPipelineOptions> = {}): LayoutPipelineOptions {
+  return {
+    direction: 'TB',
+    engine: DagreEngine,
+    layoutEngines: {},
+    parentResizingOptions: { enabled: true, padding: { horizontal: 10, vertical: 10 }, respectHeaderHeight: false },
+    nodeSpacing: 50,
+    layerSpacing: 50,
+    nodeWidth: 172,
+    nodeHeight: 36,
+    layoutHidden: false,
+    noParentKey: 'no-parent',
+    stableLayout: false,
+    autoGridLayout: false,
+    ...overrides,
+  };
+}
+
 describe('useLayoutCalculation', () => {
   // Test setup with common variables
   const createTestSetup = () => {
@@ -131,17 +152,10 @@ describe('useLayoutCalculation', () => {
       
       expect(HierarchicalLayoutOrganizer.organizeLayoutRecursively).toHaveBeenCalledWith(
         'parent',
-        'TB',
         setup.nodeParentIdMapWithChildIdSet,
         setup.nodeIdWithNode,
         setup.edges,
-        10,
-        50,
-        50,
-        172,
-        36,
-        undefined,
-        false
+        createExpectedOptions()
       );
       
       expect(result.nodes.length).toBe(setup.nodes.length);
@@ -164,20 +178,45 @@ describe('useLayoutCalculation', () => {
       await processSelectedNodes(selectedNodes, config);
       expect(HierarchicalLayoutOrganizer.organizeLayoutRecursively).toHaveBeenCalledWith(
         'parent',
-        'TB',
         setup.nodeParentIdMapWithChildIdSet,
         setup.nodeIdWithNode,
         setup.edges,
-        10,
-        50,
-        50,
-        172,
-        36,
-        undefined,
-        true
+        createExpectedOptions({ layoutHidden: true })
+      );
+    });
+
+    it('should forward the configured layout engine', async () => {
+      vi.mocked(filterSelectedParentNodes).mockReturnValue(['parent']);
+      const layoutEngine = { calculate: vi.fn() };
+      const selectedNodes: Node[] = [setup.nodes[0]];
+      const config = { ...defaultConfig, layoutEngine };
+      await processSelectedNodes(selectedNodes, config);
+      expect(HierarchicalLayoutOrganizer.organizeLayoutRecursively).toHaveBeenCalledWith(
+        'parent',
+        setup.nodeParentIdMapWithChildIdSet,
+        setup.nodeIdWithNode,
+        setup.edges,
+        createExpectedOptions({ engine: layoutEngine })
       );
     });
 
+    it('should forward the engine registry for per-container engines', async () => {
+      vi.mocked(filterSelectedParentNodes).mockReturnValue(['parent']);
+      const layoutEngines = { custom: { calculate: vi.fn() } };
+      const selectedNodes: Node[] = [setup.nodes[0]];
+      const config = { ...defaultConfig, layoutEngines };
+      await processSelectedNodes(selectedNodes, config);
+      expect(vi.mocked(HierarchicalLayoutOrganizer.organizeLayoutRecursively).mock.calls[0][4].layoutEngines).toBe(layoutEngines);
+    });
+
+    it('should forward the stable layout flag', async () => {
+      vi.mocked(filterSelectedParentNodes).mockReturnValue(['parent']);
+      const selectedNodes: Node[] = [setup.nodes[0]];
+      const config = { ...defaultConfig, stableLayout: true };
+      await processSelectedNodes(selectedNodes, config);
+      expect(vi.mocked(HierarchicalLayoutOrganizer.organizeLayoutRecursively).mock.calls[0][4].stableLayout).toBe(true);
+    });
+
     it('should use custom noParentKey when provided', async () => {
       vi.mocked(filterSelectedParentNodes).mockReturnValue(['parent']);
       const selectedNodes: Node[] = [setup.nodes[0]];
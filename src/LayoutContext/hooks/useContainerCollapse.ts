@@ -0,0 +1,56 @@
+import { useCallback } from 'react';
+import { Edge, Node } from '@xyflow/react';
+import { ParentResizingOptions } from '../context/LayoutContext';
+import {
+    collapseContainerNodes,
+    expandContainerNodes,
+    getCollapsedSize,
+    isCollapsedContainer,
+    relayoutContainerNodes
+} from '../utils/containerCollapse';
+
+interface UseContainerCollapseProps {
+    nodes: Node[];
+    edges: Edge[];
+    nodeIdWithNode: Map<string, Node>;
+    parentResizingOptions: ParentResizingOptions;
+    applyLayout: (nodes: Node[], edges: Edge[], layoutSelection: Node[]) => Promise<{ nodes: Node[]; edges: Edge[] }>;
+}
+
+export function useContainerCollapse({
+    nodes,
+    edges,
+    nodeIdWithNode,
+    parentResizingOptions,
+    applyLayout
+}: UseContainerCollapseProps) {
+    // Lays out the container and its ancestor chain only, the same way a selection layout does
+    const relayoutContainer = useCallback((nextNodes: Node[], containerId: string) =>
+        relayoutContainerNodes(nextNodes, containerId, edges, nodeIdWithNode, applyLayout),
+    [edges, nodeIdWithNode, applyLayout]);
+
+    const collapseContainer = useCallback(async (containerId: string) => {
+        const nextNodes = collapseContainerNodes(nodes, containerId, getCollapsedSize(parentResizingOptions));
+        if (nextNodes) {
+            await relayoutContainer(nextNodes, containerId);
+        }
+    }, [nodes, parentResizingOptions, relayoutContainer]);
+
+    const expandContainer = useCallback(async (containerId: string) => {
+        const nextNodes = expandContainerNodes(nodes, containerId);
+        if (nextNodes) {
+            await relayoutContainer(nextNodes, containerId);
+        }
+    }, [nodes, relayoutContainer]);
+
+    const toggleContainer = useCallback((containerId: string) => {
+        const container = nodes.find(node => node.id === containerId);
+        return isCollapsedContainer(container) ? expandContainer(containerId) : collapseContainer(containerId);
+    }, [nodes, collapseContainer, expandContainer]);
+
+    return {
+        collapseContainer,
+        expandContainer,
+        toggleContainer
+    };
+}
@@ -1,109 +1,17 @@
-import { useCallback } from 'react';
+import { useCallback, useRef } from 'react';
 import { Node, Edge } from '@xyflow/react';
-import { LayoutDirection, LayoutEngine } from '../context/LayoutContext';
-import { convertDirection } from '../utils/layoutProviderUtils';
-import { organizeLayoutRecursively, organizeLayoutByTreeDepth } from '../core/HierarchicalLayoutOrganizer';
-import { buildNodeTree } from '../utils/treeUtils';
+import { LayoutDirection, LayoutEngine, LayoutExecution, ParentResizingOptions } from '../context/LayoutContext';
+import { convertDirection, filterVisibleNodesAndEdges } from '../utils/layoutProviderUtils';
 import filterSelectedParentNodes from '../utils/filterSelectedParentNodes';
+import { applyLayoutWorkerResult, resolveWorkerEngine, serializeLayoutRequest } from '../worker/layoutWorkerProtocol';
+import { runLayoutInWorker } from '../worker/runLayoutInWorker';
+import { clearLayoutCache, createLayoutCache, LayoutCache } from '../core/LayoutCache';
+import { applyEdgeRoutes } from '../utils/edgeRouting';
+import { OrthogonalRoutingOptions } from '../core/OrthogonalRouter';
+import { finalizeLayout, LayoutPipelineOptions, runLayoutPipeline } from '../core/LayoutPipeline';
 
-// Layout configuration object for simplification
-export interface LayoutConfig {
-  dagreDirection: string;
-  nodeParentIdMapWithChildIdSet: Map<string, Set<string>>;
-  nodeIdWithNode: Map<string, Node>;
-  nodes: Node[];
-  edges: Edge[];
-  margin: number;
-  nodeSpacing: number;
-  layerSpacing: number;
-  nodeWidth: number;
-  nodeHeight: number;
-  layoutHidden?: boolean;
-  noParentKey?: string;
-}
-
-/**
- * Process selected node IDs for layout calculations (refactored to use LayoutConfig)
- */
-export const processSelectedNodes = async (
-  selectedNodes: Node[],
-  config: LayoutConfig,
-  signal?: AbortSignal
-): Promise<{ nodes: Node[], edges: Edge[] }> => {
-  const {
-    dagreDirection,
-    nodeParentIdMapWithChildIdSet,
-    nodeIdWithNode,
-    nodes,
-    edges,
-    margin,
-    nodeSpacing,
-    layerSpacing,
-    nodeWidth,
-    nodeHeight,
-    layoutHidden = false,
-    noParentKey = 'no-parent',
-  } = config;
-
-  // Filter to only include relevant parent nodes
-  const filteredParentIds = filterSelectedParentNodes(
-    selectedNodes,
-    nodeParentIdMapWithChildIdSet,
-    nodeIdWithNode,
-    noParentKey
-  );
-  if (filteredParentIds.length === 0) {
-    return { nodes, edges };
-  }
-  // Map to track updated nodes and edges (using node/edge ID as key for faster lookups)
-  const updatedNodesMap = new Map<string, Node>();
-  const updatedEdgesMap = new Map<string, Edge>();
-  
-  // Process each parent in parallel, but check for abort signal before starting
-  if (signal?.aborted) {
-    return { nodes, edges };
-  }
-
-  const results = await Promise.all(
-    filteredParentIds.map(async parentId => {
-      if (signal?.aborted) {
-        return { updatedNodes: [], updatedEdges: [] };
-      }
-      return organizeLayoutRecursively(
-        parentId,
-        dagreDirection as any,
-        nodeParentIdMapWithChildIdSet,
-        nodeIdWithNode,
-        edges,
-        margin,
-        nodeSpacing,
-        layerSpacing,
-        nodeWidth,
-        nodeHeight,
-        undefined,
-        layoutHidden
-      );
-    })
-  );
-  
-  // Collect all results from parallel processing
-  results.forEach(({ updatedNodes, updatedEdges }) => {
-    updatedNodes.forEach(node => {
-      updatedNodesMap.set(node.id, node);
-    });
-    updatedEdges.forEach(edge => {
-      updatedEdgesMap.set(edge.id, edge);
-    });
-  });
-
-  const updatedNodes = nodes.map(node =>
-    updatedNodesMap.has(node.id) ? updatedNodesMap.get(node.id)! : node
-  );
-  const updatedEdges = edges.map(edge =>
-    updatedEdgesMap.has(edge.id) ? updatedEdgesMap.get(edge.id)! : edge
-  );
-  return { nodes: updatedNodes, edges: updatedEdges };
-};
+export { processSelectedNodes } from '../core/LayoutPipeline';
+export type { LayoutConfig } from '../core/LayoutPipeline';
 
 /**
  * Hook for layout calculation functionality
@@ -112,7 +20,7 @@ export const useLayoutCalculation = (
   layoutEngines: Record<string, LayoutEngine>,
   direction: LayoutDirection,
   algorithm: string,
-  parentResizingOptions: any,
+  parentResizingOptions: ParentResizingOptions,
   nodeParentIdMapWithChildIdSet: Map<string, Set<string>>,
   nodeIdWithNode: Map<string, Node>,
   nodeSpacing: number,
@@ -120,8 +28,16 @@ export const useLayoutCalculation = (
   nodeWidth: number = 172,
   nodeHeight: number = 36,
   layoutHidden: boolean = false,
-  noParentKey: string = 'no-parent' // New parameter with default for backward compatibility
+  noParentKey: string = 'no-parent', // New parameter with default for backward compatibility
+  layoutExecution: LayoutExecution = 'main',
+  createLayoutWorker?: () => Worker,
+  incrementalLayout: boolean = false,
+  stableLayout: boolean = false,
+  autoGridLayout: boolean = false,
+  orthogonalRouting?: OrthogonalRoutingOptions
 ) => {
+  // Per-container results of previous full layouts, reused when incremental layout is enabled
+  const layoutCacheRef = useRef<LayoutCache>(createLayoutCache());
   
   /**
    * Apply layout to nodes and edges
@@ -139,102 +55,86 @@ export const useLayoutCalculation = (
       return { nodes, edges };
     }
     
-    // Filter out hidden nodes if layoutHidden is false
-    const filteredNodes = layoutHidden 
-      ? nodes 
-      : nodes.filter(node => !node.hidden);
-    
-    // Filter edges to only include connections between visible nodes
-    const visibleNodeIds = new Set(filteredNodes.map(node => node.id));
-    const filteredEdges = layoutHidden
-      ? edges
-      : edges.filter(edge => 
-          visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target)
-        );
-        
-    // Convert direction to format RecursiveLayoutContainerOrganizer expects
-    const dagreDirection = convertDirection(direction);
-    
-    // The margin to use for layout
-    const margin = parentResizingOptions.padding.horizontal;
-    
-    let updatedNodes: Node[] = [];
-    let updatedEdges: Edge[] = [];
-    
-    // Process based on whether we have selected nodes or not
-    if (selectedNodes && selectedNodes.length > 0) {
-      // Also filter selected nodes if needed
-      const filteredSelectedNodes = layoutHidden
-        ? selectedNodes
-        : selectedNodes.filter(node => !node.hidden);
-      
-      const result = await processSelectedNodes(
-        filteredSelectedNodes,
-        {
-          dagreDirection,
-          nodeParentIdMapWithChildIdSet,
-          nodeIdWithNode,
-          nodes: filteredNodes,
-          edges: filteredEdges,
-          margin,
-          nodeSpacing,
-          layerSpacing,
-          nodeWidth,
-          nodeHeight,
-          layoutHidden,
-          noParentKey
-        },
-        signal
-      );
-      
-      updatedNodes = result.nodes;
-      updatedEdges = result.edges;
-    } else {
-      // Check abort signal before starting tree-based layout
-      if (signal?.aborted) {
-        return { nodes, edges };
-      }
+    const pipelineOptions: LayoutPipelineOptions = {
+      direction: convertDirection(direction),
+      engine,
+      layoutEngines,
+      parentResizingOptions,
+      nodeSpacing,
+      layerSpacing,
+      nodeWidth,
+      nodeHeight,
+      layoutHidden,
+      noParentKey,
+      stableLayout,
+      autoGridLayout,
+      orthogonalRouting,
+      layoutCache: incrementalLayout ? layoutCacheRef.current : undefined,
+    };
 
-      // Use our helper function to process the entire tree in depth order
-      const nodeTree = buildNodeTree(nodeParentIdMapWithChildIdSet, nodeIdWithNode, noParentKey);
-      const result = await organizeLayoutByTreeDepth(
-        nodeTree,
-        dagreDirection,
+    // Layouts the worker cannot reproduce run on the main thread, as documented for layoutExecution
+    const workerEngine = layoutExecution === 'worker'
+      ? resolveWorkerEngine(algorithm, layoutEngines, nodeIdWithNode, incrementalLayout)
+      : null;
+
+    if (!workerEngine) {
+      return runLayoutPipeline(
+        nodes,
+        edges,
         nodeParentIdMapWithChildIdSet,
         nodeIdWithNode,
-        filteredEdges,
-        margin,
-        nodeSpacing,
-        layerSpacing,
-        nodeWidth,
-        nodeHeight,
-        undefined,
-        layoutHidden,
-        noParentKey
+        pipelineOptions,
+        selectedNodes,
+        signal
       );
+    }
 
-      updatedNodes = result.updatedNodes;
-      updatedEdges = result.updatedEdges;
+    if (signal?.aborted) {
+      return { nodes, edges };
     }
 
-    // Merge the updated nodes with the original nodes that were filtered out (hidden nodes)
-    const finalNodes = nodes.map(node => {
-      if (!layoutHidden && node.hidden) {
-        return node; // Keep hidden nodes as they are
-      }
-      const updatedNode = updatedNodes.find(n => n.id === node.id);
-      return updatedNode || node;
+    const { edges: filteredEdges } = filterVisibleNodesAndEdges(nodes, edges, layoutHidden);
+    const parentIds = selectedNodes && selectedNodes.length > 0
+      ? filterSelectedParentNodes(
+          layoutHidden ? selectedNodes : selectedNodes.filter(node => !node.hidden),
+          nodeParentIdMapWithChildIdSet,
+          nodeIdWithNode,
+          noParentKey
+        )
+      : undefined;
+
+    const request = serializeLayoutRequest(nodeIdWithNode, nodeParentIdMapWithChildIdSet, filteredEdges, {
+      engine: workerEngine,
+      direction: pipelineOptions.direction,
+      parentIds,
+      nodeSpacing,
+      layerSpacing,
+      nodeWidth,
+      nodeHeight,
+      layoutHidden,
+      noParentKey,
+      stableLayout,
+      parentResizingOptions,
+      autoGridLayout,
+      orthogonalRouting,
     });
+    const result = await runLayoutInWorker(request, signal, createLayoutWorker);
 
-    return {
-      nodes: finalNodes,
-      edges: updatedEdges
-    };
+    // The worker already routed the edges orthogonally, so only the merge is left
+    return finalizeLayout(
+      nodes,
+      edges,
+      applyLayoutWorkerResult(result, nodeIdWithNode),
+      applyEdgeRoutes(filteredEdges, result.edgeRoutes || []),
+      nodeIdWithNode,
+      { ...pipelineOptions, orthogonalRouting: undefined },
+      signal
+    );
   }, [
     algorithm, 
     direction, 
     layoutEngines,
-    parentResizingOptions.padding.horizontal,
+    parentResizingOptions,
     nodeParentIdMapWithChildIdSet,
     nodeIdWithNode,
     nodeSpacing,
@@ -242,8 +142,21 @@ export const useLayoutCalculation = (
     nodeWidth,
     nodeHeight,
     layoutHidden,
-    noParentKey
+    noParentKey,
+    layoutExecution,
+    createLayoutWorker,
+    incrementalLayout,
+    stableLayout,
+    autoGridLayout,
+    orthogonalRouting
   ]);
 
-  return { calculateLayout };
+  /**
+   * Forget cached container layouts so the next layout recomputes every container
+   */
+  const clearCache = useCallback(() => {
+    clearLayoutCache(layoutCacheRef.current);
+  }, []);
+
+  return { calculateLayout, clearLayoutCache: clearCache };
 };
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { Node } from '@xyflow/react';
+import { captureNodeGeometry } from '../utils/layoutAnimation';
+import {
+    canRedoLayout,
+    canUndoLayout,
+    DEFAULT_LAYOUT_HISTORY_LIMIT,
+    EMPTY_LAYOUT_HISTORY,
+    LayoutHistory,
+    LayoutSnapshot,
+    recordLayoutChange,
+    redoLayoutHistory,
+    restoreLayoutSnapshot,
+    undoLayoutHistory
+} from '../utils/layoutHistory';
+
+interface UseLayoutHistoryProps {
+    nodes: Node[];
+    limit?: number; // Maximum number of entries kept; 0 turns the history off
+}
+
+export type LayoutHistoryControls = ReturnType<typeof useLayoutHistory>;
+
+export function useLayoutHistory({
+    nodes,
+    limit = DEFAULT_LAYOUT_HISTORY_LIMIT
+}: UseLayoutHistoryProps) {
+    const [history, setHistory] = useState<LayoutHistory>(EMPTY_LAYOUT_HISTORY);
+    // Layouts can finish between renders, so callbacks read and write the latest history through a ref
+    const historyRef = useRef<LayoutHistory>(history);
+
+    const updateHistory = useCallback((next: LayoutHistory) => {
+        historyRef.current = next;
+        setHistory(next);
+    }, []);
+
+    // Records a committed layout together with the geometry it started from
+    const recordLayout = useCallback((previousGeometry: LayoutSnapshot, nextNodes: Node[]) => {
+        updateHistory(recordLayoutChange(historyRef.current, previousGeometry, captureNodeGeometry(nextNodes), limit));
+    }, [limit, updateHistory]);
+
+    // Moves the history back one entry and returns the nodes to show, or null when there is nothing to undo
+    const stepBack = useCallback((): Node[] | null => {
+        const step = undoLayoutHistory(historyRef.current, nodes, limit);
+        if (!step) {
+            return null;
+        }
+        updateHistory(step.history);
+        return restoreLayoutSnapshot(nodes, step.snapshot);
+    }, [nodes, limit, updateHistory]);
+
+    const stepForward = useCallback((): Node[] | null => {
+        const step = redoLayoutHistory(historyRef.current, nodes);
+        if (!step) {
+            return null;
+        }
+        updateHistory(step.history);
+        return restoreLayoutSnapshot(nodes, step.snapshot);
+    }, [nodes, updateHistory]);
+
+    // Same checks as stepping, so the flags never offer a step that does nothing. They only compare
+    // the nodes when the index alone does not decide, i.e. at the first entry or with entries to redo
+    const canUndo = useMemo(() => canUndoLayout(history, nodes), [history, nodes]);
+    const canRedo = useMemo(() => canRedoLayout(history, nodes), [history, nodes]);
+
+    return {
+        canUndo,
+        canRedo,
+        recordLayout,
+        stepBack,
+        stepForward
+    };
+}
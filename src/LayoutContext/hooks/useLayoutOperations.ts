@@ -1,39 +1,145 @@
-import { useCallback, useRef } from 'react';
-import { Edge, Node, useReactFlow } from '@xyflow/react';
-import { filterVisibleNodesAndEdges } from '../utils/layoutProviderUtils';
+import { useCallback, useRef, useState } from 'react';
+import { Edge, getViewportForBounds, Node, useReactFlow, useStoreApi, Viewport } from '@xyflow/react';
+import { animateLayoutTransition, captureNodeGeometry, DEFAULT_LAYOUT_ANIMATION_OPTIONS, LayoutAnimationOptions, NodeGeometry } from '../utils/layoutAnimation';
+import { computeLayoutDiff, LayoutDiff } from '../utils/layoutDiff';
+import { LayoutRun, startLayoutRun } from '../utils/layoutLifecycle';
+import {
+    DEFAULT_FIT_VIEW_PADDING,
+    getAnchoredViewport,
+    getLayoutBounds,
+    getViewportAnchorIds,
+    interpolateViewport,
+    LayoutViewportPolicy
+} from '../utils/layoutViewport';
+import type { LayoutHistoryControls } from './useLayoutHistory';
 
 interface UseLayoutOperationsProps {
     nodes: Node[];
     edges: Edge[];
     selectedNodes: Node[];
-    layoutHidden: boolean;
     calculateLayout: (nodes: Node[], edges: Edge[], selectedNodes: Node[], signal: AbortSignal) => Promise<{ nodes: Node[]; edges: Edge[] }>;
     updateNodes?: (nodes: Node[]) => void;
     updateEdges?: (edges: Edge[]) => void;
     setLayoutInProgress: (inProgress: boolean) => void;
     setNodeSpacing: (spacing: number) => void;
     setLayerSpacing: (spacing: number) => void;
+    layoutAnimation?: LayoutAnimationOptions;
+    layoutHistory?: LayoutHistoryControls;
+    viewportPolicy?: LayoutViewportPolicy;
+    onLayoutStart?: () => void;
+    onLayoutComplete?: (result: { nodes: Node[]; edges: Edge[] }, diff: LayoutDiff) => void;
+    onLayoutError?: (error: Error) => void;
+    onLayoutCancel?: () => void;
 }
 
 export function useLayoutOperations({
     nodes,
     edges,
     selectedNodes,
-    layoutHidden,
     calculateLayout,
     updateNodes,
     updateEdges,
     setLayoutInProgress,
     setNodeSpacing,
-    setLayerSpacing
+    setLayerSpacing,
+    layoutAnimation = DEFAULT_LAYOUT_ANIMATION_OPTIONS,
+    layoutHistory,
+    viewportPolicy = 'none',
+    onLayoutStart,
+    onLayoutComplete,
+    onLayoutError,
+    onLayoutCancel
 }: UseLayoutOperationsProps) {
     const reactFlowInstance = useReactFlow();
+    const store = useStoreApi();
     const currentLayoutAbortControllerRef = useRef<AbortController | null>(null);
     const pendingSpacingUpdateRef = useRef<{ node?: number, layer?: number } | null>(null);
+    const animationAbortControllerRef = useRef<AbortController | null>(null);
+    const animationPromiseRef = useRef<Promise<void> | null>(null);
+    // Last layout that failed; cleared by the next layout that completes
+    const [layoutError, setLayoutError] = useState<Error | null>(null);
+
+    const commitNodes = useCallback((nodesToCommit: Node[]) => {
+        if (updateNodes) {
+            updateNodes(nodesToCommit);
+        }
+        else if (reactFlowInstance?.setNodes) {
+            reactFlowInstance.setNodes(nodesToCommit);
+        }
+    }, [updateNodes, reactFlowInstance]);
+
+    // Commits the nodes directly, or animates towards them from the previous geometry when given.
+    // onProgress is called with the same eased progress as the nodes, 1 once they are committed.
+    const transitionNodes = useCallback((
+        previousGeometry: Map<string, NodeGeometry> | null,
+        nextNodes: Node[],
+        onProgress?: ((progress: number) => void) | null
+    ): Promise<void> | null => {
+        if (!previousGeometry) {
+            commitNodes(nextNodes);
+            onProgress?.(1);
+            return null;
+        }
+        const animationAbortController = new AbortController();
+        animationAbortControllerRef.current = animationAbortController;
+        const animation = animateLayoutTransition(
+            previousGeometry,
+            nextNodes,
+            layoutAnimation,
+            (frameNodes, progress) => {
+                commitNodes(frameNodes);
+                onProgress?.(progress);
+            },
+            animationAbortController.signal
+        ).finally(() => {
+            if (animationAbortControllerRef.current === animationAbortController) {
+                animationAbortControllerRef.current = null;
+                animationPromiseRef.current = null;
+            }
+        });
+        animationPromiseRef.current = animation;
+        return animation;
+    }, [commitNodes, layoutAnimation]);
+
+    // Moves the viewport from where it is to where the viewport policy wants it after the layout,
+    // or returns null when it stays
+    const getViewportTransition = useCallback((
+        previousGeometry: Map<string, NodeGeometry>,
+        nextNodes: Node[]
+    ): ((progress: number) => void) | null => {
+        if (viewportPolicy === 'none' || !reactFlowInstance?.setViewport) {
+            return null;
+        }
+        const viewport = reactFlowInstance.getViewport();
+        let target: Viewport | null = null;
+        if (viewportPolicy === 'fitView') {
+            // Fit the laid out nodes: the rendered ones are still at their old positions
+            const bounds = getLayoutBounds(nextNodes);
+            const { width, height, minZoom, maxZoom } = store.getState();
+            if (bounds && width > 0 && height > 0) {
+                target = getViewportForBounds(bounds, width, height, minZoom, maxZoom, DEFAULT_FIT_VIEW_PADDING);
+            }
+        } else {
+            target = getAnchoredViewport(
+                viewport,
+                previousGeometry,
+                captureNodeGeometry(nextNodes),
+                getViewportAnchorIds(viewportPolicy, selectedNodes)
+            );
+        }
+        if (!target) {
+            return null;
+        }
+        const targetViewport = target;
+        return progress => {
+            reactFlowInstance.setViewport(interpolateViewport(viewport, targetViewport, progress));
+        };
+    }, [viewportPolicy, reactFlowInstance, store, selectedNodes]);
 
     const applyLayout = useCallback(async (
         inputNodes: Node[] = [],
-        inputEdges: Edge[] = []
+        inputEdges: Edge[] = [],
+        layoutSelection: Node[] = selectedNodes
     ): Promise<{ nodes: Node[]; edges: Edge[] }> => {
         if (currentLayoutAbortControllerRef.current) {
             currentLayoutAbortControllerRef.current.abort();
@@ -46,31 +152,48 @@ export function useLayoutOperations({
         const edgesData = inputEdges.length > 0 ? inputEdges : edges;
         
         if (nodesData.length === 0) {
+            // Nothing runs, so nothing else clears the state the aborted layout left behind
+            currentLayoutAbortControllerRef.current = null;
+            setLayoutInProgress(false);
             return { nodes: nodesData, edges: edgesData };
         }
 
+        // Every start is paired with one outcome; a run that returns without one was superseded
+        let run: LayoutRun | null = null;
         try {
             setLayoutInProgress(true);
+            run = startLayoutRun({ onLayoutStart, onLayoutComplete, onLayoutError, onLayoutCancel });
+
+            // A running transition is either cut short or allowed to finish before the next layout starts
+            if (animationAbortControllerRef.current) {
+                if (layoutAnimation.interruptible) {
+                    animationAbortControllerRef.current.abort();
+                } else {
+                    await animationPromiseRef.current;
+                }
+            }
             
             if (abortController.signal.aborted) {
                 return { nodes: nodesData, edges: edgesData };
             }
 
-            const { nodes: filteredNodes, edges: filteredEdges } = filterVisibleNodesAndEdges(nodesData, edgesData, layoutHidden);
-            
-            const result = await calculateLayout(filteredNodes, filteredEdges, selectedNodes, abortController.signal);
+            // Layout calculation mutates container styles in place, so capture the starting geometry first
+            const previousGeometry = captureNodeGeometry(nodesData);
+
+            // Hidden nodes and edges are left out of the calculation but kept in the result
+            const result = await calculateLayout(nodesData, edgesData, layoutSelection, abortController.signal);
             
             if (abortController.signal.aborted) {
                 return { nodes: nodesData, edges: edgesData };
             }
 
             if (currentLayoutAbortControllerRef.current === abortController) {
-                if (updateNodes) {
-                    updateNodes(result.nodes);
-                } 
-                else if (reactFlowInstance?.setNodes) {
-                    reactFlowInstance.setNodes(result.nodes);
-                }
+                layoutHistory?.recordLayout(previousGeometry, result.nodes);
+                const animation = transitionNodes(
+                    layoutAnimation.enabled ? previousGeometry : null,
+                    result.nodes,
+                    getViewportTransition(previousGeometry, result.nodes)
+                );
 
                 if (updateEdges) {
                     updateEdges(result.edges);
@@ -87,15 +210,28 @@ export function useLayoutOperations({
                     }
                     pendingSpacingUpdateRef.current = null;
                 }
+
+                if (animation) {
+                    await animation;
+                }
+
+                setLayoutError(null);
+                run.complete(result, computeLayoutDiff(previousGeometry, result.nodes));
             }
 
             return result;
         } catch (error) {
             if (!abortController.signal.aborted) {
-                console.error("Error applying layout:", error);
+                const layoutFailure = error instanceof Error ? error : new Error(String(error));
+                setLayoutError(layoutFailure);
+                run?.fail(layoutFailure);
+                if (!onLayoutError) {
+                    console.error("Error applying layout:", error);
+                }
             }
             return { nodes: nodesData, edges: edgesData };
         } finally {
+            run?.cancel();
             if (currentLayoutAbortControllerRef.current === abortController) {
                 setLayoutInProgress(false);
                 currentLayoutAbortControllerRef.current = null;
@@ -106,17 +242,59 @@ export function useLayoutOperations({
         edges,
         selectedNodes,
         calculateLayout,
-        updateNodes,
+        transitionNodes,
+        getViewportTransition,
+        layoutHistory,
         updateEdges,
         reactFlowInstance,
-        layoutHidden,
+        layoutAnimation,
         setLayoutInProgress,
         setNodeSpacing,
-        setLayerSpacing
+        setLayerSpacing,
+        onLayoutStart,
+        onLayoutComplete,
+        onLayoutError,
+        onLayoutCancel
     ]);
 
+    // Moves the nodes to a history entry the same way a layout is committed, animated if enabled
+    const restoreLayout = useCallback(async (takeNodes: () => Node[] | null) => {
+        // Running layouts and transitions commit intermediate nodes, which must not end up in the history
+        if (currentLayoutAbortControllerRef.current || animationAbortControllerRef.current) {
+            return;
+        }
+        const restoredNodes = takeNodes();
+        if (!restoredNodes) {
+            return;
+        }
+        try {
+            setLayoutInProgress(true);
+            const animation = transitionNodes(layoutAnimation.enabled ? captureNodeGeometry(nodes) : null, restoredNodes);
+            if (animation) {
+                await animation;
+            }
+        } finally {
+            if (!currentLayoutAbortControllerRef.current) {
+                setLayoutInProgress(false);
+            }
+        }
+    }, [nodes, layoutAnimation, transitionNodes, setLayoutInProgress]);
+
+    const undoLayout = useCallback(
+        () => restoreLayout(() => layoutHistory?.stepBack() ?? null),
+        [restoreLayout, layoutHistory]
+    );
+
+    const redoLayout = useCallback(
+        () => restoreLayout(() => layoutHistory?.stepForward() ?? null),
+        [restoreLayout, layoutHistory]
+    );
+
     return {
         applyLayout,
+        undoLayout,
+        redoLayout,
+        layoutError,
         pendingSpacingUpdateRef
     };
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Node } from '@xyflow/react';
+import { buildNodeMaps } from '../utils/treeUtils';
 
 interface UseNodeMapsProps {
     nodes: Node[];
@@ -28,18 +29,10 @@ export function useNodeMaps({
     // Build internal maps if external maps aren't provided
     useEffect(() => {
         if (!externalNodeIdWithNode || !externalNodeParentIdMapWithChildIdSet) {
-            const newNodeIdWithNode = new Map<string, Node>();
-            const newNodeParentIdMapWithChildIdSet = new Map<string, Set<string>>();
-            
-            nodes.forEach((node) => {
-                newNodeIdWithNode.set(node.id, node);
-                
-                const parentId = node.parentId || noParentKey;
-                if (!newNodeParentIdMapWithChildIdSet.has(parentId)) {
-                    newNodeParentIdMapWithChildIdSet.set(parentId, new Set());
-                }
-                newNodeParentIdMapWithChildIdSet.get(parentId)?.add(node.id);
-            });
+            const {
+                nodeIdWithNode: newNodeIdWithNode,
+                nodeParentIdMapWithChildIdSet: newNodeParentIdMapWithChildIdSet
+            } = buildNodeMaps(nodes, noParentKey);
             
             if (!externalNodeIdWithNode) {
                 setInternalNodeIdWithNode(newNodeIdWithNode);
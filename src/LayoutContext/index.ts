@@ -3,14 +3,47 @@ import LayoutControls from './components/LayoutControls';
 import DirectionControls from './components/controls/DirectionControls';
 import SpacingControls from './components/controls/SpacingControls';
 import AutoLayoutToggle from './components/controls/AutoLayoutToggle';
-import { DagreEngine, engines } from './engines';
+import HistoryControls from './components/controls/HistoryControls';
+import RoutedEdge from './components/edges/RoutedEdge';
+import { DagreEngine, createDagreEngine, ElkEngine, createElkEngine, GridEngine, createGridEngine, RadialEngine, createRadialEngine, TidyTreeEngine, createTidyTreeEngine, ForceEngine, createForceEngine, engines } from './engines';
+import { measureLayoutDisplacement } from './utils/layoutStability';
+import { getAbsoluteLabelPosition, getAbsoluteWaypoints, getRoutedEdgePath } from './utils/edgeRouting';
+import { routeEdgesOrthogonally } from './core/OrthogonalRouter';
+import { layoutGraph } from './core/HeadlessLayout';
+import { parseDot, toDot } from './formats/dot';
+import { parseMermaid, toMermaid } from './formats/mermaid';
+import { parseElkGraph, toElkGraph } from './formats/elkJson';
+import { collapseContainerNodes, expandContainerNodes } from './utils/containerCollapse';
+import { computeLayoutDiff } from './utils/layoutDiff';
+import { anchorNode } from './utils/layoutViewport';
 import type { 
   LayoutDirection, 
   LayoutAlgorithm,
   LayoutEngine, 
+  LayoutEngineOptions,
+  LayoutAlignment,
+  HierarchyLayoutInput,
+  LayoutExecution,
   LayoutContextState,
   ParentResizingOptions 
 } from './context/LayoutContext';
+import type { ElkSettings, ElkHierarchyHandling } from './core/Elk';
+import type { GridSettings } from './core/Grid';
+import type { RadialSettings } from './core/Radial';
+import type { DagreSettings, EdgeLabelSize } from './core/Dagre';
+import type { TidyTreeSettings } from './core/TidyTree';
+import type { ForceSettings } from './core/Force';
+import type { LayoutAnimationOptions, LayoutAnimationEasing } from './utils/layoutAnimation';
+import type { LayoutDisplacement } from './utils/layoutStability';
+import type { LayoutDiff, MovedNode, ResizedContainer } from './utils/layoutDiff';
+import type { LayoutViewportPolicy } from './utils/layoutViewport';
+import type { RoutedEdgeCurve } from './utils/edgeRouting';
+import type { OrthogonalRoutingOptions } from './core/OrthogonalRouter';
+import type { RoutedEdgeData, RoutedEdgeType } from './components/edges/RoutedEdge';
+import type { LayoutGraphOptions } from './core/HeadlessLayout';
+import type { DotGraph, DotParseOptions, DotExportOptions } from './formats/dot';
+import type { MermaidFlowchart, MermaidExportOptions, MermaidNodeShape, MermaidEdgeStyle } from './formats/mermaid';
+import type { ElkGraphImport, ElkGraphImportOptions, ElkGraphExportOptions } from './formats/elkJson';
 
 // Export the public API
 // Components and functions
@@ -21,8 +54,37 @@ export {
   DirectionControls,
   SpacingControls,
   AutoLayoutToggle,
+  HistoryControls,
+  RoutedEdge,
   DagreEngine,
+  createDagreEngine,
+  ElkEngine,
+  createElkEngine,
+  GridEngine,
+  createGridEngine,
+  RadialEngine,
+  createRadialEngine,
+  TidyTreeEngine,
+  createTidyTreeEngine,
+  ForceEngine,
+  createForceEngine,
   engines,
+  measureLayoutDisplacement,
+  getAbsoluteWaypoints,
+  getAbsoluteLabelPosition,
+  getRoutedEdgePath,
+  routeEdgesOrthogonally,
+  layoutGraph,
+  parseDot,
+  toDot,
+  parseMermaid,
+  toMermaid,
+  parseElkGraph,
+  toElkGraph,
+  collapseContainerNodes,
+  expandContainerNodes,
+  computeLayoutDiff,
+  anchorNode,
 };
 
 // Re-export types with explicit "export type" syntax   
@@ -30,6 +92,40 @@ export type {
   LayoutDirection,
   LayoutAlgorithm,
   LayoutEngine,
+  LayoutEngineOptions,
+  LayoutAlignment,
+  HierarchyLayoutInput,
+  LayoutExecution,
   LayoutContextState,
-  ParentResizingOptions
+  ParentResizingOptions,
+  ElkSettings,
+  ElkHierarchyHandling,
+  GridSettings,
+  RadialSettings,
+  DagreSettings,
+  EdgeLabelSize,
+  TidyTreeSettings,
+  ForceSettings,
+  LayoutAnimationOptions,
+  LayoutAnimationEasing,
+  LayoutDisplacement,
+  LayoutDiff,
+  MovedNode,
+  ResizedContainer,
+  LayoutViewportPolicy,
+  RoutedEdgeCurve,
+  RoutedEdgeData,
+  RoutedEdgeType,
+  OrthogonalRoutingOptions,
+  LayoutGraphOptions,
+  DotGraph,
+  DotParseOptions,
+  DotExportOptions,
+  MermaidFlowchart,
+  MermaidExportOptions,
+  MermaidNodeShape,
+  MermaidEdgeStyle,
+  ElkGraphImport,
+  ElkGraphImportOptions,
+  ElkGraphExportOptions
 };
\ No newline at end of file
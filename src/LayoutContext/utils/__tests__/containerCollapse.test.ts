@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Edge, Node } from '@xyflow/react';
+import {
+  collapseContainerNodes,
+  expandContainerNodes,
+  getCollapsedEndpoint,
+  isCollapsedContainer,
+  relayoutContainerNodes,
+} from '../containerCollapse';
+
+const createNodes = (): Node[] => [
+  { id: 'outer', data: {}, position: { x: 0, y: 0 }, style: { width: 400, height: 300 } },
+  { id: 'inner', data: {}, position: { x: 20, y: 40 }, parentId: 'outer', style: { width: 200, height: 150 } },
+  { id: 'leaf', data: {}, position: { x: 10, y: 10 }, parentId: 'inner' },
+  { id: 'note', data: {}, position: { x: 250, y: 40 }, parentId: 'outer', hidden: true },
+  { id: 'other', data: {}, position: { x: 500, y: 0 } },
+];
+
+describe('containerCollapse', () => {
+  it('should hide all descendants and shrink the container to the collapsed size', () => {
+    const collapsed = collapseContainerNodes(createNodes(), 'outer', { width: 120, height: 30 })!;
+    const byId = new Map(collapsed.map(node => [node.id, node]));
+
+    expect(isCollapsedContainer(byId.get('outer'))).toBe(true);
+    expect(byId.get('outer')!.style).toEqual({ width: 120, height: 30 });
+    expect(byId.get('outer')!.data.collapsedNodeIds).toEqual(['inner', 'leaf']);
+    expect(['inner', 'leaf', 'note'].every(id => byId.get(id)!.hidden)).toBe(true);
+    expect(byId.get('other')!.hidden).toBeUndefined();
+  });
+
+  it('should only collapse containers that are not collapsed yet', () => {
+    const collapsed = collapseContainerNodes(createNodes(), 'outer')!;
+
+    expect(collapseContainerNodes(createNodes(), 'other')).toBeNull();
+    expect(collapseContainerNodes(collapsed, 'outer')).toBeNull();
+    expect(expandContainerNodes(createNodes(), 'outer')).toBeNull();
+  });
+
+  it('should show the nodes the collapse hid and keep nodes hidden before hidden', () => {
+    const expanded = expandContainerNodes(collapseContainerNodes(createNodes(), 'outer')!, 'outer')!;
+    const byId = new Map(expanded.map(node => [node.id, node]));
+
+    expect(isCollapsedContainer(byId.get('outer'))).toBe(false);
+    expect(byId.get('outer')!.data).toEqual({});
+    expect(byId.get('inner')!.hidden).toBe(false);
+    expect(byId.get('leaf')!.hidden).toBe(false);
+    expect(byId.get('note')!.hidden).toBe(true);
+  });
+
+  it('should resolve nodes to their outermost collapsed ancestor', () => {
+    const nodes = collapseContainerNodes(collapseContainerNodes(createNodes(), 'inner')!, 'outer')!;
+    const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+
+    expect(getCollapsedEndpoint('leaf', nodeIdWithNode)).toBe('outer');
+    expect(getCollapsedEndpoint('outer', nodeIdWithNode)).toBe('outer');
+    expect(getCollapsedEndpoint('other', nodeIdWithNode)).toBe('other');
+  });
+
+  it('should stage the collapsed state in the node map while the layout runs', async () => {
+    const nodes = createNodes();
+    const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+    const collapsed = collapseContainerNodes(nodes, 'outer')!;
+    const applyLayout = vi.fn(async (layoutNodes: Node[], edges: Edge[]) => {
+      expect(isCollapsedContainer(nodeIdWithNode.get('outer'))).toBe(true);
+      return { nodes: layoutNodes.map(node => ({ ...node })), edges };
+    });
+
+    await relayoutContainerNodes(collapsed, 'outer', [], nodeIdWithNode, applyLayout);
+
+    expect(applyLayout).toHaveBeenCalledWith(collapsed, [], [collapsed[0]]);
+    expect(nodeIdWithNode.get('outer')).toBe(collapsed[0]);
+  });
+
+  it('should restore the node map when the layout fails', async () => {
+    const nodes = createNodes();
+    const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+    const collapsed = collapseContainerNodes(nodes, 'outer')!;
+
+    // A failed layout is reported by applyLayout, which hands its input back
+    await relayoutContainerNodes(collapsed, 'outer', [], nodeIdWithNode, async (layoutNodes, edges) => ({ nodes: layoutNodes, edges }));
+    nodes.forEach(node => expect(nodeIdWithNode.get(node.id)).toBe(node));
+
+    const failingLayout = () => Promise.reject(new Error('layout failed'));
+    await expect(relayoutContainerNodes(collapsed, 'outer', [], nodeIdWithNode, failingLayout)).rejects.toThrow('layout failed');
+    nodes.forEach(node => expect(nodeIdWithNode.get(node.id)).toBe(node));
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { Edge, Node } from '@xyflow/react';
+import { applyEdgeRoutes, createEdgeRoutes, getAbsoluteWaypoints, getRoutedEdgePath } from '../edgeRouting';
+
+describe('edgeRouting', () => {
+  describe('createEdgeRoutes', () => {
+    const createTemporaryEdge = (source: string, target: string, originalSource: string, originalTarget: string): Edge => ({
+      id: `temp_e_container`,
+      source,
+      target,
+      data: {
+        isTemporary: true,
+        originalEdgeId: 'e',
+        originalSource,
+        originalTarget,
+        points: [{ x: 0, y: 10 }, { x: 0, y: 50 }, { x: 0, y: 90 }],
+      },
+    });
+    const enginePositions = new Map([['a', { x: 0, y: 0 }], ['b', { x: 0, y: 90 }]]);
+    const finalNodes: Node[] = [
+      { id: 'a', data: {}, position: { x: 20, y: 30 } },
+      { id: 'b', data: {}, position: { x: 20, y: 120 } },
+    ];
+
+    it('should drop the points on the edge\'s own endpoints and follow the final node positions', () => {
+      const routes = createEdgeRoutes([createTemporaryEdge('a', 'b', 'a', 'b')], enginePositions, finalNodes, 'container');
+
+      expect(routes).toEqual([{ edgeId: 'e', parentId: 'container', waypoints: [{ x: 20, y: 80 }] }]);
+    });
+
+    it('should keep the border points of containers holding the real endpoints', () => {
+      const routes = createEdgeRoutes([createTemporaryEdge('a', 'b', 'nested', 'b')], enginePositions, finalNodes);
+
+      expect(routes[0].waypoints).toEqual([{ x: 20, y: 40 }, { x: 20, y: 80 }]);
+    });
+
+    it('should interpolate the shift when the endpoints moved differently', () => {
+      const movedNodes: Node[] = [finalNodes[0], { id: 'b', data: {}, position: { x: 100, y: 120 } }];
+      const routes = createEdgeRoutes([createTemporaryEdge('a', 'b', 'a', 'b')], enginePositions, movedNodes);
+
+      expect(routes[0].waypoints).toEqual([{ x: 60, y: 80 }]);
+    });
+
+    it('should move the label point by the average shift of both endpoints', () => {
+      const labeled = createTemporaryEdge('a', 'b', 'a', 'b');
+      labeled.data!.labelPoint = { x: 0, y: 50 };
+      const movedNodes: Node[] = [finalNodes[0], { id: 'b', data: {}, position: { x: 100, y: 120 } }];
+
+      expect(createEdgeRoutes([labeled], enginePositions, movedNodes)[0].labelPosition).toEqual({ x: 60, y: 80 });
+    });
+
+    it('should skip synthetic bridge edges and give unrouted edges an empty route', () => {
+      const unrouted = createTemporaryEdge('a', 'b', 'a', 'b');
+      delete unrouted.data!.points;
+      const bridge: Edge = { ...createTemporaryEdge('a', 'b', 'a', 'b'), data: { isSyntheticBridge: true } };
+
+      expect(createEdgeRoutes([unrouted, bridge], enginePositions, finalNodes)).toEqual([
+        { edgeId: 'e', parentId: undefined, waypoints: [] },
+      ]);
+    });
+  });
+
+  describe('applyEdgeRoutes', () => {
+    it('should write routes and leave edges without a route untouched', () => {
+      const edges: Edge[] = [
+        { id: 'routed', source: 'a', target: 'b', data: { label: 'x' } },
+        { id: 'other', source: 'b', target: 'c' },
+      ];
+
+      const result = applyEdgeRoutes(edges, [{ edgeId: 'routed', parentId: 'container', waypoints: [{ x: 1, y: 2 }] }]);
+
+      expect(result[0].data).toEqual({ label: 'x', waypoints: [{ x: 1, y: 2 }], waypointsParentId: 'container' });
+      expect(result[1]).toBe(edges[1]);
+    });
+
+    it('should remove stale waypoints for empty routes', () => {
+      const edges: Edge[] = [
+        { id: 'e', source: 'a', target: 'b', data: { waypoints: [{ x: 1, y: 2 }], waypointsParentId: 'old' } },
+      ];
+
+      expect(applyEdgeRoutes(edges, [{ edgeId: 'e', waypoints: [] }])[0].data).toEqual({});
+    });
+
+    it('should write label positions and remove stale ones', () => {
+      const edges: Edge[] = [{ id: 'e', source: 'a', target: 'b', data: { labelPosition: { x: 5, y: 5 } } }];
+
+      const routed = applyEdgeRoutes(edges, [{ edgeId: 'e', waypoints: [{ x: 1, y: 2 }], labelPosition: { x: 3, y: 4 } }]);
+      const cleared = applyEdgeRoutes(routed, [{ edgeId: 'e', waypoints: [] }]);
+
+      expect(routed[0].data).toEqual({ waypoints: [{ x: 1, y: 2 }], labelPosition: { x: 3, y: 4 } });
+      expect(cleared[0].data).toEqual({});
+    });
+  });
+
+  describe('getAbsoluteWaypoints', () => {
+    it('should add the absolute position of the waypoints container', () => {
+      const nodeIdWithNode = new Map<string, Node>([
+        ['outer', { id: 'outer', data: {}, position: { x: 100, y: 200 } }],
+        ['inner', { id: 'inner', data: {}, position: { x: 10, y: 20 }, parentId: 'outer' }],
+      ]);
+      const edge: Edge = {
+        id: 'e',
+        source: 'a',
+        target: 'b',
+        data: { waypoints: [{ x: 1, y: 2 }], waypointsParentId: 'inner' },
+      };
+
+      expect(getAbsoluteWaypoints(edge, nodeIdWithNode)).toEqual([{ x: 111, y: 222 }]);
+    });
+  });
+
+  describe('getRoutedEdgePath', () => {
+    const points = [{ x: 0, y: 0 }, { x: 0, y: 100 }, { x: 100, y: 100 }];
+
+    it('should draw straight segments and place the label halfway along the route', () => {
+      expect(getRoutedEdgePath(points)).toEqual(['M0,0L0,100L100,100', 0, 100]);
+    });
+
+    it('should round the corners of a polyline', () => {
+      expect(getRoutedEdgePath(points, 'polyline', 10)[0]).toBe('M0,0L0,90Q0,100 10,100L100,100');
+    });
+
+    it('should draw a smooth curve through every point', () => {
+      const [path] = getRoutedEdgePath(points, 'smooth');
+
+      expect(path.startsWith('M0,0C')).toBe(true);
+      expect(path.match(/C/g)).toHaveLength(2);
+      expect(path.endsWith(' 100,100')).toBe(true);
+    });
+  });
+});
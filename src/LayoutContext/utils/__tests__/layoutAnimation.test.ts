@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Node } from '@xyflow/react';
+import {
+  animateLayoutTransition,
+  captureNodeGeometry,
+  createLayoutTransition,
+  resolveEasing,
+} from '../layoutAnimation';
+
+describe('layoutAnimation', () => {
+  const createPreviousNodes = (): Node[] => [
+    { id: 'containerA', data: {}, position: { x: 0, y: 0 }, style: { width: 100, height: 100 } },
+    { id: 'containerB', data: {}, position: { x: 200, y: 0 }, style: { width: 100, height: 100 } },
+    { id: 'child', data: {}, position: { x: 10, y: 20 }, parentId: 'containerA' },
+  ];
+
+  describe('captureNodeGeometry', () => {
+    it('should copy positions and sizes so later mutations do not leak in', () => {
+      const nodes = createPreviousNodes();
+      const geometry = captureNodeGeometry(nodes);
+
+      nodes[0].style!.width = 500;
+      nodes[0].position.x = 50;
+
+      expect(geometry.get('containerA')).toEqual({ x: 0, y: 0, parentId: undefined, width: 100, height: 100 });
+      expect(geometry.get('child')).toEqual({ x: 10, y: 20, parentId: 'containerA', width: undefined, height: undefined });
+    });
+  });
+
+  describe('createLayoutTransition', () => {
+    it('should interpolate positions and container sizes', () => {
+      const geometry = captureNodeGeometry(createPreviousNodes());
+      const transition = createLayoutTransition(geometry, [
+        { id: 'containerA', data: {}, position: { x: 100, y: 50 }, style: { width: 300, height: 200 } },
+        { id: 'child', data: {}, position: { x: 30, y: 40 }, parentId: 'containerA' },
+      ]);
+
+      const [container, child] = transition(0.5);
+
+      expect(container.position).toEqual({ x: 50, y: 25 });
+      expect(container.style).toEqual({ width: 200, height: 150 });
+      expect(container.measured).toEqual({ width: 200, height: 150 });
+      expect(child.position).toEqual({ x: 20, y: 30 });
+    });
+
+    it('should start reparented nodes from their previous absolute position', () => {
+      const geometry = captureNodeGeometry(createPreviousNodes());
+      const transition = createLayoutTransition(geometry, [
+        { id: 'containerB', data: {}, position: { x: 200, y: 0 } },
+        { id: 'child', data: {}, position: { x: 10, y: 10 }, parentId: 'containerB' },
+      ]);
+
+      // Previously at absolute (10, 20); containerB was at (200, 0)
+      expect(transition(0)[1].position).toEqual({ x: -190, y: 20 });
+      expect(transition(1)[1].position).toEqual({ x: 10, y: 10 });
+    });
+
+    it('should leave nodes without previous geometry untouched', () => {
+      const next: Node = { id: 'new', data: {}, position: { x: 5, y: 5 } };
+      const transition = createLayoutTransition(new Map(), [next]);
+
+      expect(transition(0.5)[0]).toBe(next);
+    });
+  });
+
+  describe('resolveEasing', () => {
+    it('should resolve named and custom easings', () => {
+      expect(resolveEasing('linear')(0.25)).toBe(0.25);
+      expect(resolveEasing('ease-in-out')(0.5)).toBe(0.5);
+      expect(resolveEasing('ease-out')(0.5)).toBeGreaterThan(0.5);
+      expect(resolveEasing(t => t / 2)(1)).toBe(0.5);
+    });
+  });
+
+  describe('animateLayoutTransition', () => {
+    const createFrameScheduler = () => {
+      const callbacks: ((time: number) => void)[] = [];
+      return {
+        requestFrame: (callback: (time: number) => void) => callbacks.push(callback),
+        flush: (time: number) => callbacks.shift()!(time),
+        pending: () => callbacks.length,
+      };
+    };
+
+    it('should emit intermediate frames and finish with the exact next nodes', async () => {
+      const scheduler = createFrameScheduler();
+      const onFrame = vi.fn();
+      const nextNodes: Node[] = [{ id: 'containerA', data: {}, position: { x: 100, y: 0 } }];
+
+      const promise = animateLayoutTransition(
+        captureNodeGeometry(createPreviousNodes()),
+        nextNodes,
+        { duration: 100, easing: 'linear' },
+        onFrame,
+        undefined,
+        scheduler.requestFrame
+      );
+
+      scheduler.flush(0);
+      scheduler.flush(50);
+      scheduler.flush(100);
+      await promise;
+
+      expect(onFrame).toHaveBeenCalledTimes(3);
+      expect(onFrame.mock.calls[1][0][0].position).toEqual({ x: 50, y: 0 });
+      expect(onFrame.mock.calls[2][0]).toBe(nextNodes);
+    });
+
+    it('should stop without a final frame when interrupted', async () => {
+      const scheduler = createFrameScheduler();
+      const onFrame = vi.fn();
+      const abortController = new AbortController();
+
+      const promise = animateLayoutTransition(
+        captureNodeGeometry(createPreviousNodes()),
+        [{ id: 'containerA', data: {}, position: { x: 100, y: 0 } }],
+        { duration: 100, easing: 'linear' },
+        onFrame,
+        abortController.signal,
+        scheduler.requestFrame
+      );
+
+      scheduler.flush(0);
+      abortController.abort();
+      scheduler.flush(50);
+      await promise;
+
+      expect(onFrame).toHaveBeenCalledTimes(1);
+      expect(scheduler.pending()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '@xyflow/react';
+import { captureNodeGeometry } from '../layoutAnimation';
+import { computeLayoutDiff } from '../layoutDiff';
+
+const createNodes = (childX: number, containerWidth = 200): Node[] => [
+  { id: 'container', data: {}, position: { x: 0, y: 0 }, style: { width: containerWidth, height: 100 } },
+  { id: 'child', data: {}, position: { x: childX, y: 20 }, parentId: 'container' },
+  { id: 'sibling', data: {}, position: { x: 300, y: 0 }, style: { width: 80, height: 40 } },
+];
+
+describe('computeLayoutDiff', () => {
+  it('should list moved nodes with their old and new positions', () => {
+    const diff = computeLayoutDiff(createNodes(10), createNodes(60));
+
+    expect(diff.movedNodes).toEqual([{
+      id: 'child',
+      oldPosition: { x: 10, y: 20 },
+      newPosition: { x: 60, y: 20 },
+      oldParentId: 'container',
+      newParentId: 'container',
+    }]);
+    expect(diff.resizedContainers).toEqual([]);
+  });
+
+  it('should only report containers as resized and ignore sub-pixel changes', () => {
+    const next = createNodes(10.2, 260).map(node =>
+      node.id === 'sibling' ? { ...node, style: { width: 120, height: 40 } } : node
+    );
+    const diff = computeLayoutDiff(captureNodeGeometry(createNodes(10)), next);
+
+    expect(diff.movedNodes).toEqual([]);
+    expect(diff.resizedContainers).toEqual([
+      { id: 'container', oldSize: { width: 200, height: 100 }, newSize: { width: 260, height: 100 } },
+    ]);
+  });
+
+  it('should count a change of parent as a move and leave out added nodes', () => {
+    const next = [
+      ...createNodes(10).map(node => (node.id === 'child' ? { ...node, parentId: undefined } : node)),
+      { id: 'added', data: {}, position: { x: 0, y: 200 } },
+    ];
+    const diff = computeLayoutDiff(createNodes(10), next);
+
+    expect(diff.movedNodes.map(node => [node.id, node.oldParentId, node.newParentId])).toEqual([
+      ['child', 'container', undefined],
+    ]);
+  });
+});
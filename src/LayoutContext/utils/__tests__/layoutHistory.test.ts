@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '@xyflow/react';
+import { captureNodeGeometry } from '../layoutAnimation';
+import {
+  canRedoLayout,
+  canUndoLayout,
+  EMPTY_LAYOUT_HISTORY,
+  isSameLayout,
+  LayoutHistory,
+  pushLayoutSnapshot,
+  recordLayoutChange,
+  redoLayoutHistory,
+  restoreLayoutSnapshot,
+  undoLayoutHistory,
+} from '../layoutHistory';
+
+const createNodes = (childX: number, containerWidth = 200): Node[] => [
+  { id: 'container', data: {}, position: { x: 0, y: 0 }, style: { width: containerWidth, height: 100 } },
+  { id: 'child', data: {}, position: { x: childX, y: 20 }, parentId: 'container' },
+];
+
+const moveChild = (nodes: Node[], x: number): Node[] =>
+  nodes.map(node => (node.id === 'child' ? { ...node, position: { ...node.position, x } } : node));
+
+const record = (history: LayoutHistory, previous: Node[], next: Node[], limit = 50) =>
+  recordLayoutChange(history, captureNodeGeometry(previous), captureNodeGeometry(next), limit);
+
+describe('layoutHistory', () => {
+  describe('recordLayoutChange', () => {
+    it('should record the starting layout once and then every committed layout', () => {
+      let history = record(EMPTY_LAYOUT_HISTORY, createNodes(0), createNodes(10));
+      history = record(history, createNodes(10), createNodes(20));
+
+      expect(history.entries.map(entry => entry.get('child')!.x)).toEqual([0, 10, 20]);
+      expect(history.index).toBe(2);
+    });
+
+    it('should record manual moves between layouts as their own entry', () => {
+      let history = record(EMPTY_LAYOUT_HISTORY, createNodes(0), createNodes(10));
+      history = record(history, createNodes(15), createNodes(20));
+
+      expect(history.entries.map(entry => entry.get('child')!.x)).toEqual([0, 10, 15, 20]);
+    });
+
+    it('should drop the oldest entries beyond the limit', () => {
+      let history = record(EMPTY_LAYOUT_HISTORY, createNodes(0), createNodes(10), 2);
+      history = record(history, createNodes(10), createNodes(20), 2);
+
+      expect(history.entries.map(entry => entry.get('child')!.x)).toEqual([10, 20]);
+      expect(pushLayoutSnapshot(history, captureNodeGeometry(createNodes(30)), 0)).toEqual(EMPTY_LAYOUT_HISTORY);
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('should step through committed layouts and restore positions and container sizes', () => {
+      const history = record(EMPTY_LAYOUT_HISTORY, createNodes(0, 200), createNodes(10, 300));
+      const current = createNodes(10, 300);
+
+      const undone = undoLayoutHistory(history, current, 50)!;
+      const restored = restoreLayoutSnapshot(current, undone.snapshot);
+
+      expect(restored[0].style).toEqual({ width: 200, height: 100 });
+      expect(restored[1].position).toEqual({ x: 0, y: 20 });
+      expect(canUndoLayout(undone.history, restored)).toBe(false);
+      expect(canRedoLayout(undone.history, restored)).toBe(true);
+      // Back at the first entry with nothing moved, there is nothing left to undo
+      expect(undone.history.index).toBe(0);
+      expect(undoLayoutHistory(undone.history, restored, 50)).toBeNull();
+
+      const redone = redoLayoutHistory(undone.history, restored)!;
+      expect(restoreLayoutSnapshot(restored, redone.snapshot)[1].position.x).toBe(10);
+      expect(redone.history.index).toBe(1);
+    });
+
+    it('should undo unrecorded manual moves back to the last layout and redo them', () => {
+      const history = record(EMPTY_LAYOUT_HISTORY, createNodes(0), createNodes(10));
+      const dragged = moveChild(createNodes(10), 40);
+
+      expect(canUndoLayout(history, dragged)).toBe(true);
+      const undone = undoLayoutHistory(history, dragged, 50)!;
+      const restored = restoreLayoutSnapshot(dragged, undone.snapshot);
+
+      expect(restored[1].position.x).toBe(10);
+      expect(redoLayoutHistory(undone.history, restored)!.snapshot.get('child')!.x).toBe(40);
+    });
+
+    it('should not redo once nodes moved after an undo', () => {
+      const history = record(EMPTY_LAYOUT_HISTORY, createNodes(0), createNodes(10));
+      const undone = undoLayoutHistory(history, createNodes(10), 50)!;
+
+      expect(canRedoLayout(undone.history, createNodes(25))).toBe(false);
+      expect(redoLayoutHistory(undone.history, createNodes(25))).toBeNull();
+    });
+  });
+
+  describe('isSameLayout', () => {
+    it('should ignore sub-pixel differences and nodes added since the snapshot', () => {
+      const snapshot = captureNodeGeometry(createNodes(10));
+      const withNewNode = [...moveChild(createNodes(10), 10.2), { id: 'new', data: {}, position: { x: 500, y: 0 } }];
+
+      expect(isSameLayout(snapshot, withNewNode)).toBe(true);
+      expect(isSameLayout(snapshot, createNodes(12))).toBe(false);
+    });
+
+    it('should leave nodes that changed parent where they are', () => {
+      const snapshot = captureNodeGeometry(createNodes(10));
+      const reparented = createNodes(50).map(node => (node.id === 'child' ? { ...node, parentId: undefined } : node));
+
+      expect(restoreLayoutSnapshot(reparented, snapshot)[1].position.x).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { startLayoutRun } from '../layoutLifecycle';
+
+const createCallbacks = () => ({
+  onLayoutStart: vi.fn(),
+  onLayoutComplete: vi.fn(),
+  onLayoutError: vi.fn(),
+  onLayoutCancel: vi.fn(),
+});
+
+describe('layoutLifecycle', () => {
+  it('should pair the start with the first outcome only', () => {
+    const callbacks = createCallbacks();
+    const result = { nodes: [], edges: [] };
+    const diff = { movedNodes: [], resizedContainers: [] };
+
+    const run = startLayoutRun(callbacks);
+    expect(callbacks.onLayoutStart).toHaveBeenCalledTimes(1);
+
+    run.complete(result, diff);
+    run.cancel();
+    run.fail(new Error('late'));
+
+    expect(callbacks.onLayoutComplete).toHaveBeenCalledWith(result, diff);
+    expect(callbacks.onLayoutCancel).not.toHaveBeenCalled();
+    expect(callbacks.onLayoutError).not.toHaveBeenCalled();
+  });
+
+  it('should report a superseded run as cancelled and a failed one as failed', () => {
+    const callbacks = createCallbacks();
+    const error = new Error('layout failed');
+
+    startLayoutRun(callbacks).cancel();
+    const failed = startLayoutRun(callbacks);
+    failed.fail(error);
+    failed.cancel();
+
+    expect(callbacks.onLayoutStart).toHaveBeenCalledTimes(2);
+    expect(callbacks.onLayoutCancel).toHaveBeenCalledTimes(1);
+    expect(callbacks.onLayoutError).toHaveBeenCalledWith(error);
+    expect(callbacks.onLayoutComplete).not.toHaveBeenCalled();
+  });
+});
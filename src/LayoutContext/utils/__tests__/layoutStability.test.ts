@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '@xyflow/react';
+import { alignToPreviousPositions, measureLayoutDisplacement } from '../layoutStability';
+
+const createNode = (id: string, x: number, y: number): Node => ({ id, data: {}, position: { x, y } });
+
+describe('layoutStability', () => {
+  describe('measureLayoutDisplacement', () => {
+    it('should measure the distance of nodes present in both layouts', () => {
+      const displacement = measureLayoutDisplacement(
+        [createNode('a', 0, 0), createNode('b', 0, 0), createNode('removed', 0, 0)],
+        [createNode('a', 3, 4), createNode('b', 0, 0), createNode('added', 100, 100)]
+      );
+
+      expect(displacement.byNodeId).toEqual(new Map([['a', 5], ['b', 0]]));
+      expect(displacement.total).toBe(5);
+      expect(displacement.max).toBe(5);
+      expect(displacement.average).toBe(2.5);
+    });
+
+    it('should restrict the measure to the given node ids', () => {
+      const displacement = measureLayoutDisplacement(
+        [createNode('a', 0, 0), createNode('b', 0, 0)],
+        [createNode('a', 3, 4), createNode('b', 0, 10)],
+        ['b']
+      );
+
+      expect(displacement.total).toBe(10);
+      expect([...displacement.byNodeId.keys()]).toEqual(['b']);
+    });
+
+    it('should report zero for layouts without common nodes', () => {
+      expect(measureLayoutDisplacement([], [createNode('a', 1, 1)])).toEqual({
+        total: 0,
+        max: 0,
+        average: 0,
+        byNodeId: new Map(),
+      });
+    });
+  });
+
+  describe('alignToPreviousPositions', () => {
+    it('should translate by the median offset so outliers do not drag the layout', () => {
+      const previous = [createNode('a', 100, 100), createNode('b', 300, 100), createNode('c', 500, 100)];
+      const nodes = [createNode('a', 0, 0), createNode('b', 200, 0), createNode('c', 900, 0), createNode('new', 50, 50)];
+
+      alignToPreviousPositions(previous, nodes);
+
+      expect(nodes.map(node => node.position)).toEqual([
+        { x: 100, y: 100 },
+        { x: 300, y: 100 },
+        { x: 1000, y: 100 },
+        { x: 150, y: 150 },
+      ]);
+    });
+
+    it('should leave nodes untouched without previous positions', () => {
+      const nodes = [createNode('a', 10, 20)];
+
+      alignToPreviousPositions([], nodes);
+
+      expect(nodes[0].position).toEqual({ x: 10, y: 20 });
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Node } from '@xyflow/react';
+import { captureNodeGeometry } from '../layoutAnimation';
+import {
+  anchorNode,
+  getAnchoredViewport,
+  getLayoutBounds,
+  getViewportAnchorIds,
+  interpolateViewport,
+} from '../layoutViewport';
+
+const createNodes = (containerX: number, childX: number): Node[] => [
+  { id: 'container', data: {}, position: { x: containerX, y: 0 }, style: { width: 300, height: 200 } },
+  { id: 'child', data: {}, position: { x: childX, y: 50 }, parentId: 'container', style: { width: 100, height: 40 } },
+  { id: 'other', data: {}, position: { x: 400, y: 300 }, style: { width: 50, height: 50 } },
+];
+
+describe('layoutViewport', () => {
+  it('should resolve the anchors of each policy', () => {
+    const selected = createNodes(0, 0).slice(1, 3);
+
+    expect(getViewportAnchorIds('anchorSelection', selected)).toEqual(['child', 'other']);
+    expect(getViewportAnchorIds(anchorNode('container'), selected)).toEqual(['container']);
+    expect(getViewportAnchorIds('fitView', selected)).toEqual([]);
+    expect(getViewportAnchorIds('none', selected)).toEqual([]);
+  });
+
+  it('should pan by the absolute distance the anchor moved, scaled by the zoom', () => {
+    const previous = captureNodeGeometry(createNodes(0, 20));
+    const next = captureNodeGeometry(createNodes(100, 50));
+
+    const viewport = getAnchoredViewport({ x: 10, y: 20, zoom: 2 }, previous, next, ['child']);
+
+    // The child moved 130px to the right in flow coordinates
+    expect(viewport).toEqual({ x: 10 - 260, y: 20, zoom: 2 });
+    expect(getAnchoredViewport({ x: 0, y: 0, zoom: 1 }, previous, next, ['missing'])).toBeNull();
+  });
+
+  it('should compute the absolute bounds of the visible nodes', () => {
+    const nodes = [...createNodes(100, 50), { id: 'hidden', data: {}, position: { x: -500, y: -500 }, hidden: true }];
+
+    expect(getLayoutBounds(nodes)).toEqual({ x: 100, y: 0, width: 350, height: 350 });
+    expect(getLayoutBounds([])).toBeNull();
+  });
+
+  it('should interpolate between viewports', () => {
+    expect(interpolateViewport({ x: 0, y: 100, zoom: 1 }, { x: 100, y: 0, zoom: 2 }, 0.25))
+      .toEqual({ x: 25, y: 75, zoom: 1.25 });
+  });
+});
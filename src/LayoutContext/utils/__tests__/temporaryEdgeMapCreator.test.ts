@@ -84,4 +84,26 @@ describe('temporaryEdgeMapCreator', () => {
     expect(result.get('A')?.[0].data?.isSyntheticBridge).toBe(true);
     expect(result.get('A')?.[0].data?.bridgeBranch).toBe('B');
   });
+
+  it('attaches edges of nodes hidden in a collapsed container to the container and drops its internal edges', () => {
+    const nodes: Node[] = [
+      { id: 'A', data: { label: 'A', collapsed: true }, position: { x: 0, y: 0 } },
+      { id: 'B', data: { label: 'B' }, position: { x: 0, y: 0 } },
+      { id: 'A1', data: { label: 'A1' }, position: { x: 0, y: 0 }, parentId: 'A', hidden: true },
+      { id: 'A2', data: { label: 'A2' }, position: { x: 0, y: 0 }, parentId: 'A', hidden: true },
+    ];
+
+    const nodeIdWithNode = new Map(nodes.map(node => [node.id, node]));
+    const edges: Edge[] = [
+      { id: 'A1-B', source: 'A1', target: 'B' },
+      { id: 'A1-A2', source: 'A1', target: 'A2' },
+    ];
+
+    const result = createGlobalTemporaryEdgesMap(edges, nodeIdWithNode);
+    const rootEdges = result.get('no-parent') || [];
+
+    expect(rootEdges.map(edge => `${edge.source}->${edge.target}`)).toEqual(['A->B']);
+    expect(rootEdges[0].data?.originalSource).toBe('A1');
+    expect(result.get('A') || []).toHaveLength(0);
+  });
 });
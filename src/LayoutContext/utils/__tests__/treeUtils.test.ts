@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { Node } from '@xyflow/react';
-import { buildNodeTree, getNodesAtDepth, getMaxTreeDepth, TreeNode } from '../treeUtils';
+import { buildNodeMaps, buildNodeTree, getNodesAtDepth, getMaxTreeDepth, TreeNode } from '../treeUtils';
 
 describe('treeUtils', () => {
   // Test setup to create nodes and relationships for testing
@@ -72,6 +72,23 @@ describe('treeUtils', () => {
     };
   };
 
+  describe('buildNodeMaps', () => {
+    it('should index nodes by id and group child ids by parent', () => {
+      const nodes: Node[] = [
+        { id: 'parent', data: {}, position: { x: 0, y: 0 } },
+        { id: 'child', data: {}, position: { x: 0, y: 0 }, parentId: 'parent' },
+      ];
+
+      const { nodeIdWithNode, nodeParentIdMapWithChildIdSet } = buildNodeMaps(nodes, 'root');
+
+      expect(nodeIdWithNode.get('child')).toBe(nodes[1]);
+      expect(nodeParentIdMapWithChildIdSet).toEqual(new Map([
+        ['root', new Set(['parent'])],
+        ['parent', new Set(['child'])],
+      ]));
+    });
+  });
+
   describe('buildNodeTree', () => {
     it('should build a tree structure from parent-child relationships', () => {
       const setup = createTestSetup();
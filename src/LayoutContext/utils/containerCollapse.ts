@@ -0,0 +1,144 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { ParentResizingOptions } from '../context/LayoutContext';
+
+// Size of a collapsed container when the parent resizing options do not set one: room for its header
+export const DEFAULT_COLLAPSED_SIZE = { width: 200, height: 48 };
+
+export const isCollapsedContainer = (node: Node | undefined): boolean => Boolean(node?.data?.collapsed);
+
+export const getCollapsedSize = (options?: Pick<ParentResizingOptions, 'collapsedSize'>) =>
+  options?.collapsedSize ?? DEFAULT_COLLAPSED_SIZE;
+
+/**
+ * The node that stands in for a node in the layout: its outermost collapsed ancestor, or the node itself
+ * when no ancestor is collapsed. Edges of nodes hidden by a collapse attach to the collapsed container.
+ */
+export const getCollapsedEndpoint = (nodeId: string, nodeIdWithNode: Map<string, Node>): string => {
+  let endpoint = nodeId;
+  const visited = new Set<string>([nodeId]);
+  let parentId = nodeIdWithNode.get(nodeId)?.parentId;
+  while (parentId && !visited.has(parentId)) {
+    visited.add(parentId);
+    const parent = nodeIdWithNode.get(parentId);
+    if (isCollapsedContainer(parent)) {
+      endpoint = parentId;
+    }
+    parentId = parent?.parentId;
+  }
+  return endpoint;
+};
+
+const getDescendantIds = (nodes: Node[], containerId: string): Set<string> => {
+  const childrenByParent = new Map<string, string[]>();
+  nodes.forEach(node => {
+    if (node.parentId) {
+      childrenByParent.set(node.parentId, [...(childrenByParent.get(node.parentId) ?? []), node.id]);
+    }
+  });
+  const descendants = new Set<string>();
+  const visit = (id: string) => (childrenByParent.get(id) ?? []).forEach(childId => {
+    if (childId !== containerId && !descendants.has(childId)) {
+      descendants.add(childId);
+      visit(childId);
+    }
+  });
+  visit(containerId);
+  return descendants;
+};
+
+/**
+ * Collapses a container to the given size and hides its descendants. The ids it hid are kept in
+ * `data.collapsedNodeIds`, so expanding leaves nodes that were hidden before untouched.
+ * Returns null when the node is not a container or already collapsed.
+ */
+export const collapseContainerNodes = (
+  nodes: Node[],
+  containerId: string,
+  collapsedSize: { width: number; height: number } = DEFAULT_COLLAPSED_SIZE
+): Node[] | null => {
+  const container = nodes.find(node => node.id === containerId);
+  const descendantIds = getDescendantIds(nodes, containerId);
+  if (!container || isCollapsedContainer(container) || descendantIds.size === 0) {
+    return null;
+  }
+  const hiddenIds = nodes.filter(node => descendantIds.has(node.id) && !node.hidden).map(node => node.id);
+  const hiddenIdSet = new Set(hiddenIds);
+  const { width, height } = collapsedSize;
+
+  return nodes.map(node => {
+    if (node.id === containerId) {
+      return {
+        ...node,
+        data: { ...node.data, collapsed: true, collapsedNodeIds: hiddenIds },
+        style: { ...node.style, width, height },
+        width,
+        height,
+        measured: { width, height },
+      };
+    }
+    return hiddenIdSet.has(node.id) ? { ...node, hidden: true, selected: false } : node;
+  });
+};
+
+/**
+ * Shows the descendants a collapse hid again. Returns null when the container is not collapsed.
+ */
+export const expandContainerNodes = (nodes: Node[], containerId: string): Node[] | null => {
+  const container = nodes.find(node => node.id === containerId);
+  if (!container || !isCollapsedContainer(container)) {
+    return null;
+  }
+  const hiddenIds = new Set(Array.isArray(container.data.collapsedNodeIds) ? container.data.collapsedNodeIds as string[] : []);
+
+  return nodes.map(node => {
+    if (node.id === containerId) {
+      const data = { ...node.data };
+      delete data.collapsed;
+      delete data.collapsedNodeIds;
+      return { ...node, data };
+    }
+    return hiddenIds.has(node.id) ? { ...node, hidden: false } : node;
+  });
+};
+
+/**
+ * Lays out a container after a collapse or expand, starting the chain at the container the same way
+ * a selection layout does. The layout reads nodes from the node map, so the new state is staged there
+ * first and put back when the layout fails or is superseded without committing anything.
+ */
+export const relayoutContainerNodes = async (
+  nextNodes: Node[],
+  containerId: string,
+  edges: Edge[],
+  nodeIdWithNode: Map<string, Node>,
+  applyLayout: (nodes: Node[], edges: Edge[], layoutSelection: Node[]) => Promise<{ nodes: Node[]; edges: Edge[] }>
+): Promise<void> => {
+  const stagedEntries = new Map<string, { previous: Node; staged: Node }>();
+  nextNodes.forEach(node => {
+    const previous = nodeIdWithNode.get(node.id);
+    if (previous) {
+      stagedEntries.set(node.id, { previous, staged: node });
+      nodeIdWithNode.set(node.id, node);
+    }
+  });
+
+  // Selecting a child starts the chain at the container, which lays out its children again;
+  // a collapsed container has no visible child and starts the chain at its parent with its collapsed size
+  const container = nextNodes.find(node => node.id === containerId)!;
+  const visibleChild = nextNodes.find(node => node.parentId === containerId && !node.hidden);
+  let committed = false;
+  try {
+    const result = await applyLayout(nextNodes, edges, [visibleChild ?? container]);
+    // A failed or aborted layout hands its input back unchanged
+    committed = result.nodes !== nextNodes;
+  } finally {
+    if (!committed) {
+      stagedEntries.forEach(({ previous, staged }, id) => {
+        // Entries a later collapse staged in the meantime are left to that layout
+        if (nodeIdWithNode.get(id) === staged) {
+          nodeIdWithNode.set(id, previous);
+        }
+      });
+    }
+  }
+};
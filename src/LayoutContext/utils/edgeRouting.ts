@@ -0,0 +1,276 @@
+import { Edge, Node, XYPosition } from '@xyflow/react';
+
+export type RoutedEdgeCurve = 'polyline' | 'smooth';
+
+/**
+ * Route of one original edge, computed in the container that holds the edge's projection
+ * (the lowest common ancestor of its endpoints). Waypoints are relative to that container,
+ * so they stay valid when the container itself moves.
+ */
+export interface EdgeRoute {
+  edgeId: string;
+  parentId?: string; // Container the waypoints are relative to; undefined for root-level edges
+  waypoints: XYPosition[];
+  labelPosition?: XYPosition; // Center of the label space the engine reserved, relative to the same container
+  cornerRadius?: number; // Set for routes of the orthogonal router
+}
+
+const getEdgePoints = (edge: Edge): XYPosition[] | null => {
+  const points = edge.data?.points;
+  return Array.isArray(points) && points.length >= 2 ? points as XYPosition[] : null;
+};
+
+const getLabelPoint = (edge: Edge): XYPosition | undefined => {
+  const point = edge.data?.labelPoint as XYPosition | undefined;
+  return point && typeof point.x === 'number' && typeof point.y === 'number' ? point : undefined;
+};
+
+/**
+ * Moves a polyline along with its endpoints: the first point by sourceDelta, the last by targetDelta
+ * and everything in between by a mix of both, weighted by distance along the line.
+ */
+const translatePolyline = (points: XYPosition[], sourceDelta: XYPosition, targetDelta: XYPosition): XYPosition[] => {
+  const lengths = [0];
+  for (let index = 1; index < points.length; index++) {
+    const previous = points[index - 1];
+    lengths.push(lengths[index - 1] + Math.hypot(points[index].x - previous.x, points[index].y - previous.y));
+  }
+  const totalLength = lengths[lengths.length - 1];
+
+  return points.map((point, index) => {
+    const t = totalLength > 0 ? lengths[index] / totalLength : index / (points.length - 1);
+    return {
+      x: point.x + sourceDelta.x + (targetDelta.x - sourceDelta.x) * t,
+      y: point.y + sourceDelta.y + (targetDelta.y - sourceDelta.y) * t,
+    };
+  });
+};
+
+/**
+ * Turns the edges an engine routed for one container into routes of the original edges.
+ * enginePositions are the child positions the engine returned; finalNodes are the children after the
+ * organizer shifted them (padding, locked nodes, collisions), and the points follow that shift.
+ * The endpoints of the engine's polyline are dropped where they touch the edge's own source or target,
+ * since the edge renderer draws to the handles; where the projection ends on an ancestor container
+ * of the real endpoint, the point on that container's border is kept.
+ * A label point the engine reserved (`data.labelPoint`) moves by the average of both endpoint shifts.
+ * Every temporary edge gets a route, an empty one when the engine did not route it.
+ */
+export const createEdgeRoutes = (
+  layoutedEdges: Edge[],
+  enginePositions: Map<string, XYPosition>,
+  finalNodes: Node[],
+  parentId?: string
+): EdgeRoute[] => {
+  const finalPositions = new Map(finalNodes.map(node => [node.id, node.position]));
+  const getDelta = (nodeId: string): XYPosition => {
+    const before = enginePositions.get(nodeId);
+    const after = finalPositions.get(nodeId);
+    return before && after ? { x: after.x - before.x, y: after.y - before.y } : { x: 0, y: 0 };
+  };
+
+  const routes: EdgeRoute[] = [];
+  layoutedEdges.forEach(edge => {
+    const edgeId = edge.data?.originalEdgeId;
+    if (typeof edgeId !== 'string' || edge.data?.isSyntheticBridge) {
+      return;
+    }
+
+    const points = getEdgePoints(edge);
+    if (!points) {
+      routes.push({ edgeId, parentId, waypoints: [] });
+      return;
+    }
+
+    const sourceDelta = getDelta(edge.source);
+    const targetDelta = getDelta(edge.target);
+    const translated = translatePolyline(points, sourceDelta, targetDelta);
+    const start = edge.source === edge.data?.originalSource ? 1 : 0;
+    const end = edge.target === edge.data?.originalTarget ? translated.length - 1 : translated.length;
+    const labelPoint = getLabelPoint(edge);
+    routes.push({
+      edgeId,
+      parentId,
+      waypoints: translated.slice(start, end),
+      ...(labelPoint ? {
+        labelPosition: {
+          x: labelPoint.x + (sourceDelta.x + targetDelta.x) / 2,
+          y: labelPoint.y + (sourceDelta.y + targetDelta.y) / 2,
+        },
+      } : {}),
+    });
+  });
+
+  return routes;
+};
+
+/**
+ * Writes routes into `edge.data.waypoints`, `edge.data.labelPosition` and `edge.data.waypointsParentId`,
+ * and `edge.data.cornerRadius` when the route sets one.
+ * Edges without a route are returned unchanged; an empty route removes earlier waypoints and label positions.
+ */
+export const applyEdgeRoutes = (edges: Edge[], routes: Iterable<EdgeRoute>): Edge[] => {
+  const routeByEdgeId = new Map<string, EdgeRoute>();
+  for (const route of routes) {
+    routeByEdgeId.set(route.edgeId, route);
+  }
+
+  return edges.map(edge => {
+    const route = routeByEdgeId.get(edge.id);
+    if (!route) {
+      return edge;
+    }
+    const data = { ...edge.data };
+    delete data.waypoints;
+    delete data.waypointsParentId;
+    delete data.labelPosition;
+    if (route.waypoints.length === 0 && !route.labelPosition) {
+      return edge.data && ('waypoints' in edge.data || 'waypointsParentId' in edge.data || 'labelPosition' in edge.data)
+        ? { ...edge, data }
+        : edge;
+    }
+    return {
+      ...edge,
+      data: {
+        ...data,
+        waypoints: route.waypoints,
+        ...(route.labelPosition ? { labelPosition: route.labelPosition } : {}),
+        ...(route.parentId !== undefined ? { waypointsParentId: route.parentId } : {}),
+        ...(route.cornerRadius !== undefined ? { cornerRadius: route.cornerRadius } : {}),
+      },
+    };
+  });
+};
+
+// Absolute position of the container an edge's route is relative to
+const getRouteOffset = (edge: Edge, nodeIdWithNode: Map<string, Node>): XYPosition => {
+  let offsetX = 0;
+  let offsetY = 0;
+  const visited = new Set<string>();
+  let current = typeof edge.data?.waypointsParentId === 'string'
+    ? nodeIdWithNode.get(edge.data.waypointsParentId)
+    : undefined;
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    offsetX += current.position.x;
+    offsetY += current.position.y;
+    current = current.parentId ? nodeIdWithNode.get(current.parentId) : undefined;
+  }
+
+  return { x: offsetX, y: offsetY };
+};
+
+/**
+ * Absolute flow coordinates of an edge's waypoints, resolved through the parent chain of its container
+ */
+export const getAbsoluteWaypoints = (edge: Edge, nodeIdWithNode: Map<string, Node>): XYPosition[] => {
+  const waypoints = Array.isArray(edge.data?.waypoints) ? edge.data.waypoints as XYPosition[] : [];
+  const offset = getRouteOffset(edge, nodeIdWithNode);
+  return waypoints.map(point => ({ x: point.x + offset.x, y: point.y + offset.y }));
+};
+
+/**
+ * Absolute flow coordinates of the label center the layout reserved for an edge,
+ * or undefined when the layout placed no label
+ */
+export const getAbsoluteLabelPosition = (edge: Edge, nodeIdWithNode: Map<string, Node>): XYPosition | undefined => {
+  const labelPosition = edge.data?.labelPosition as XYPosition | undefined;
+  if (!labelPosition) {
+    return undefined;
+  }
+  const offset = getRouteOffset(edge, nodeIdWithNode);
+  return { x: labelPosition.x + offset.x, y: labelPosition.y + offset.y };
+};
+
+/**
+ * Point halfway along a polyline, used to place edge labels
+ */
+const getPolylineMidpoint = (points: XYPosition[]): XYPosition => {
+  const segmentLengths = points.slice(1).map((point, index) =>
+    Math.hypot(point.x - points[index].x, point.y - points[index].y));
+  let remaining = segmentLengths.reduce((sum, length) => sum + length, 0) / 2;
+
+  for (let index = 0; index < segmentLengths.length; index++) {
+    const length = segmentLengths[index];
+    if (remaining <= length && length > 0) {
+      const t = remaining / length;
+      return {
+        x: points[index].x + (points[index + 1].x - points[index].x) * t,
+        y: points[index].y + (points[index + 1].y - points[index].y) * t,
+      };
+    }
+    remaining -= length;
+  }
+
+  return points[points.length - 1];
+};
+
+const formatPoint = ({ x, y }: XYPosition) => `${x},${y}`;
+
+/**
+ * Polyline whose corners are rounded with quadratic curves, the radius limited to half of each adjacent segment
+ */
+const getRoundedPolylinePath = (points: XYPosition[], cornerRadius: number): string => {
+  let path = `M${formatPoint(points[0])}`;
+  for (let index = 1; index < points.length - 1; index++) {
+    const previous = points[index - 1];
+    const corner = points[index];
+    const next = points[index + 1];
+    const lengthIn = Math.hypot(corner.x - previous.x, corner.y - previous.y);
+    const lengthOut = Math.hypot(next.x - corner.x, next.y - corner.y);
+    const radius = Math.min(cornerRadius, lengthIn / 2, lengthOut / 2);
+    if (radius <= 0) {
+      path += `L${formatPoint(corner)}`;
+      continue;
+    }
+    const start = {
+      x: corner.x - ((corner.x - previous.x) / lengthIn) * radius,
+      y: corner.y - ((corner.y - previous.y) / lengthIn) * radius,
+    };
+    const end = {
+      x: corner.x + ((next.x - corner.x) / lengthOut) * radius,
+      y: corner.y + ((next.y - corner.y) / lengthOut) * radius,
+    };
+    path += `L${formatPoint(start)}Q${formatPoint(corner)} ${formatPoint(end)}`;
+  }
+  return `${path}L${formatPoint(points[points.length - 1])}`;
+};
+
+/**
+ * Builds an SVG path through the given points: straight segments for 'polyline' (with rounded corners
+ * when cornerRadius is set), or a Catmull-Rom spline converted to cubic Béziers for 'smooth'.
+ * Returns the path together with the label position halfway along the route.
+ */
+export const getRoutedEdgePath = (
+  points: XYPosition[],
+  curve: RoutedEdgeCurve = 'polyline',
+  cornerRadius: number = 0
+): [path: string, labelX: number, labelY: number] => {
+  if (points.length === 0) {
+    return ['', 0, 0];
+  }
+
+  const { x: labelX, y: labelY } = getPolylineMidpoint(points);
+
+  if (curve === 'polyline' && cornerRadius > 0 && points.length >= 3) {
+    return [getRoundedPolylinePath(points, cornerRadius), labelX, labelY];
+  }
+
+  if (curve === 'polyline' || points.length < 3) {
+    return [`M${points.map(formatPoint).join('L')}`, labelX, labelY];
+  }
+
+  let path = `M${formatPoint(points[0])}`;
+  for (let index = 0; index < points.length - 1; index++) {
+    const p0 = points[Math.max(0, index - 1)];
+    const p1 = points[index];
+    const p2 = points[index + 1];
+    const p3 = points[Math.min(points.length - 1, index + 2)];
+    const control1 = { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+    const control2 = { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+    path += `C${formatPoint(control1)} ${formatPoint(control2)} ${formatPoint(p2)}`;
+  }
+
+  return [path, labelX, labelY];
+};
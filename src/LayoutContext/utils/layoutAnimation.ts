@@ -0,0 +1,215 @@
+import { Node } from '@xyflow/react';
+
+export type LayoutAnimationEasing =
+  | 'linear'
+  | 'ease-in'
+  | 'ease-out'
+  | 'ease-in-out'
+  | ((progress: number) => number);
+
+/**
+ * Options for animating nodes from their previous layout to the new one
+ */
+export interface LayoutAnimationOptions {
+  enabled: boolean;
+  duration: number; // Milliseconds
+  easing: LayoutAnimationEasing;
+  interruptible: boolean; // Whether a new layout cancels a running animation instead of waiting for it
+}
+
+export const DEFAULT_LAYOUT_ANIMATION_OPTIONS: LayoutAnimationOptions = {
+  enabled: false,
+  duration: 300,
+  easing: 'ease-in-out',
+  interruptible: true,
+};
+
+/**
+ * Geometry of a node captured before a layout runs.
+ * Layout calculation mutates container styles in place, so sizes must be copied up front.
+ */
+export interface NodeGeometry {
+  x: number;
+  y: number;
+  parentId?: string;
+  width?: number;
+  height?: number;
+}
+
+const EASINGS: Record<Exclude<LayoutAnimationEasing, (progress: number) => number>, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+export const resolveEasing = (easing: LayoutAnimationEasing): ((t: number) => number) =>
+  typeof easing === 'function' ? easing : EASINGS[easing] || EASINGS.linear;
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Copies the position, parent and size of every node so it survives in-place layout mutations
+ */
+export const captureNodeGeometry = (nodes: Node[]): Map<string, NodeGeometry> => {
+  const geometry = new Map<string, NodeGeometry>();
+  nodes.forEach(node => {
+    geometry.set(node.id, {
+      x: node.position.x,
+      y: node.position.y,
+      parentId: node.parentId,
+      width: toNumber(node.style?.width) ?? node.width ?? node.measured?.width,
+      height: toNumber(node.style?.height) ?? node.height ?? node.measured?.height,
+    });
+  });
+  return geometry;
+};
+
+/**
+ * Absolute position of a node from captured geometry, adding up the positions of its ancestors
+ */
+export const getAbsolutePosition = (
+  nodeId: string | undefined,
+  geometry: Map<string, NodeGeometry>
+): { x: number; y: number } => {
+  let x = 0;
+  let y = 0;
+  const visited = new Set<string>();
+  let current = nodeId ? geometry.get(nodeId) : undefined;
+  let currentId = nodeId;
+
+  while (current && currentId && !visited.has(currentId)) {
+    visited.add(currentId);
+    x += current.x;
+    y += current.y;
+    currentId = current.parentId;
+    current = currentId ? geometry.get(currentId) : undefined;
+  }
+
+  return { x, y };
+};
+
+/**
+ * Creates a function returning the nodes at a given (eased) progress between two layouts.
+ * Positions are interpolated in parent-relative space. Since every ancestor is interpolated with the
+ * same progress, absolute positions move along a straight line as well. Nodes whose parent changed
+ * start from their previous absolute position expressed relative to the new parent.
+ */
+export const createLayoutTransition = (
+  previousGeometry: Map<string, NodeGeometry>,
+  nextNodes: Node[]
+): ((progress: number) => Node[]) => {
+  const frames = nextNodes.map(node => {
+    const previous = previousGeometry.get(node.id);
+    if (!previous) {
+      return { node, from: null };
+    }
+
+    let fromX = previous.x;
+    let fromY = previous.y;
+    if (previous.parentId !== node.parentId) {
+      const previousAbsolute = getAbsolutePosition(node.id, previousGeometry);
+      const newParentAbsolute = getAbsolutePosition(node.parentId, previousGeometry);
+      fromX = previousAbsolute.x - newParentAbsolute.x;
+      fromY = previousAbsolute.y - newParentAbsolute.y;
+    }
+
+    const toWidth = toNumber(node.style?.width);
+    const toHeight = toNumber(node.style?.height);
+
+    return {
+      node,
+      from: {
+        x: fromX,
+        y: fromY,
+        width: toWidth !== undefined ? previous.width : undefined,
+        height: toHeight !== undefined ? previous.height : undefined,
+      },
+      toWidth,
+      toHeight,
+    };
+  });
+
+  return (progress: number) => frames.map(({ node, from, toWidth, toHeight }) => {
+    if (!from || progress >= 1) {
+      return node;
+    }
+
+    const frameNode: Node = {
+      ...node,
+      position: {
+        x: lerp(from.x, node.position.x, progress),
+        y: lerp(from.y, node.position.y, progress),
+      },
+    };
+
+    if (from.width !== undefined && from.height !== undefined && toWidth !== undefined && toHeight !== undefined) {
+      const width = lerp(from.width, toWidth, progress);
+      const height = lerp(from.height, toHeight, progress);
+      frameNode.style = { ...node.style, width, height };
+      frameNode.width = width;
+      frameNode.height = height;
+      frameNode.measured = { width, height };
+    }
+
+    return frameNode;
+  });
+};
+
+/**
+ * Animates from the previous geometry to the next nodes, calling onFrame with intermediate nodes
+ * and the eased progress. The final frame always receives nextNodes unchanged with progress 1. Aborting the signal stops the animation
+ * after the current frame without emitting the final frame.
+ */
+export const animateLayoutTransition = (
+  previousGeometry: Map<string, NodeGeometry>,
+  nextNodes: Node[],
+  options: Pick<LayoutAnimationOptions, 'duration' | 'easing'>,
+  onFrame: (nodes: Node[], progress: number) => void,
+  signal?: AbortSignal,
+  requestFrame: (callback: (time: number) => void) => unknown = requestAnimationFrame
+): Promise<void> => new Promise(resolve => {
+  if (signal?.aborted) {
+    resolve();
+    return;
+  }
+
+  if (options.duration <= 0) {
+    onFrame(nextNodes, 1);
+    resolve();
+    return;
+  }
+
+  const transition = createLayoutTransition(previousGeometry, nextNodes);
+  const ease = resolveEasing(options.easing);
+  let startTime: number | null = null;
+
+  const step = (time: number) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    if (startTime === null) {
+      startTime = time;
+    }
+
+    const linearProgress = Math.min(1, (time - startTime) / options.duration);
+    if (linearProgress >= 1) {
+      onFrame(nextNodes, 1);
+      resolve();
+      return;
+    }
+
+    const progress = ease(linearProgress);
+    onFrame(transition(progress), progress);
+    requestFrame(step);
+  };
+
+  requestFrame(step);
+});
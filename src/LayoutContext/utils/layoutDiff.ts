@@ -0,0 +1,77 @@
+import type { Node } from '@xyflow/react';
+import { captureNodeGeometry, NodeGeometry } from './layoutAnimation';
+
+/**
+ * A node the layout moved, with parent-relative positions before and after
+ */
+export interface MovedNode {
+  id: string;
+  oldPosition: { x: number; y: number };
+  newPosition: { x: number; y: number };
+  oldParentId?: string;
+  newParentId?: string;
+}
+
+/**
+ * A container the layout resized. Sizes are undefined when the node had none set or measured.
+ */
+export interface ResizedContainer {
+  id: string;
+  oldSize: { width?: number; height?: number };
+  newSize: { width?: number; height?: number };
+}
+
+/**
+ * What a committed layout changed, e.g. to persist only the nodes that moved
+ */
+export interface LayoutDiff {
+  movedNodes: MovedNode[];
+  resizedContainers: ResizedContainer[];
+}
+
+// Differences below half a pixel are rounding noise, the same tolerance the layout history uses
+const DIFF_TOLERANCE = 0.5;
+
+const differs = (a: number | undefined, b: number | undefined) =>
+  a === undefined || b === undefined ? a !== b : Math.abs(a - b) > DIFF_TOLERANCE;
+
+/**
+ * Compares the nodes before a layout, or their geometry captured up front, with the laid out nodes.
+ * A node counts as moved when its position or its parent changed; nodes that did not exist
+ * before the layout are left out. Only nodes that have children are reported as resized containers.
+ */
+export const computeLayoutDiff = (
+  previous: Node[] | Map<string, NodeGeometry>,
+  nextNodes: Node[]
+): LayoutDiff => {
+  const previousGeometry = previous instanceof Map ? previous : captureNodeGeometry(previous);
+  const nextGeometry = captureNodeGeometry(nextNodes);
+  const containerIds = new Set(nextNodes.map(node => node.parentId).filter((id): id is string => Boolean(id)));
+  const movedNodes: MovedNode[] = [];
+  const resizedContainers: ResizedContainer[] = [];
+
+  nextGeometry.forEach((next, id) => {
+    const before = previousGeometry.get(id);
+    if (!before) {
+      return;
+    }
+    if (differs(before.x, next.x) || differs(before.y, next.y) || before.parentId !== next.parentId) {
+      movedNodes.push({
+        id,
+        oldPosition: { x: before.x, y: before.y },
+        newPosition: { x: next.x, y: next.y },
+        oldParentId: before.parentId,
+        newParentId: next.parentId,
+      });
+    }
+    if (containerIds.has(id) && (differs(before.width, next.width) || differs(before.height, next.height))) {
+      resizedContainers.push({
+        id,
+        oldSize: { width: before.width, height: before.height },
+        newSize: { width: next.width, height: next.height },
+      });
+    }
+  });
+
+  return { movedNodes, resizedContainers };
+};
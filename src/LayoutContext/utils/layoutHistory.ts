@@ -0,0 +1,134 @@
+import { Node } from '@xyflow/react';
+import { captureNodeGeometry, NodeGeometry } from './layoutAnimation';
+
+// Positions, parents and sizes of every node at one point in the history
+export type LayoutSnapshot = Map<string, NodeGeometry>;
+
+/**
+ * Committed layouts, oldest first. `index` points at the entry the canvas showed last,
+ * so entries after it can be redone; it is -1 while the history is empty.
+ */
+export interface LayoutHistory {
+  entries: LayoutSnapshot[];
+  index: number;
+}
+
+export const EMPTY_LAYOUT_HISTORY: LayoutHistory = { entries: [], index: -1 };
+
+export const DEFAULT_LAYOUT_HISTORY_LIMIT = 50;
+
+// Sub-pixel differences come from measuring and rounding, not from the user
+const TOLERANCE = 0.5;
+
+const differs = (a: number | undefined, b: number | undefined) =>
+  a !== undefined && b !== undefined && Math.abs(a - b) > TOLERANCE;
+
+// Nodes missing from the recorded snapshot were added since, so only moves and resizes count as changes
+const hasSameGeometry = (recorded: LayoutSnapshot, current: LayoutSnapshot): boolean =>
+  [...current.entries()].every(([id, geometry]) => {
+    const previous = recorded.get(id);
+    return !previous || (
+      previous.parentId === geometry.parentId
+      && !differs(previous.x, geometry.x)
+      && !differs(previous.y, geometry.y)
+      && !differs(previous.width, geometry.width)
+      && !differs(previous.height, geometry.height)
+    );
+  });
+
+/**
+ * Whether the nodes still have the geometry of the snapshot
+ */
+export const isSameLayout = (snapshot: LayoutSnapshot, nodes: Node[]): boolean =>
+  hasSameGeometry(snapshot, captureNodeGeometry(nodes));
+
+/**
+ * Appends a snapshot after the current entry, dropping the redo entries and the oldest ones beyond the limit
+ */
+export const pushLayoutSnapshot = (history: LayoutHistory, snapshot: LayoutSnapshot, limit: number): LayoutHistory => {
+  if (limit <= 0) {
+    return EMPTY_LAYOUT_HISTORY;
+  }
+  const entries = [...history.entries.slice(0, history.index + 1), snapshot].slice(-limit);
+  return { entries, index: entries.length - 1 };
+};
+
+/**
+ * Records a committed layout. When the layout started from a state the history does not know,
+ * such as nodes dragged by hand since the last entry, that state is recorded first so it can be undone to.
+ */
+export const recordLayoutChange = (
+  history: LayoutHistory,
+  previous: LayoutSnapshot,
+  next: LayoutSnapshot,
+  limit: number
+): LayoutHistory => {
+  const current = history.entries[history.index];
+  const withPrevious = current && hasSameGeometry(current, previous)
+    ? history
+    : pushLayoutSnapshot(history, previous, limit);
+  return pushLayoutSnapshot(withPrevious, next, limit);
+};
+
+export const canUndoLayout = (history: LayoutHistory, nodes: Node[]): boolean => {
+  const current = history.entries[history.index];
+  return history.index > 0 || (current !== undefined && !isSameLayout(current, nodes));
+};
+
+// Moving nodes after an undo starts a new branch, so redo is only possible on an untouched canvas
+export const canRedoLayout = (history: LayoutHistory, nodes: Node[]): boolean =>
+  history.index < history.entries.length - 1 && isSameLayout(history.entries[history.index], nodes);
+
+/**
+ * Steps back one entry. Unrecorded manual changes are recorded first, so undo returns to the
+ * last recorded layout and redo brings the changes back.
+ */
+export const undoLayoutHistory = (
+  history: LayoutHistory,
+  nodes: Node[],
+  limit: number
+): { history: LayoutHistory; snapshot: LayoutSnapshot } | null => {
+  if (!canUndoLayout(history, nodes)) {
+    return null;
+  }
+  const current = history.entries[history.index];
+  const recorded = isSameLayout(current, nodes)
+    ? history
+    : pushLayoutSnapshot(history, captureNodeGeometry(nodes), limit);
+  const index = recorded.index - 1;
+  if (index < 0) {
+    return null; // A limit of one leaves nothing to go back to
+  }
+  return { history: { ...recorded, index }, snapshot: recorded.entries[index] };
+};
+
+export const redoLayoutHistory = (
+  history: LayoutHistory,
+  nodes: Node[]
+): { history: LayoutHistory; snapshot: LayoutSnapshot } | null => {
+  if (!canRedoLayout(history, nodes)) {
+    return null;
+  }
+  const index = history.index + 1;
+  return { history: { ...history, index }, snapshot: history.entries[index] };
+};
+
+/**
+ * Moves the nodes back to a snapshot. Container sizes are restored for nodes sized through their style;
+ * nodes added since the snapshot or moved to another parent keep their geometry.
+ */
+export const restoreLayoutSnapshot = (nodes: Node[], snapshot: LayoutSnapshot): Node[] => nodes.map(node => {
+  const geometry = snapshot.get(node.id);
+  if (!geometry || geometry.parentId !== node.parentId) {
+    return node;
+  }
+  const restored: Node = { ...node, position: { x: geometry.x, y: geometry.y } };
+  const { width, height } = geometry;
+  if (node.style?.width !== undefined && node.style?.height !== undefined && width !== undefined && height !== undefined) {
+    restored.style = { ...node.style, width, height };
+    restored.width = width;
+    restored.height = height;
+    restored.measured = { width, height };
+  }
+  return restored;
+});
@@ -0,0 +1,35 @@
+import type { Edge, Node } from '@xyflow/react';
+import type { LayoutDiff } from './layoutDiff';
+
+export interface LayoutLifecycleCallbacks {
+  onLayoutStart?: () => void;
+  onLayoutComplete?: (result: { nodes: Node[]; edges: Edge[] }, diff: LayoutDiff) => void;
+  onLayoutError?: (error: Error) => void;
+  onLayoutCancel?: () => void;
+}
+
+export interface LayoutRun {
+  complete: (result: { nodes: Node[]; edges: Edge[] }, diff: LayoutDiff) => void;
+  fail: (error: Error) => void;
+  cancel: () => void;
+}
+
+/**
+ * Calls onLayoutStart and returns the run's outcome notifications. Only the first outcome is reported,
+ * so every start is paired with exactly one of onLayoutComplete, onLayoutError or onLayoutCancel.
+ */
+export const startLayoutRun = (callbacks: LayoutLifecycleCallbacks): LayoutRun => {
+  let settled = false;
+  const settle = (notify: () => void) => {
+    if (!settled) {
+      settled = true;
+      notify();
+    }
+  };
+  callbacks.onLayoutStart?.();
+  return {
+    complete: (result, diff) => settle(() => callbacks.onLayoutComplete?.(result, diff)),
+    fail: error => settle(() => callbacks.onLayoutError?.(error)),
+    cancel: () => settle(() => callbacks.onLayoutCancel?.()),
+  };
+};
@@ -1,6 +1,7 @@
-import { Edge, Node, Position } from '@xyflow/react';
+import type { Edge, Node, Position } from '@xyflow/react';
 import { LayoutDirection } from '../context/LayoutContext';
 import { Direction } from '../core/HierarchicalLayoutOrganizer';
+import { getCollapsedEndpoint, isCollapsedContainer } from './containerCollapse';
 
 /**
  * Convert direction from our API format to the format expected by layout engines
@@ -70,27 +71,28 @@ export const DEFAULT_PARENT_RESIZING_OPTIONS = {
 // Simple functions to determine source and target positions based on direction
 export const getSourcePosition = (direction: LayoutDirection): Position => {
     switch (direction) {
-        case 'DOWN': return Position.Bottom;
-        case 'RIGHT': return Position.Right;
-        case 'UP': return Position.Top;
-        case 'LEFT': return Position.Left;
-        default: return Position.Bottom;
+        case 'DOWN': return 'bottom' as Position;
+        case 'RIGHT': return 'right' as Position;
+        case 'UP': return 'top' as Position;
+        case 'LEFT': return 'left' as Position;
+        default: return 'bottom' as Position;
     }
 };
 
 export const getTargetPosition = (direction: LayoutDirection): Position => {
     switch (direction) {
-        case 'DOWN': return Position.Top;
-        case 'RIGHT': return Position.Left;
-        case 'UP': return Position.Bottom;
-        case 'LEFT': return Position.Right;
-        default: return Position.Top;
+        case 'DOWN': return 'top' as Position;
+        case 'RIGHT': return 'left' as Position;
+        case 'UP': return 'bottom' as Position;
+        case 'LEFT': return 'right' as Position;
+        default: return 'top' as Position;
     }
 };
 
 /**
  * Utility to filter visible nodes and edges based on the layoutHidden flag.
- * If layoutHidden is false, only visible nodes/edges are included.
+ * If layoutHidden is false, only visible nodes/edges are included; edges of nodes hidden inside a
+ * collapsed container are kept when the container is visible, since the layout attaches them to it.
  * If layoutHidden is true, all nodes/edges are included.
  */
 export function filterVisibleNodesAndEdges(
@@ -103,8 +105,11 @@ export function filterVisibleNodesAndEdges(
   }
   const visibleNodes = nodes.filter(node => !node.hidden);
   const visibleNodeIds = new Set(visibleNodes.map(node => node.id));
+  const nodeIdWithNode = nodes.some(isCollapsedContainer) ? new Map(nodes.map(node => [node.id, node])) : null;
+  const isVisibleEndpoint = (nodeId: string) => visibleNodeIds.has(nodeId)
+    || (nodeIdWithNode !== null && visibleNodeIds.has(getCollapsedEndpoint(nodeId, nodeIdWithNode)));
   const visibleEdges = edges.filter(
-    edge => visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target)
+    edge => isVisibleEndpoint(edge.source) && isVisibleEndpoint(edge.target)
   );
   return { nodes: visibleNodes, edges: visibleEdges };
 }
@@ -0,0 +1,88 @@
+import { Node } from '@xyflow/react';
+
+/**
+ * How far nodes moved between two layouts
+ */
+export interface LayoutDisplacement {
+  total: number;
+  max: number;
+  average: number;
+  byNodeId: Map<string, number>;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Measures the distance each node moved between two layouts.
+ * Only nodes present in both layouts are counted; pass nodeIds to restrict the measure further,
+ * e.g. to the nodes that were not part of an edit.
+ */
+export const measureLayoutDisplacement = (
+  previousNodes: Node[],
+  nextNodes: Node[],
+  nodeIds?: Iterable<string>
+): LayoutDisplacement => {
+  const previousById = new Map(previousNodes.map(node => [node.id, node.position]));
+  const includedIds = nodeIds ? new Set(nodeIds) : null;
+  const byNodeId = new Map<string, number>();
+
+  nextNodes.forEach(node => {
+    const previous = previousById.get(node.id);
+    if (!previous || (includedIds && !includedIds.has(node.id))) {
+      return;
+    }
+    byNodeId.set(node.id, Math.hypot(node.position.x - previous.x, node.position.y - previous.y));
+  });
+
+  const distances = [...byNodeId.values()];
+  const total = distances.reduce((sum, distance) => sum + distance, 0);
+
+  return {
+    total,
+    max: distances.length ? Math.max(...distances) : 0,
+    average: distances.length ? total / distances.length : 0,
+    byNodeId,
+  };
+};
+
+/**
+ * Translates laid out nodes so they stay as close as possible to their previous positions.
+ * Uses the median offset per axis, which minimizes the summed displacement and ignores
+ * the few nodes an edit moved far away.
+ */
+export const alignToPreviousPositions = (
+  previousNodes: Node[],
+  nodes: Node[]
+): Node[] => {
+  const previousById = new Map(previousNodes.map(node => [node.id, node.position]));
+  const offsetsX: number[] = [];
+  const offsetsY: number[] = [];
+
+  nodes.forEach(node => {
+    const previous = previousById.get(node.id);
+    if (previous) {
+      offsetsX.push(previous.x - node.position.x);
+      offsetsY.push(previous.y - node.position.y);
+    }
+  });
+
+  if (offsetsX.length === 0) {
+    return nodes;
+  }
+
+  const offsetX = median(offsetsX);
+  const offsetY = median(offsetsY);
+
+  nodes.forEach(node => {
+    node.position = {
+      x: node.position.x + offsetX,
+      y: node.position.y + offsetY,
+    };
+  });
+
+  return nodes;
+};
@@ -0,0 +1,94 @@
+import type { Node, Rect, Viewport } from '@xyflow/react';
+import { captureNodeGeometry, getAbsolutePosition, NodeGeometry } from './layoutAnimation';
+
+/**
+ * What the viewport does after a layout is committed:
+ * - `none` leaves it where it is
+ * - `fitView` fits the whole laid out graph
+ * - `anchorSelection` pans so the selected nodes keep their position on screen
+ * - `anchorNode(id)` pans so the given node keeps its position on screen
+ */
+export type LayoutViewportPolicy = 'none' | 'fitView' | 'anchorSelection' | { anchorNode: string };
+
+export const anchorNode = (nodeId: string): LayoutViewportPolicy => ({ anchorNode: nodeId });
+
+// Same default padding as React Flow's fitView
+export const DEFAULT_FIT_VIEW_PADDING = 0.1;
+
+/**
+ * Ids of the nodes whose on-screen position the policy keeps
+ */
+export const getViewportAnchorIds = (policy: LayoutViewportPolicy, selectedNodes: Node[]): string[] => {
+  if (policy === 'anchorSelection') {
+    return selectedNodes.map(node => node.id);
+  }
+  if (typeof policy === 'object') {
+    return [policy.anchorNode];
+  }
+  return [];
+};
+
+const getCenter = (nodeId: string, geometry: Map<string, NodeGeometry>) => {
+  const { x, y } = getAbsolutePosition(nodeId, geometry);
+  const { width = 0, height = 0 } = geometry.get(nodeId)!;
+  return { x: x + width / 2, y: y + height / 2 };
+};
+
+/**
+ * Viewport that keeps the anchors where they were on screen: it is panned by the distance the
+ * center of the anchors moved, at the same zoom. Anchors missing before or after the layout are
+ * ignored; returns null when none is left.
+ */
+export const getAnchoredViewport = (
+  viewport: Viewport,
+  previousGeometry: Map<string, NodeGeometry>,
+  nextGeometry: Map<string, NodeGeometry>,
+  anchorIds: string[]
+): Viewport | null => {
+  const anchors = anchorIds.filter(id => previousGeometry.has(id) && nextGeometry.has(id));
+  if (anchors.length === 0) {
+    return null;
+  }
+  let dx = 0;
+  let dy = 0;
+  anchors.forEach(id => {
+    const before = getCenter(id, previousGeometry);
+    const after = getCenter(id, nextGeometry);
+    dx += (after.x - before.x) / anchors.length;
+    dy += (after.y - before.y) / anchors.length;
+  });
+  return { x: viewport.x - dx * viewport.zoom, y: viewport.y - dy * viewport.zoom, zoom: viewport.zoom };
+};
+
+/**
+ * Absolute bounding box of the visible nodes, or null when there are none
+ */
+export const getLayoutBounds = (nodes: Node[]): Rect | null => {
+  const geometry = captureNodeGeometry(nodes);
+  const visibleNodes = nodes.filter(node => !node.hidden);
+  if (visibleNodes.length === 0) {
+    return null;
+  }
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  visibleNodes.forEach(node => {
+    const { x, y } = getAbsolutePosition(node.id, geometry);
+    const { width = 0, height = 0 } = geometry.get(node.id)!;
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x + width);
+    maxY = Math.max(maxY, y + height);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Viewport at the given (eased) progress, so the viewport moves in step with the nodes
+ */
+export const interpolateViewport = (from: Viewport, to: Viewport, progress: number): Viewport => ({
+  x: from.x + (to.x - from.x) * progress,
+  y: from.y + (to.y - from.y) * progress,
+  zoom: from.zoom + (to.zoom - from.zoom) * progress,
+});
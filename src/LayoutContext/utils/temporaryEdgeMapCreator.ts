@@ -1,5 +1,6 @@
 import { Edge, Node } from "@xyflow/react";
 import { findLCAWithChildren, getFirstChildUnderAncestor } from "./treeUtils";
+import { getCollapsedEndpoint, isCollapsedContainer } from "./containerCollapse";
 
 type TemporaryEdge = Edge & {
   data?: Record<string, unknown>;
@@ -200,6 +201,25 @@ const addSyntheticBridgeEdges = (
   });
 };
 
+/**
+ * Endpoints hidden inside a collapsed container are replaced by the container, which is laid out as a leaf.
+ * Edges that end up inside a single collapsed container are dropped.
+ */
+const redirectCollapsedEdges = (edges: Edge[], nodeIdWithNode: Map<string, Node>): Edge[] => {
+  const hasCollapsedContainer = [...nodeIdWithNode.values()].some(isCollapsedContainer);
+  if (!hasCollapsedContainer) {
+    return edges;
+  }
+  return edges.flatMap(edge => {
+    const source = getCollapsedEndpoint(edge.source, nodeIdWithNode);
+    const target = getCollapsedEndpoint(edge.target, nodeIdWithNode);
+    if (source === edge.source && target === edge.target) {
+      return [edge];
+    }
+    return source === target ? [] : [{ ...edge, source, target }];
+  });
+};
+
 /**
  * Process all edges once to create a global temporary edges map
  * This replaces all edge processing complexity
@@ -210,8 +230,10 @@ export function createGlobalTemporaryEdgesMap(
   noParentKey: string = 'no-parent'
 ): Map<string, Edge[]> {
   const temporaryEdgesByParent = new Map<string, Edge[]>();
+  const layoutEdges = redirectCollapsedEdges(edges, nodeIdWithNode);
+  const originalEdgeById = new Map(edges.map(edge => [edge.id, edge]));
   
-  for (const edge of edges) {
+  for (const edge of layoutEdges) {
     // For every edge, calculate LCA and create temporary edge
     const { lca, sourceChild, targetChild } = findLCAWithChildren(
       edge.source, 
@@ -230,8 +252,9 @@ export function createGlobalTemporaryEdgesMap(
         `temp_${edge.id}_${lca}`,
         {
           isTemporary: true,
-          originalSource: edge.source,
-          originalTarget: edge.target,
+          originalEdgeId: edge.id,
+          originalSource: originalEdgeById.get(edge.id)?.source ?? edge.source,
+          originalTarget: originalEdgeById.get(edge.id)?.target ?? edge.target,
         }
       );
       
@@ -243,7 +266,7 @@ export function createGlobalTemporaryEdgesMap(
     }
   }
 
-  addSyntheticBridgeEdges(edges, nodeIdWithNode, temporaryEdgesByParent, noParentKey);
+  addSyntheticBridgeEdges(layoutEdges, nodeIdWithNode, temporaryEdgesByParent, noParentKey);
   markReciprocalContainerEdges(temporaryEdgesByParent);
   
   return temporaryEdgesByParent;
@@ -10,6 +10,34 @@ export interface TreeNode {
   depth: number;
 }
 
+/**
+ * Builds the lookup maps the layout works on: nodes by id, and child ids by parent id.
+ * Nodes without a parent are listed under noParentKey.
+ *
+ * @param nodes The nodes of the graph
+ * @param noParentKey Key used to represent nodes without a parent
+ * @returns The node map and the parent to children map
+ */
+export const buildNodeMaps = (
+  nodes: Node[],
+  noParentKey: string = 'no-parent'
+): { nodeIdWithNode: Map<string, Node>; nodeParentIdMapWithChildIdSet: Map<string, Set<string>> } => {
+  const nodeIdWithNode = new Map<string, Node>();
+  const nodeParentIdMapWithChildIdSet = new Map<string, Set<string>>();
+
+  nodes.forEach(node => {
+    nodeIdWithNode.set(node.id, node);
+
+    const parentId = node.parentId || noParentKey;
+    if (!nodeParentIdMapWithChildIdSet.has(parentId)) {
+      nodeParentIdMapWithChildIdSet.set(parentId, new Set());
+    }
+    nodeParentIdMapWithChildIdSet.get(parentId)?.add(node.id);
+  });
+
+  return { nodeIdWithNode, nodeParentIdMapWithChildIdSet };
+};
+
 /**
  * Builds a tree structure from parent-child relationships in the node maps.
  * The tree only includes parent nodes (nodes that have children).
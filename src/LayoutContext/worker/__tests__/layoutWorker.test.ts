@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Node, Edge } from '@xyflow/react';
+import {
+  applyLayoutWorkerResult,
+  isWorkerEngine,
+  resolveWorkerEngine,
+  runLayoutRequest,
+  serializeLayoutRequest,
+} from '../layoutWorkerProtocol';
+import { runLayoutInWorker } from '../runLayoutInWorker';
+import { createDagreEngine, engines } from '../../engines';
+import { routeEdgesOrthogonally } from '../../core/OrthogonalRouter';
+import { applyEdgeRoutes } from '../../utils/edgeRouting';
+
+const createTestSetup = () => {
+  const nodes: Node[] = [
+    { id: 'parent', data: { label: 'Parent', onClick: () => {} }, position: { x: 0, y: 0 }, style: { background: 'red' } },
+    { id: 'child1', data: { label: 'Child 1' }, position: { x: 0, y: 0 }, parentId: 'parent' },
+    { id: 'child2', data: { label: 'Child 2' }, position: { x: 0, y: 0 }, parentId: 'parent' },
+  ];
+  const edges: Edge[] = [{ id: 'edge1', source: 'child1', target: 'child2' }];
+
+  const nodeIdWithNode = new Map<string, Node>(nodes.map(node => [node.id, node]));
+  const nodeParentIdMapWithChildIdSet = new Map<string, Set<string>>([
+    ['parent', new Set(['child1', 'child2'])],
+    ['no-parent', new Set(['parent'])],
+  ]);
+
+  return { nodes, edges, nodeIdWithNode, nodeParentIdMapWithChildIdSet };
+};
+
+const createRequest = (setup: ReturnType<typeof createTestSetup>) =>
+  serializeLayoutRequest(setup.nodeIdWithNode, setup.nodeParentIdMapWithChildIdSet, setup.edges, {
+    engine: 'dagre',
+    direction: 'TB',
+    parentResizingOptions: { enabled: true, padding: { horizontal: 10, vertical: 10 }, respectHeaderHeight: false },
+    nodeSpacing: 50,
+    layerSpacing: 50,
+    nodeWidth: 172,
+    nodeHeight: 36,
+    layoutHidden: false,
+    noParentKey: 'no-parent',
+    stableLayout: false,
+    autoGridLayout: false,
+  });
+
+describe('layoutWorker', () => {
+  describe('serializeLayoutRequest', () => {
+    it('should strip data the structured clone algorithm cannot copy', () => {
+      const request = createRequest(createTestSetup());
+
+      expect(request.nodes[0].data).toEqual({ label: 'Parent' });
+      expect(request.nodes[0].style).toEqual({ width: undefined, height: undefined });
+      expect(request.parentChildEntries).toEqual([
+        ['parent', ['child1', 'child2']],
+        ['no-parent', ['parent']],
+      ]);
+      expect(() => structuredClone(request)).not.toThrow();
+    });
+  });
+
+  describe('isWorkerEngine', () => {
+    it('should only accept engines bundled into the worker', () => {
+      expect(isWorkerEngine('dagre')).toBe(true);
+      expect(isWorkerEngine('custom')).toBe(false);
+      expect(isWorkerEngine('elk')).toBe(false);
+    });
+  });
+
+  describe('resolveWorkerEngine', () => {
+    it('should keep layouts the worker cannot reproduce on the main thread', () => {
+      const setup = createTestSetup();
+      const measured = createDagreEngine({ measureEdgeLabel: () => ({ width: 10, height: 10 }) });
+
+      expect(resolveWorkerEngine('layered', engines, setup.nodeIdWithNode, false)).toBe('dagre');
+      expect(resolveWorkerEngine('grid', engines, setup.nodeIdWithNode, false)).toBe('grid');
+      expect(resolveWorkerEngine('elk', engines, setup.nodeIdWithNode, false)).toBeNull();
+      expect(resolveWorkerEngine('dagre', { ...engines, dagre: measured }, setup.nodeIdWithNode, false)).toBeNull();
+      expect(resolveWorkerEngine('dagre', engines, setup.nodeIdWithNode, true)).toBeNull();
+    });
+
+    it('should check the engines containers select by name', () => {
+      const setup = createTestSetup();
+      const custom = { calculate: vi.fn() };
+
+      setup.nodeIdWithNode.get('parent')!.data.layoutEngine = 'radial';
+      expect(resolveWorkerEngine('dagre', engines, setup.nodeIdWithNode, false)).toBe('dagre');
+
+      setup.nodeIdWithNode.get('parent')!.data.layoutEngine = 'custom';
+      expect(resolveWorkerEngine('dagre', { ...engines, custom }, setup.nodeIdWithNode, false)).toBeNull();
+    });
+  });
+
+  describe('runLayoutRequest and applyLayoutWorkerResult', () => {
+    it('should return only geometry and merge it back into the original nodes', async () => {
+      const setup = createTestSetup();
+      const result = await runLayoutRequest(createRequest(setup));
+
+      expect(result.nodes.map(node => node.id).sort()).toEqual(['child1', 'child2', 'parent']);
+      const parentResult = result.nodes.find(node => node.id === 'parent')!;
+      expect(parentResult.size!.width).toBeGreaterThan(0);
+      expect(result.nodes.find(node => node.id === 'child1')!.size).toBeUndefined();
+
+      const updatedNodes = applyLayoutWorkerResult(result, setup.nodeIdWithNode);
+      const parent = updatedNodes.find(node => node.id === 'parent')!;
+      const [child1, child2] = ['child1', 'child2'].map(id => setup.nodeIdWithNode.get(id)!);
+
+      expect(parent.data.onClick).toBe(setup.nodes[0].data.onClick);
+      expect(parent.style).toEqual({ background: 'red', width: parentResult.size!.width, height: parentResult.size!.height });
+      expect(setup.nodes[0].style).toEqual({ background: 'red' });
+      expect(child2.position.y).toBeGreaterThan(child1.position.y);
+    });
+
+    it('should lay out only the requested parent chain', async () => {
+      const setup = createTestSetup();
+      const result = await runLayoutRequest({ ...createRequest(setup), parentIds: ['parent'] });
+
+      expect(result.nodes.map(node => node.id).sort()).toEqual(['child1', 'child2', 'parent']);
+    });
+
+    it('should route edges orthogonally in the worker like the main thread does', async () => {
+      const setup = createTestSetup();
+      setup.nodeIdWithNode.set('child3', { id: 'child3', data: {}, position: { x: 0, y: 0 }, parentId: 'parent' });
+      setup.nodeParentIdMapWithChildIdSet.get('parent')!.add('child3');
+      const edges: Edge[] = [...setup.edges, { id: 'edge2', source: 'child1', target: 'child3' }];
+      const orthogonalRouting = { enabled: true, cornerRadius: 6, edgeSeparation: 8, nodeClearance: 10 };
+
+      const result = await runLayoutRequest({
+        ...createRequest(setup),
+        edges,
+        orthogonalRouting,
+      });
+      applyLayoutWorkerResult(result, setup.nodeIdWithNode);
+      const expected = routeEdgesOrthogonally(edges, setup.nodeIdWithNode, orthogonalRouting);
+
+      // Both targets sit below child1 side by side, so at least one route bends
+      expect(result.edgeRoutes!.every(route => route.cornerRadius === 6)).toBe(true);
+      expect(expected.some(edge => (edge.data!.waypoints as unknown[]).length > 0)).toBe(true);
+      applyEdgeRoutes(edges, result.edgeRoutes!).forEach((edge, index) => {
+        expect(edge.data?.waypoints ?? []).toEqual(expected[index].data!.waypoints);
+      });
+    });
+  });
+
+  describe('runLayoutInWorker', () => {
+    const createFakeWorker = () => {
+      const worker = {
+        onmessage: null as ((event: MessageEvent) => void) | null,
+        onerror: null as ((event: ErrorEvent) => void) | null,
+        postMessage: vi.fn(),
+        terminate: vi.fn(),
+      };
+      return worker;
+    };
+
+    it('should resolve with the worker result and terminate the worker', async () => {
+      const worker = createFakeWorker();
+      worker.postMessage.mockImplementation(({ id }) => {
+        worker.onmessage!({ data: { id, result: { nodes: [] } } } as MessageEvent);
+      });
+
+      const result = await runLayoutInWorker(createRequest(createTestSetup()), undefined, () => worker as unknown as Worker);
+
+      expect(result).toEqual({ nodes: [] });
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should terminate an in-flight job when aborted', async () => {
+      const worker = createFakeWorker();
+      const abortController = new AbortController();
+
+      const promise = runLayoutInWorker(createRequest(createTestSetup()), abortController.signal, () => worker as unknown as Worker);
+      abortController.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should reject with worker errors', async () => {
+      const worker = createFakeWorker();
+      worker.postMessage.mockImplementation(({ id }) => {
+        worker.onmessage!({ data: { id, error: 'boom' } } as MessageEvent);
+      });
+
+      await expect(
+        runLayoutInWorker(createRequest(createTestSetup()), undefined, () => worker as unknown as Worker)
+      ).rejects.toThrow('boom');
+    });
+  });
+});
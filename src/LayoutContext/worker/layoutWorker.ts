@@ -0,0 +1,18 @@
+/// <reference lib="webworker" />
+import { LayoutWorkerRequest, LayoutWorkerResponse, runLayoutRequest } from './layoutWorkerProtocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// Worker entry: runs one layout request per message and posts back only positions and sizes
+self.onmessage = async (event: MessageEvent<{ id: number; request: LayoutWorkerRequest }>) => {
+    const { id, request } = event.data;
+    let response: LayoutWorkerResponse;
+
+    try {
+        response = { id, result: await runLayoutRequest(request) };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    self.postMessage(response);
+};
@@ -0,0 +1,277 @@
+import { Edge, Node, Position, XYPosition } from '@xyflow/react';
+import { fixParentNodeDimensions, organizeLayoutByTreeDepth, organizeLayoutRecursively } from '../core/HierarchicalLayoutOrganizer';
+import { routeEdgesOrthogonally } from '../core/OrthogonalRouter';
+import type { LayoutPipelineOptions } from '../core/LayoutPipeline';
+import type { LayoutEngine } from '../context/LayoutContext';
+import { DagreEngine } from '../engines/DagreEngine';
+import { GridEngine } from '../engines/GridEngine';
+import { RadialEngine } from '../engines/RadialEngine';
+import { TidyTreeEngine } from '../engines/TidyTreeEngine';
+import { ForceEngine } from '../engines/ForceEngine';
+import { buildNodeTree } from '../utils/treeUtils';
+import type { EdgeRoute } from '../utils/edgeRouting';
+
+// Engines the worker can recreate by name. Kept separate from the engine registry so the
+// inlined worker bundle does not pull in heavier engines such as ELK.
+export const workerEngines = {
+    dagre: DagreEngine,
+    grid: GridEngine,
+    radial: RadialEngine,
+    mrtree: TidyTreeEngine,
+    force: ForceEngine,
+};
+
+// Layout settings a worker can receive; engines are recreated by name inside the worker
+export type LayoutWorkerOptions = Omit<LayoutPipelineOptions, 'engine' | 'layoutEngines' | 'layoutCache'>;
+
+/**
+ * Everything a worker needs to run the hierarchical layout pipeline.
+ * Nodes and edges are stripped down to structured-clone safe data (no functions or React elements).
+ */
+export interface LayoutWorkerRequest extends LayoutWorkerOptions {
+    engine: keyof typeof workerEngines;
+    nodes: Node[];
+    edges: Edge[];
+    parentChildEntries: [string, string[]][];
+    parentIds?: string[]; // Containers to lay out recursively; omitted for a full layout
+}
+
+// Resulting geometry of a single node. Size is only set for containers the layout resized.
+export interface LayoutWorkerNodeResult {
+    id: string;
+    position: { x: number; y: number };
+    sourcePosition?: Position;
+    targetPosition?: Position;
+    size?: { width: number; height: number };
+}
+
+export interface LayoutWorkerResult {
+    nodes: LayoutWorkerNodeResult[];
+    edgeRoutes?: EdgeRoute[]; // Routes of the edges whose container was laid out
+}
+
+export type LayoutWorkerResponse =
+    | { id: number; result: LayoutWorkerResult }
+    | { id: number; error: string };
+
+/**
+ * Checks whether the named engine can run inside the layout worker.
+ * Custom engines are functions and cannot be sent to a worker.
+ */
+export const isWorkerEngine = (name: string): name is keyof typeof workerEngines =>
+    Object.prototype.hasOwnProperty.call(workerEngines, name);
+
+/**
+ * Name of the engine a worker can run this layout with, or null when the layout has to stay on the main thread.
+ * Only engine names reach the worker, so the layout engine and every engine a container selects through
+ * `data.layoutEngine` must be the unmodified built-in engine of that name; engines from createDagreEngine with
+ * a measureEdgeLabel callback do not qualify. The layout cache cannot be shared either, so incremental layouts stay too.
+ */
+export const resolveWorkerEngine = (
+    algorithm: string,
+    layoutEngines: Record<string, LayoutEngine>,
+    nodeIdWithNode: Map<string, Node>,
+    incrementalLayout: boolean
+): keyof typeof workerEngines | null => {
+    const engineName = layoutEngines[algorithm] ? algorithm : 'dagre';
+    const isBuiltIn = (name: string) => isWorkerEngine(name) && workerEngines[name] === layoutEngines[name];
+    if (incrementalLayout || !isWorkerEngine(engineName) || !isBuiltIn(engineName)) {
+        return null;
+    }
+    for (const node of nodeIdWithNode.values()) {
+        const containerEngine = node.data?.layoutEngine;
+        if (typeof containerEngine === 'string' && !isBuiltIn(containerEngine)) {
+            return null;
+        }
+    }
+    return engineName;
+};
+
+const toSerializable = (value: unknown): unknown => {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(toSerializable).filter(item => item !== undefined);
+    }
+    if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype && !('$$typeof' in value)) {
+        const result: Record<string, unknown> = {};
+        Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+            const serializable = toSerializable(entry);
+            if (serializable !== undefined) {
+                result[key] = serializable;
+            }
+        });
+        return result;
+    }
+    return undefined;
+};
+
+const serializeNode = (node: Node): Node => ({
+    id: node.id,
+    position: { ...node.position },
+    data: toSerializable(node.data) as Record<string, unknown>,
+    parentId: node.parentId,
+    hidden: node.hidden,
+    sourcePosition: node.sourcePosition,
+    targetPosition: node.targetPosition,
+    width: node.width,
+    height: node.height,
+    measured: node.measured ? { ...node.measured } : undefined,
+    style: node.style ? { width: node.style.width, height: node.style.height } : undefined,
+});
+
+const serializeEdge = (edge: Edge): Edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle,
+    targetHandle: edge.targetHandle,
+    data: edge.data ? toSerializable(edge.data) as Record<string, unknown> : undefined,
+});
+
+/**
+ * Builds a structured-clone safe worker request from the node maps and layout configuration
+ */
+export const serializeLayoutRequest = (
+    nodeIdWithNode: Map<string, Node>,
+    nodeParentIdMapWithChildIdSet: Map<string, Set<string>>,
+    edges: Edge[],
+    config: Omit<LayoutWorkerRequest, 'nodes' | 'edges' | 'parentChildEntries'>
+): LayoutWorkerRequest => ({
+    ...config,
+    nodes: [...nodeIdWithNode.values()].map(serializeNode),
+    edges: edges.map(serializeEdge),
+    parentChildEntries: [...nodeParentIdMapWithChildIdSet.entries()].map(([parentId, childIds]) => [parentId, [...childIds]]),
+});
+
+/**
+ * Runs the layout pipeline described by a worker request.
+ * Used inside the worker, but has no worker dependency so it can run anywhere.
+ */
+export const runLayoutRequest = async (request: LayoutWorkerRequest): Promise<LayoutWorkerResult> => {
+    const nodeIdWithNode = new Map(request.nodes.map(node => [node.id, node]));
+    const nodeParentIdMapWithChildIdSet = new Map(
+        request.parentChildEntries.map(([parentId, childIds]) => [parentId, new Set(childIds)])
+    );
+    const engine = workerEngines[request.engine] || workerEngines.dagre;
+    const containerIds = new Set(nodeParentIdMapWithChildIdSet.keys());
+
+    const options: LayoutPipelineOptions = {
+        direction: request.direction,
+        engine,
+        layoutEngines: workerEngines,
+        parentResizingOptions: request.parentResizingOptions,
+        nodeSpacing: request.nodeSpacing,
+        layerSpacing: request.layerSpacing,
+        nodeWidth: request.nodeWidth,
+        nodeHeight: request.nodeHeight,
+        layoutHidden: request.layoutHidden,
+        noParentKey: request.noParentKey,
+        stableLayout: request.stableLayout,
+        autoGridLayout: request.autoGridLayout,
+    };
+
+    let updatedNodes: Node[] = [];
+    let updatedEdges: Edge[] = [];
+
+    if (request.parentIds) {
+        const results = await Promise.all(request.parentIds.map(parentId =>
+            organizeLayoutRecursively(parentId, nodeParentIdMapWithChildIdSet, nodeIdWithNode, request.edges, options)
+        ));
+        updatedNodes = results.flatMap(result => result.updatedNodes);
+        updatedEdges = results.flatMap(result => result.updatedEdges);
+    } else {
+        const nodeTree = buildNodeTree(nodeParentIdMapWithChildIdSet, nodeIdWithNode, request.noParentKey);
+        const result = await organizeLayoutByTreeDepth(
+            nodeTree,
+            nodeParentIdMapWithChildIdSet,
+            nodeIdWithNode,
+            request.edges,
+            options
+        );
+        updatedNodes = result.updatedNodes;
+        updatedEdges = result.updatedEdges;
+    }
+
+    const resultById = new Map<string, LayoutWorkerNodeResult>();
+    updatedNodes.forEach(node => {
+        const latest = nodeIdWithNode.get(node.id) || node;
+        resultById.set(node.id, {
+            id: node.id,
+            position: latest.position,
+            sourcePosition: latest.sourcePosition,
+            targetPosition: latest.targetPosition,
+            size: containerIds.has(node.id) && latest.width && latest.height
+                ? { width: latest.width, height: latest.height }
+                : undefined,
+        });
+    });
+
+    // Layouts return every edge; only the rerouted ones differ from the request's edges
+    const requestEdges = new Set(request.edges);
+
+    // Orthogonal routing runs here as well, over all edges once every position is final, like finalizeLayout does
+    if (request.orthogonalRouting?.enabled) {
+        const laidOutEdgeById = new Map(updatedEdges.filter(edge => !requestEdges.has(edge)).map(edge => [edge.id, edge]));
+        updatedEdges = routeEdgesOrthogonally(
+            request.edges.map(edge => laidOutEdgeById.get(edge.id) || edge),
+            nodeIdWithNode,
+            request.orthogonalRouting,
+            request.nodeWidth,
+            request.nodeHeight,
+            request.layoutHidden,
+            request.noParentKey
+        );
+    }
+
+    const edgeRoutes = updatedEdges
+        .filter(edge => !requestEdges.has(edge))
+        .map((edge): EdgeRoute => ({
+            edgeId: edge.id,
+            parentId: typeof edge.data?.waypointsParentId === 'string' ? edge.data.waypointsParentId : undefined,
+            waypoints: Array.isArray(edge.data?.waypoints) ? edge.data.waypoints : [],
+            ...(edge.data?.labelPosition ? { labelPosition: edge.data.labelPosition as XYPosition } : {}),
+            ...(typeof edge.data?.cornerRadius === 'number' ? { cornerRadius: edge.data.cornerRadius } : {}),
+        }));
+
+    return { nodes: [...resultById.values()], edgeRoutes };
+};
+
+/**
+ * Applies worker results to the original nodes, keeping every property the worker never saw.
+ * The node map is updated in place, just like the main-thread layout does.
+ */
+export const applyLayoutWorkerResult = (
+    result: LayoutWorkerResult,
+    nodeIdWithNode: Map<string, Node>
+): Node[] => {
+    const updatedNodes: Node[] = [];
+
+    result.nodes.forEach(({ id, position, sourcePosition, targetPosition, size }) => {
+        const node = nodeIdWithNode.get(id);
+        if (!node) {
+            return;
+        }
+
+        let updatedNode: Node = {
+            ...node,
+            position,
+            sourcePosition: sourcePosition ?? node.sourcePosition,
+            targetPosition: targetPosition ?? node.targetPosition,
+            selected: false,
+        };
+        if (size) {
+            updatedNode = fixParentNodeDimensions(
+                { ...updatedNode, style: { ...updatedNode.style } },
+                size.width,
+                size.height
+            );
+        }
+
+        nodeIdWithNode.set(id, updatedNode);
+        updatedNodes.push(updatedNode);
+    });
+
+    return updatedNodes;
+};
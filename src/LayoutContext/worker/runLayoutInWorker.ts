@@ -0,0 +1,56 @@
+/// <reference types="vite/client" />
+import LayoutWorker from './layoutWorker?worker&inline';
+import { LayoutWorkerRequest, LayoutWorkerResponse, LayoutWorkerResult } from './layoutWorkerProtocol';
+
+// Creates the bundled layout worker (inlined so it survives library bundling)
+export const createLayoutWorker = (): Worker => new LayoutWorker();
+
+let nextRequestId = 0;
+
+/**
+ * Runs a layout request in a dedicated worker.
+ * Aborting the signal terminates the worker and rejects with an AbortError.
+ */
+export const runLayoutInWorker = (
+    request: LayoutWorkerRequest,
+    signal?: AbortSignal,
+    createWorker: () => Worker = createLayoutWorker
+): Promise<LayoutWorkerResult> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new DOMException('Layout aborted', 'AbortError'));
+        return;
+    }
+
+    const id = ++nextRequestId;
+    const worker = createWorker();
+
+    const cleanup = () => {
+        signal?.removeEventListener('abort', onAbort);
+        worker.terminate();
+    };
+
+    const onAbort = () => {
+        cleanup();
+        reject(new DOMException('Layout aborted', 'AbortError'));
+    };
+
+    worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+        if (event.data.id !== id) {
+            return;
+        }
+        cleanup();
+        if ('error' in event.data) {
+            reject(new Error(event.data.error));
+        } else {
+            resolve(event.data.result);
+        }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+        cleanup();
+        reject(new Error(event.message || 'Layout worker failed'));
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    worker.postMessage({ id, request });
+});
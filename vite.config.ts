@@ -26,7 +26,9 @@ export default defineConfig({
         id.startsWith('react-dom/') ||
         id === '@xyflow/react' ||
         id.startsWith('@xyflow/react/') ||
-        id === '@dagrejs/dagre',
+        id === '@dagrejs/dagre' ||
+        id === 'elkjs' ||
+        id.startsWith('elkjs/'),
       output: {
         globals: {
           'react/jsx-runtime': 'jsxRuntime',
@@ -34,7 +36,8 @@ export default defineConfig({
           react: 'React',
           'react-dom': 'ReactDOM',
           '@xyflow/react': 'ReactFlow',
-          '@dagrejs/dagre': 'dagre'
+          '@dagrejs/dagre': 'dagre',
+          'elkjs/lib/elk.bundled.js': 'ELK'
         },
       },
     },
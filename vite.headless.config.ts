@@ -0,0 +1,27 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// The headless and command line entries have no React dependency. Several entries rule out UMD,
+// so they are built as ES and CommonJS next to the main bundle from vite.config.ts.
+export default defineConfig({
+  build: {
+    emptyOutDir: false,
+    lib: {
+      entry: {
+        headless: path.resolve(__dirname, 'src/LayoutContext/headless.ts'),
+        cli: path.resolve(__dirname, 'src/LayoutContext/cli/runCli.ts'),
+      },
+      formats: ['es', 'cjs'],
+      fileName: (format, entryName) => `${entryName}.${format === 'es' ? 'es.js' : 'cjs'}`,
+    },
+    rollupOptions: {
+      external: (id) =>
+        id.startsWith('node:') ||
+        id === '@xyflow/react' ||
+        id.startsWith('@xyflow/react/') ||
+        id === '@dagrejs/dagre' ||
+        id === 'elkjs' ||
+        id.startsWith('elkjs/'),
+    },
+  },
+})